@@ -1,14 +1,22 @@
 import { Router } from "express";
 import { unlinkSync, existsSync } from "node:fs";
 import { join, resolve } from "node:path";
-import type { AppConfig } from "./types.js";
+import type { AppConfig, TranslationEndpoint } from "./types.js";
 import { StateManager } from "./state.js";
 import { saveConfig } from "./config.js";
+import { InstapaperClient } from "./instapaper.js";
+import { extractArticle, fetchPage } from "./extractor.js";
+import { queueArticle, submittedArticleId } from "./submitted-source.js";
+import { clearToken, getTokenInfo } from "./token-store.js";
+import { TranslationCache } from "./translation-cache.js";
+import { budgetReached, UsageLedger } from "./translation-usage.js";
 import { addLog, getLogs } from "./logs.js";
 import {
   DEFAULT_TEXT_PROMPT_TEMPLATE,
   DEFAULT_TITLE_PROMPT_TEMPLATE,
 } from "./translation-prompts.js";
+import { DEFAULT_EPISODE_TEMPLATES } from "./episode-templates.js";
+import { EPISODE_MODES } from "./speech.js";
 import {
   createIpFilter,
   createAuthGuard,
@@ -64,9 +72,14 @@ export function createAdminRouter(
   router.get("/api/config", (_req, res) => {
     const config = getConfig();
     const masked = JSON.parse(JSON.stringify(config));
-    masked.instapaper.password = "••••••••";
+    if (masked.instapaper.password) {
+      masked.instapaper.password = "••••••••";
+    }
     masked.instapaper.consumer_secret = "••••••••";
     masked.translation.api_key = "••••••••";
+    for (const fallback of masked.translation.fallbacks ?? []) {
+      if (fallback.api_key) fallback.api_key = "••••••••";
+    }
     if (masked.admin) {
       masked.admin.password = "••••••••";
       delete masked.admin.session_secret;
@@ -96,6 +109,11 @@ export function createAdminRouter(
       if (updates.translation?.api_key === "••••••••") {
         merged.translation.api_key = current.translation.api_key;
       }
+      merged.translation.fallbacks?.forEach((fallback, i) => {
+        if (fallback.api_key === "••••••••") {
+          fallback.api_key = storedFallbackKey(current.translation.fallbacks ?? [], fallback, i);
+        }
+      });
       // Preserve admin secrets
       if (merged.admin) {
         if (updates.admin?.password === "••••••••") {
@@ -114,12 +132,134 @@ export function createAdminRouter(
     }
   });
 
+  // ── API: Instapaper connection (OAuth token instead of a stored password) ──
+  router.get("/api/instapaper/connection", (_req, res) => {
+    const config = getConfig();
+    const info = getTokenInfo(config.data_dir);
+    res.json({
+      connected: !!info,
+      username: info?.username ?? null,
+      connectedAt: info?.connectedAt ?? null,
+      passwordStored: !!config.instapaper.password,
+    });
+  });
+
+  router.post("/api/instapaper/connect", async (req, res) => {
+    const { username, password } = req.body || {};
+    if (!username || typeof username !== "string" || !password || typeof password !== "string") {
+      return res.status(400).json({ error: "Username and password are required" });
+    }
+
+    const config = getConfig();
+    try {
+      const client = new InstapaperClient(config.instapaper, config.data_dir);
+      await client.connect(username, password);
+    } catch (err) {
+      console.error("[admin] Instapaper connect failed:", err);
+      return res.status(401).json({ error: "Instapaper rejected the credentials" });
+    }
+
+    // The token replaces the password, so drop it from config.yaml
+    const updated: AppConfig = JSON.parse(JSON.stringify(config));
+    updated.instapaper.username = username;
+    delete updated.instapaper.password;
+    saveConfig(updated);
+    setConfig(updated);
+
+    console.log(`[admin] Connected Instapaper account ${username}`);
+    res.json({ status: "ok", message: "Instapaper connected" });
+  });
+
+  router.delete("/api/instapaper/connect", (_req, res) => {
+    clearToken(getConfig().data_dir);
+    console.log("[admin] Disconnected Instapaper");
+    res.json({ status: "ok", message: "Instapaper disconnected" });
+  });
+
+  // ── API: List Instapaper folders (for the folder picker) ──
+  router.get("/api/instapaper/folders", async (_req, res) => {
+    try {
+      const config = getConfig();
+      const client = new InstapaperClient(config.instapaper, config.data_dir);
+      const folders = await client.listFolders();
+      res.json(folders.map((f) => ({ folder_id: f.folder_id, title: f.title })));
+    } catch (err) {
+      console.error("[admin] Failed to list Instapaper folders:", err);
+      res.status(502).json({ error: "Failed to list Instapaper folders" });
+    }
+  });
+
   // ── API: List episodes ──
   router.get("/api/episodes", (_req, res) => {
     const episodes = state.getProcessedBookmarks();
     res.json(episodes);
   });
 
+  // ── API: Articles kept out by filters ──
+  router.get("/api/filtered", (_req, res) => {
+    res.json(state.getFilteredArticles());
+  });
+
+  // ── API: Submit an article (URL or raw HTML) ──
+  router.post("/api/articles", async (req, res) => {
+    const { url, html, title, mode } = (req.body || {}) as {
+      url?: unknown;
+      html?: unknown;
+      title?: unknown;
+      mode?: unknown;
+    };
+    const pageUrl = typeof url === "string" ? url.trim() : "";
+    const rawHtml = typeof html === "string" ? html : "";
+    const episodeMode = EPISODE_MODES.find((m) => m === mode);
+
+    if (!pageUrl && !rawHtml.trim()) {
+      return res.status(400).json({ error: "Provide a url or html" });
+    }
+    if (pageUrl && !/^https?:\/\//i.test(pageUrl)) {
+      return res.status(400).json({ error: "URL must start with http:// or https://" });
+    }
+    if (mode !== undefined && mode !== "" && !episodeMode) {
+      return res.status(400).json({ error: `Mode must be one of ${EPISODE_MODES.join(", ")}` });
+    }
+
+    const id = submittedArticleId(pageUrl, rawHtml);
+    if (state.isProcessed(id)) {
+      return res.status(409).json({ error: "This article already has an episode", id });
+    }
+
+    try {
+      const pageHtml = rawHtml.trim() ? rawHtml : await fetchPage(pageUrl);
+      const extracted = extractArticle(pageHtml);
+      if (!extracted) {
+        return res.status(422).json({ error: "Could not find article content on the page" });
+      }
+
+      const articleTitle =
+        (typeof title === "string" && title.trim()) ||
+        extracted.title ||
+        pageUrl ||
+        "Untitled article";
+
+      queueArticle(getConfig().data_dir, {
+        id,
+        title: articleTitle,
+        url: pageUrl,
+        html: extracted.html,
+        author: extracted.byline,
+        mode: episodeMode,
+      });
+      console.log(`[admin] Queued article "${articleTitle}" (${id})`);
+
+      res.status(202).json({ status: "queued", id, title: articleTitle });
+      triggerRun().catch((err) =>
+        console.error("[admin] Triggered run failed:", err)
+      );
+    } catch (err) {
+      console.error("[admin] Failed to add article:", err);
+      res.status(502).json({ error: "Failed to fetch the article" });
+    }
+  });
+
   // ── API: Delete episode ──
   router.delete("/api/episodes/:id", (req, res) => {
     const bookmarkId = req.params.id;
@@ -147,6 +287,29 @@ export function createAdminRouter(
     res.json({ status: "ok", message: "Episode deleted" });
   });
 
+  // ── API: Translation cache ──
+  router.get("/api/translation-cache", (_req, res) => {
+    res.json(new TranslationCache(getConfig().data_dir).stats());
+  });
+
+  router.delete("/api/translation-cache", (_req, res) => {
+    const deleted = new TranslationCache(getConfig().data_dir).purge();
+    console.log(`[admin] Purged ${deleted} cached translation(s)`);
+    res.json({ status: "ok", deleted });
+  });
+
+  // ── API: Translation usage ──
+  router.get("/api/translation-usage", (_req, res) => {
+    const config = getConfig();
+    const ledger = new UsageLedger(config.data_dir);
+    res.json({
+      today: ledger.day(),
+      month: ledger.month(),
+      monthlyBudget: config.translation.monthly_budget || null,
+      paused: budgetReached(config.translation, ledger),
+    });
+  });
+
   // ── API: Pipeline status ──
   router.get("/api/status", (_req, res) => {
     const episodes = state.getProcessedBookmarks();
@@ -197,6 +360,18 @@ function compactHeader(value?: string): string {
   return value.replace(/\s+/g, " ").trim();
 }
 
+/**
+ * The stored key for a fallback sent back with its key masked: that of the
+ * stored fallback with the same provider and api_base, else the one at the
+ * same position.
+ */
+function storedFallbackKey(stored: TranslationEndpoint[], fallback: TranslationEndpoint, index: number): string {
+  const match = stored.find((s) =>
+    (s.provider ?? "openai") === (fallback.provider ?? "openai") && s.api_base === fallback.api_base
+  ) ?? stored[index];
+  return match?.api_key ?? "";
+}
+
 function deepMerge(target: Record<string, any>, source: Record<string, any>): Record<string, any> {
   for (const key of Object.keys(source)) {
     if (
@@ -219,6 +394,7 @@ function deepMerge(target: Record<string, any>, source: Record<string, any>): Re
 function renderAdminPage(): string {
   const defaultTitlePromptJs = JSON.stringify(DEFAULT_TITLE_PROMPT_TEMPLATE);
   const defaultTextPromptJs = JSON.stringify(DEFAULT_TEXT_PROMPT_TEMPLATE);
+  const defaultEpisodeTemplatesJs = JSON.stringify(DEFAULT_EPISODE_TEMPLATES);
 
   return `<!DOCTYPE html>
 <html lang="en">
@@ -377,12 +553,44 @@ header h1 {
 .form-group input:focus, .form-group select:focus, .form-group textarea:focus {
   border-color: var(--accent);
 }
+.form-group label.checkbox-label {
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  text-transform: none;
+  letter-spacing: 0;
+  font-size: 0.85rem;
+  color: var(--text);
+}
 .form-help {
   margin-top: 4px;
   font-size: 0.75rem;
   color: var(--text2);
 }
 
+/* Folder picker */
+.folder-picker {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 6px;
+  margin-top: 6px;
+}
+.folder-chip {
+  padding: 4px 10px;
+  border: 1px solid var(--border);
+  border-radius: 999px;
+  background: transparent;
+  color: var(--text2);
+  font-family: var(--font);
+  font-size: 0.78rem;
+  cursor: pointer;
+}
+.folder-chip.selected {
+  background: rgba(108,99,255,0.15);
+  border-color: var(--accent);
+  color: var(--accent2);
+}
+
 /* Episode list */
 .episode-list { list-style: none; }
 .episode-item {
@@ -556,12 +764,50 @@ header h1 {
 
   <!-- Episodes tab -->
   <div class="tab-content active" id="tab-episodes">
+    <div class="card">
+      <h2><span class="icon">➕</span> Add Article</h2>
+      <form class="form-grid" id="addArticleForm" onsubmit="submitArticle(event)">
+        <div class="form-group">
+          <label>Article URL</label>
+          <input type="url" id="article-url" placeholder="https://...">
+        </div>
+        <div class="form-group">
+          <label>Title (optional)</label>
+          <input type="text" id="article-title" placeholder="Taken from the page if empty">
+        </div>
+        <div class="form-group">
+          <label>Episode</label>
+          <select id="article-mode">
+            <option value="">As configured</option>
+            <option value="full">Full text</option>
+            <option value="summary">Summary only</option>
+            <option value="summary_intro">Summary, then full text</option>
+          </select>
+        </div>
+        <div class="form-group full">
+          <label>Or paste HTML</label>
+          <textarea id="article-html" rows="3" placeholder="&lt;article&gt;...&lt;/article&gt;"></textarea>
+          <div class="form-help">The main content is extracted and queued for translation and speech synthesis.</div>
+        </div>
+        <div class="form-group full" style="align-items:flex-start;">
+          <button type="submit" class="btn btn-primary btn-sm" id="addArticleBtn">Add article</button>
+        </div>
+      </form>
+    </div>
+
     <div class="card">
       <h2><span class="icon">🎧</span> Episodes</h2>
       <ul class="episode-list" id="episodeList">
         <li class="empty-state">Loading...</li>
       </ul>
     </div>
+
+    <div class="card">
+      <h2><span class="icon">🚫</span> Filtered Articles</h2>
+      <ul class="episode-list" id="filteredList">
+        <li class="empty-state">Loading...</li>
+      </ul>
+    </div>
   </div>
 
   <!-- Logs tab -->
@@ -589,13 +835,22 @@ header h1 {
     <div class="card">
       <h2><span class="icon">📑</span> Instapaper</h2>
       <div class="form-grid">
+        <div class="form-group full">
+          <label>Connection</label>
+          <div class="form-help" id="instapaperConnection">Checking...</div>
+        </div>
         <div class="form-group">
           <label>Username</label>
           <input type="text" id="cfg-instapaper-username">
         </div>
         <div class="form-group">
           <label>Password</label>
-          <input type="password" id="cfg-instapaper-password">
+          <input type="password" id="connect-password" autocomplete="off">
+        </div>
+        <div class="form-group full" style="flex-direction:row;gap:10px;align-items:center;">
+          <button type="button" class="btn btn-primary btn-sm" onclick="connectInstapaper()" id="connectBtn">Connect Instapaper</button>
+          <button type="button" class="btn btn-ghost btn-sm" onclick="disconnectInstapaper()">Disconnect</button>
+          <div class="form-help" style="margin-top:0;">The password is used once to obtain an access token and is not stored.</div>
         </div>
         <div class="form-group">
           <label>Consumer Key</label>
@@ -605,6 +860,35 @@ header h1 {
           <label>Consumer Secret</label>
           <input type="password" id="cfg-instapaper-consumer_secret">
         </div>
+        <div class="form-group">
+          <label>After processing: move to folder</label>
+          <input type="text" id="cfg-instapaper-post_process-move_to_folder" placeholder="e.g. Listened">
+        </div>
+        <div class="form-group">
+          <label>After processing: add tag</label>
+          <input type="text" id="cfg-instapaper-post_process-add_tag" placeholder="e.g. podded">
+        </div>
+        <div class="form-group">
+          <label>On failure: add tag</label>
+          <input type="text" id="cfg-instapaper-post_process-failure_tag" placeholder="e.g. pod-failed">
+        </div>
+        <div class="form-group">
+          <label>After processing</label>
+          <label class="checkbox-label"><input type="checkbox" id="cfg-instapaper-post_process-archive"> Archive article</label>
+        </div>
+        <div class="form-group full">
+          <label class="checkbox-label"><input type="checkbox" id="cfg-instapaper-incremental_sync"> Incremental sync (only fetch changes since the last run)</label>
+        </div>
+        <div class="form-group full">
+          <label class="checkbox-label"><input type="checkbox" id="cfg-instapaper-regenerate_on_change"> Regenerate episodes when the article text changes</label>
+        </div>
+        <div class="form-group">
+          <label class="checkbox-label"><input type="checkbox" id="cfg-instapaper-remove_missing"> Remove episodes whose bookmark is deleted</label>
+        </div>
+        <div class="form-group">
+          <label for="cfg-instapaper-remove_missing_after_days">After (days)</label>
+          <input type="number" id="cfg-instapaper-remove_missing_after_days" min="0" step="1" placeholder="7">
+        </div>
       </div>
     </div>
 
@@ -616,6 +900,52 @@ header h1 {
           <label>Tags (comma-separated)</label>
           <input type="text" id="cfg-filters-tags" placeholder="e.g. pod, tech">
         </div>
+        <div class="form-group full">
+          <label>Exclude Tags (comma-separated)</label>
+          <input type="text" id="cfg-filters-exclude_tags" placeholder="e.g. paywalled">
+        </div>
+        <div class="form-group">
+          <label>Allowed Domains (comma-separated)</label>
+          <input type="text" id="cfg-filters-allow_domains" placeholder="empty = all">
+        </div>
+        <div class="form-group">
+          <label>Denied Domains (comma-separated)</label>
+          <input type="text" id="cfg-filters-deny_domains" placeholder="e.g. twitter.com">
+        </div>
+        <div class="form-group">
+          <label>Min Words</label>
+          <input type="number" id="cfg-filters-min_words" min="0" placeholder="0 = no minimum">
+        </div>
+        <div class="form-group">
+          <label>Max Words</label>
+          <input type="number" id="cfg-filters-max_words" min="0" placeholder="0 = no maximum">
+        </div>
+        <div class="form-group">
+          <label>Max Age (days)</label>
+          <input type="number" id="cfg-filters-max_age_days" min="0" placeholder="0 = no limit">
+        </div>
+        <div class="form-group full">
+          <label>Folders (comma-separated names or IDs)</label>
+          <input type="text" id="cfg-filters-folders" placeholder="e.g. Listen, starred">
+          <div class="folder-picker" id="folderPicker"></div>
+          <div class="form-help" id="folderPickerHelp">Loading folders from Instapaper...</div>
+        </div>
+      </div>
+    </div>
+
+    <!-- Sources -->
+    <div class="card">
+      <h2><span class="icon">📰</span> RSS &amp; Atom Feeds</h2>
+      <div class="form-grid">
+        <div class="form-group full">
+          <label>Feed URLs (one per line)</label>
+          <textarea id="cfg-sources-rss-feeds" rows="3" placeholder="https://blog.example.com/feed.xml"></textarea>
+        </div>
+        <div class="form-group">
+          <label>Items per feed</label>
+          <input type="number" id="cfg-sources-rss-max_items" min="1" placeholder="5">
+          <div class="form-help">Only the newest items of each feed are turned into episodes.</div>
+        </div>
       </div>
     </div>
 
@@ -623,6 +953,18 @@ header h1 {
     <div class="card">
       <h2><span class="icon">🌐</span> Translation</h2>
       <div class="form-grid">
+        <div class="form-group full">
+          <label>Provider</label>
+          <select id="cfg-translation-provider">
+            <option value="openai">OpenAI-compatible (/chat/completions)</option>
+            <option value="anthropic">Anthropic Messages API</option>
+            <option value="ollama">Ollama (native /api/chat)</option>
+            <option value="deepl">DeepL</option>
+            <option value="deepl_document">DeepL document translation</option>
+            <option value="libretranslate">LibreTranslate</option>
+          </select>
+          <div class="form-help">DeepL and LibreTranslate only translate: prompts, the glossary and code summaries are not used with them. DeepL document translation uploads each request as a file and bills at least 50,000 characters per file.</div>
+        </div>
         <div class="form-group">
           <label>API Base URL</label>
           <input type="url" id="cfg-translation-api_base">
@@ -637,7 +979,7 @@ header h1 {
         </div>
         <div class="form-group">
           <label>Target Language</label>
-          <input type="text" id="cfg-translation-target_language">
+          <input type="text" id="cfg-translation-target_language" oninput="updateTemplatePlaceholders()">
         </div>
         <div class="form-group full">
           <label>Title Prompt</label>
@@ -651,6 +993,80 @@ header h1 {
         <div class="form-group full" style="align-items:flex-start;">
           <button type="button" class="btn btn-ghost btn-sm" onclick="resetTranslationPrompts()">Reset prompts to default</button>
         </div>
+        <div class="form-group full">
+          <label class="checkbox-label"><input type="checkbox" id="cfg-translation-context"> Send a summary of the article so far and the previous paragraph with each request</label>
+          <div class="form-help">Keeps names, terms and tone consistent between the parts of a long article, at the cost of a few more tokens.</div>
+        </div>
+        <div class="form-group full">
+          <label>Glossary</label>
+          <textarea id="cfg-translation-glossary" rows="5" placeholder="machine learning = maskininlärning&#10;Kubernetes"></textarea>
+          <div class="form-help">One <code>term = translation</code> per line, or just the term to keep it untranslated. Applies to titles and text in every article.</div>
+        </div>
+        <div class="form-group">
+          <label>Monthly Budget</label>
+          <input type="number" id="cfg-translation-monthly_budget" min="0" step="0.01" placeholder="0 = no limit">
+          <div class="form-help">Once this month's estimated cost reaches it, no more paid requests are sent and articles that need one wait; cached translations and endpoints without a price still work. Prices are set in <code>translation.prices</code> in the config file.</div>
+        </div>
+        <div class="form-group">
+          <label>Usage</label>
+          <div class="form-help" style="margin-top:0;" id="translationUsageInfo">Checking translation usage...</div>
+        </div>
+        <div class="form-group full" style="flex-direction:row;gap:10px;align-items:center;">
+          <button type="button" class="btn btn-ghost btn-sm" onclick="purgeTranslationCache()">Purge cache</button>
+          <div class="form-help" style="margin-top:0;" id="translationCacheInfo">Checking the translation cache...</div>
+        </div>
+      </div>
+    </div>
+
+    <!-- Episode templates -->
+    <div class="card">
+      <h2><span class="icon">📝</span> Episode Text</h2>
+      <div class="form-grid">
+        <div class="form-group">
+          <label>Episode Mode</label>
+          <select id="cfg-content-mode">
+            <option value="full">Full text</option>
+            <option value="summary">Summary only</option>
+            <option value="summary_intro">Summary, then full text</option>
+          </select>
+          <div class="form-help">Summaries are written by the translation model; machine translation APIs can't write them, so articles are read in full. Tags can override the mode with <code>content.by_tag</code> in the config file, and a mode can be picked for each added article.</div>
+        </div>
+        <div class="form-group">
+          <label>Summary Length (words)</label>
+          <input type="number" id="cfg-content-summary_words" min="20" placeholder="150">
+        </div>
+        <div class="form-group full">
+          <label>Intro</label>
+          <input type="text" id="cfg-templates-intro">
+        </div>
+        <div class="form-group full">
+          <label>Outro</label>
+          <input type="text" id="cfg-templates-outro">
+        </div>
+        <div class="form-group full">
+          <label>Feed Description</label>
+          <input type="text" id="cfg-templates-feed_description">
+          <div class="form-help">Placeholders: <code>{{title}}</code>, <code>{{source}}</code>, <code>{{author}}</code>, <code>{{date}}</code>, <code>{{word_count}}</code>. A sentence whose placeholder is empty is left out. Empty fields use the default for the target language.</div>
+        </div>
+        <div class="form-group full" style="align-items:flex-start;">
+          <button type="button" class="btn btn-ghost btn-sm" onclick="resetEpisodeTemplates()">Use defaults for target language</button>
+        </div>
+      </div>
+    </div>
+
+    <!-- Pronunciation -->
+    <div class="card">
+      <h2><span class="icon">🔤</span> Pronunciation</h2>
+      <div class="form-grid">
+        <div class="form-group full">
+          <label class="checkbox-label"><input type="checkbox" id="cfg-normalization-enabled"> Spell out numbers, dates, units, amounts and abbreviations; drop URLs and emoji</label>
+          <div class="form-help">Numbers and abbreviations are spelled out for Swedish and English; other languages only get the lexicon and URL and emoji removal.</div>
+        </div>
+        <div class="form-group full">
+          <label>Lexicon</label>
+          <textarea id="cfg-normalization-lexicon" rows="5" placeholder="Nvidia = Envidia"></textarea>
+          <div class="form-help">One <code>word = replacement</code> per line, respelled the way the voice should say it, or <code>word = /ipa/</code> to give the pronunciation in IPA. Voices that ignore a phoneme read the word as written. Words in all caps only match all caps.</div>
+        </div>
       </div>
     </div>
 
@@ -765,6 +1181,7 @@ header h1 {
 let currentConfig = null;
 let logEntries = [];
 let latestLogId = 0;
+let instapaperFolders = [];
 
 // ── Tab switching ──
 function switchTab(name) {
@@ -837,7 +1254,7 @@ async function loadEpisodes() {
     const list = document.getElementById('episodeList');
 
     if (episodes.length === 0) {
-      list.innerHTML = '<li class="empty-state">No episodes yet. Tag an article in Instapaper to get started.</li>';
+      list.innerHTML = '<li class="empty-state">No episodes yet. Tag an article in Instapaper or add a feed to get started.</li>';
       return;
     }
 
@@ -849,6 +1266,11 @@ async function loadEpisodes() {
             <span>⏱ \${formatDuration(ep.duration)}</span>
             <span>📅 \${formatDate(ep.pubDate)}</span>
             <span>🔗 \${escapeHtml(ep.source || '')}</span>
+            \${ep.sourceLanguage ? \`<span title="Source language">🗣 \${escapeHtml(ep.sourceLanguage)}</span>\` : ''}
+            \${ep.mode ? \`<span>📝 \${ep.mode === 'summary' ? 'Summary' : 'Summary + full text'}</span>\` : ''}
+            \${ep.translatedBy ? \`<span title="Translated by">🌐 \${escapeHtml(ep.translatedBy.join(', '))}</span>\` : ''}
+            \${ep.translationUsage ? \`<span title="Translation: \${escapeHtml(formatUsage(ep.translationUsage))}">💰 $\${ep.translationUsage.cost.toFixed(4)}</span>\` : ''}
+            \${ep.missingSince ? \`<span title="Will be removed after the grace period">⚠ Missing since \${formatDate(ep.missingSince)}</span>\` : ''}
           </div>
         </div>
         <div class="episode-actions">
@@ -862,6 +1284,33 @@ async function loadEpisodes() {
   }
 }
 
+async function loadFiltered() {
+  try {
+    const r = await apiFetch('/api/filtered');
+    const articles = await r.json();
+    const list = document.getElementById('filteredList');
+
+    if (articles.length === 0) {
+      list.innerHTML = '<li class="empty-state">No articles are currently filtered out.</li>';
+      return;
+    }
+
+    list.innerHTML = articles.map(a => \`
+      <li class="episode-item">
+        <div class="episode-info">
+          <div class="episode-title">\${escapeHtml(a.title || a.url || a.id)}</div>
+          <div class="episode-meta">
+            <span>🚫 \${escapeHtml(a.reason)}</span>
+            <span>📅 \${formatDate(a.filteredAt)}</span>
+          </div>
+        </div>
+      </li>
+    \`).join('');
+  } catch (e) {
+    console.error('Failed to load filtered articles:', e);
+  }
+}
+
 function renderLogs() {
   const viewer = document.getElementById('logViewer');
   const meta = document.getElementById('logsMeta');
@@ -935,7 +1384,7 @@ async function deleteEpisode(id, btn) {
   if (!confirm('Delete this episode?')) return;
   btn.disabled = true;
   try {
-    const r = await apiFetch('/api/episodes/' + id, { method: 'DELETE' });
+    const r = await apiFetch('/api/episodes/' + encodeURIComponent(id), { method: 'DELETE' });
     if (r.ok) {
       showToast('Episode deleted');
       loadEpisodes();
@@ -948,6 +1397,39 @@ async function deleteEpisode(id, btn) {
   }
 }
 
+async function submitArticle(e) {
+  e.preventDefault();
+  const url = getValue('article-url').trim();
+  const html = getValue('article-html');
+  if (!url && !html.trim()) {
+    showToast('Enter a URL or paste HTML', 'error');
+    return;
+  }
+
+  const btn = document.getElementById('addArticleBtn');
+  btn.innerHTML = '<span class="spinner"></span> Adding...';
+  btn.disabled = true;
+  try {
+    const r = await apiFetch('/api/articles', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url, html, title: getValue('article-title').trim(), mode: getValue('article-mode') }),
+    });
+    const data = await r.json().catch(() => ({}));
+    if (r.ok) {
+      showToast('Queued: ' + data.title);
+      document.getElementById('addArticleForm').reset();
+    } else {
+      showToast(data.error || 'Failed to add article', 'error');
+    }
+  } catch (e) {
+    showToast('Network error', 'error');
+  } finally {
+    btn.innerHTML = 'Add article';
+    btn.disabled = false;
+  }
+}
+
 async function triggerPipeline() {
   const btn = document.getElementById('triggerBtn');
   btn.innerHTML = '<span class="spinner"></span> Running...';
@@ -963,6 +1445,7 @@ async function triggerPipeline() {
     btn.disabled = false;
     loadStatus();
     loadEpisodes();
+    loadFiltered();
   }, 5000);
 }
 
@@ -977,6 +1460,168 @@ async function loadConfig() {
   }
 }
 
+function parseList(value) {
+  return String(value || '')
+    .split(',')
+    .map(t => t.trim())
+    .filter(Boolean);
+}
+
+async function loadConnection() {
+  const el = document.getElementById('instapaperConnection');
+  try {
+    const r = await apiFetch('/api/instapaper/connection');
+    const data = await r.json();
+    if (data.connected) {
+      el.textContent = '✓ Connected as ' + data.username + ' since ' + formatDate(data.connectedAt) +
+        (data.passwordStored ? '. A password is still stored in config.yaml; reconnect to remove it.' : '.');
+    } else if (data.passwordStored) {
+      el.textContent = 'Not connected. Using the password from config.yaml; connect to stop storing it.';
+    } else {
+      el.textContent = 'Not connected. Enter your Instapaper username and password to connect.';
+    }
+  } catch (e) {
+    if (e.message !== 'auth') el.textContent = 'Could not check the connection.';
+  }
+}
+
+async function connectInstapaper() {
+  const username = getValue('cfg-instapaper-username').trim();
+  const password = getValue('connect-password');
+  if (!username || !password) {
+    showToast('Enter username and password', 'error');
+    return;
+  }
+
+  const btn = document.getElementById('connectBtn');
+  btn.innerHTML = '<span class="spinner"></span> Connecting...';
+  btn.disabled = true;
+  try {
+    const r = await apiFetch('/api/instapaper/connect', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password }),
+    });
+    const data = await r.json().catch(() => ({}));
+    if (r.ok) {
+      showToast('Instapaper connected');
+      setValue('connect-password', '');
+      loadConfig();
+      loadFolders();
+    } else {
+      showToast(data.error || 'Failed to connect', 'error');
+    }
+  } catch (e) {
+    showToast('Network error', 'error');
+  } finally {
+    btn.innerHTML = 'Connect Instapaper';
+    btn.disabled = false;
+    loadConnection();
+  }
+}
+
+async function disconnectInstapaper() {
+  if (!confirm('Disconnect Instapaper? The pipeline stops fetching articles until you reconnect.')) return;
+  try {
+    await apiFetch('/api/instapaper/connect', { method: 'DELETE' });
+    showToast('Instapaper disconnected');
+  } catch (e) {
+    showToast('Network error', 'error');
+  }
+  loadConnection();
+}
+
+async function loadTranslationCache() {
+  const el = document.getElementById('translationCacheInfo');
+  try {
+    const r = await apiFetch('/api/translation-cache');
+    const data = await r.json();
+    el.textContent = 'Translation cache: ' + data.entries + ' translation(s), ' +
+      (data.bytes / 1024).toFixed(1) + ' KB. Cached text is not translated (or paid for) again.';
+  } catch (e) {
+    if (e.message !== 'auth') el.textContent = 'Could not read the translation cache.';
+  }
+}
+
+function formatUsage(usage) {
+  const parts = [];
+  if (usage.inputTokens || usage.outputTokens) {
+    parts.push(usage.inputTokens.toLocaleString() + ' tokens in, ' + usage.outputTokens.toLocaleString() + ' out');
+  }
+  if (usage.characters) parts.push(usage.characters.toLocaleString() + ' characters');
+  return (parts.join(', ') || 'nothing') + ' (≈ $' + usage.cost.toFixed(2) + ')';
+}
+
+async function loadTranslationUsage() {
+  const el = document.getElementById('translationUsageInfo');
+  try {
+    const r = await apiFetch('/api/translation-usage');
+    const data = await r.json();
+    el.textContent = 'Today: ' + formatUsage(data.today) + '. This month: ' + formatUsage(data.month) +
+      (data.monthlyBudget ? ' of a $' + data.monthlyBudget.toFixed(2) + ' budget' : '') + '.' +
+      (data.paused ? ' Budget reached: paid translation is paused.' : '');
+  } catch (e) {
+    if (e.message !== 'auth') el.textContent = 'Could not read translation usage.';
+  }
+}
+
+async function purgeTranslationCache() {
+  if (!confirm('Purge the translation cache? Articles processed again are then translated again.')) return;
+  try {
+    const r = await apiFetch('/api/translation-cache', { method: 'DELETE' });
+    const data = await r.json();
+    showToast('Purged ' + data.deleted + ' cached translation(s)');
+  } catch (e) {
+    showToast('Network error', 'error');
+  }
+  loadTranslationCache();
+}
+
+async function loadFolders() {
+  const help = document.getElementById('folderPickerHelp');
+  try {
+    const r = await apiFetch('/api/instapaper/folders');
+    if (!r.ok) throw new Error('status ' + r.status);
+    instapaperFolders = await r.json();
+    help.textContent = instapaperFolders.length > 0
+      ? 'Click a folder to add or remove it. Built-in folders: unread, starred, archive.'
+      : 'No folders found in Instapaper. Built-in folders: unread, starred, archive.';
+  } catch (e) {
+    if (e.message === 'auth') return;
+    instapaperFolders = [];
+    help.textContent = 'Could not load folders from Instapaper. You can still type names or IDs.';
+  }
+  renderFolderPicker();
+}
+
+function renderFolderPicker() {
+  const picker = document.getElementById('folderPicker');
+  if (!picker) return;
+  const selected = parseList(getValue('cfg-filters-folders')).map(f => f.toLowerCase());
+  picker.innerHTML = '';
+  instapaperFolders.forEach(f => {
+    const chip = document.createElement('button');
+    chip.type = 'button';
+    chip.className = 'folder-chip';
+    if (selected.includes(f.title.toLowerCase()) || selected.includes(String(f.folder_id))) {
+      chip.classList.add('selected');
+    }
+    chip.textContent = f.title;
+    chip.addEventListener('click', () => toggleFolder(f.title, String(f.folder_id)));
+    picker.appendChild(chip);
+  });
+}
+
+function toggleFolder(title, id) {
+  const current = parseList(getValue('cfg-filters-folders'));
+  const matches = (f) => f.toLowerCase() === title.toLowerCase() || f === id;
+  const next = current.some(matches)
+    ? current.filter(f => !matches(f))
+    : current.concat(title);
+  setValue('cfg-filters-folders', next.join(', '));
+  renderFolderPicker();
+}
+
 const DEFAULT_TITLE_PROMPT = ${defaultTitlePromptJs};
 const DEFAULT_TEXT_PROMPT = ${defaultTextPromptJs};
 
@@ -986,6 +1631,42 @@ function resetTranslationPrompts() {
   showToast('Prompts reset to defaults (not yet saved)');
 }
 
+const DEFAULT_EPISODE_TEMPLATES = ${defaultEpisodeTemplatesJs};
+const EPISODE_TEMPLATE_FIELDS = ['intro', 'outro', 'feed_description'];
+
+function updateTemplatePlaceholders() {
+  const language = getValue('cfg-translation-target_language').trim().toLowerCase();
+  const defaults = DEFAULT_EPISODE_TEMPLATES[language] || DEFAULT_EPISODE_TEMPLATES.english;
+  for (const field of EPISODE_TEMPLATE_FIELDS) {
+    const el = document.getElementById('cfg-templates-' + field);
+    if (el) el.placeholder = defaults[field] || '(none)';
+  }
+}
+
+function parseGlossary(text) {
+  return text.split('\\n')
+    .map(line => line.split('='))
+    .filter(parts => parts[0].trim())
+    .map(parts => ({ term: parts[0].trim(), translation: parts.slice(1).join('=').trim() }));
+}
+
+function parseLexicon(text) {
+  return text.split('\\n')
+    .map(line => line.split('='))
+    .filter(parts => parts.length >= 2 && parts[0].trim())
+    .map(parts => {
+      const word = parts[0].trim();
+      const value = parts.slice(1).join('=').trim();
+      const ipa = value.match(/^\\/(.+)\\/$/);
+      return ipa ? { word, phoneme: ipa[1].trim() } : { word, replacement: value };
+    });
+}
+
+function resetEpisodeTemplates() {
+  for (const field of EPISODE_TEMPLATE_FIELDS) setValue('cfg-templates-' + field, '');
+  showToast('Episode text reset to language defaults (not yet saved)');
+}
+
 const FIXED_SCHEDULE_PRESETS = [
   '*/5 * * * *',
   '*/15 * * * *',
@@ -1095,16 +1776,47 @@ function syncScheduleUiFromCron(cronExpr) {
 
 function populateForm(c) {
   setValue('cfg-instapaper-username', c.instapaper?.username);
-  setValue('cfg-instapaper-password', c.instapaper?.password);
   setValue('cfg-instapaper-consumer_key', c.instapaper?.consumer_key);
   setValue('cfg-instapaper-consumer_secret', c.instapaper?.consumer_secret);
+  setValue('cfg-instapaper-post_process-move_to_folder', c.instapaper?.post_process?.move_to_folder);
+  setValue('cfg-instapaper-post_process-add_tag', c.instapaper?.post_process?.add_tag);
+  setValue('cfg-instapaper-post_process-failure_tag', c.instapaper?.post_process?.failure_tag);
+  setChecked('cfg-instapaper-incremental_sync', c.instapaper?.incremental_sync);
+  setChecked('cfg-instapaper-regenerate_on_change', c.instapaper?.regenerate_on_change);
+  setChecked('cfg-instapaper-remove_missing', c.instapaper?.remove_missing);
+  setValue('cfg-instapaper-remove_missing_after_days', c.instapaper?.remove_missing_after_days);
+  setChecked('cfg-instapaper-post_process-archive', c.instapaper?.post_process?.archive);
   setValue('cfg-filters-tags', (c.filters?.tags || []).join(', '));
+  setValue('cfg-filters-folders', (c.filters?.folders || []).join(', '));
+  setValue('cfg-filters-exclude_tags', (c.filters?.exclude_tags || []).join(', '));
+  setValue('cfg-filters-allow_domains', (c.filters?.allow_domains || []).join(', '));
+  setValue('cfg-filters-deny_domains', (c.filters?.deny_domains || []).join(', '));
+  setValue('cfg-filters-min_words', c.filters?.min_words);
+  setValue('cfg-filters-max_words', c.filters?.max_words);
+  setValue('cfg-filters-max_age_days', c.filters?.max_age_days);
+  renderFolderPicker();
+  setValue('cfg-sources-rss-feeds', (c.sources?.rss?.feeds || []).join('\\n'));
+  setValue('cfg-sources-rss-max_items', c.sources?.rss?.max_items);
+  setValue('cfg-translation-provider', c.translation?.provider || 'openai');
   setValue('cfg-translation-api_base', c.translation?.api_base);
   setValue('cfg-translation-api_key', c.translation?.api_key);
   setValue('cfg-translation-model', c.translation?.model);
   setValue('cfg-translation-target_language', c.translation?.target_language);
   setValue('cfg-translation-title_prompt', c.translation?.title_prompt ?? DEFAULT_TITLE_PROMPT);
   setValue('cfg-translation-text_prompt', c.translation?.text_prompt ?? DEFAULT_TEXT_PROMPT);
+  setChecked('cfg-translation-context', c.translation?.context ?? true);
+  setValue('cfg-translation-monthly_budget', c.translation?.monthly_budget || '');
+  setValue('cfg-translation-glossary', (c.translation?.glossary || [])
+    .map(e => e.translation ? e.term + ' = ' + e.translation : e.term).join('\\n'));
+  setValue('cfg-content-mode', c.content?.mode || 'full');
+  setValue('cfg-content-summary_words', c.content?.summary_words);
+  setValue('cfg-templates-intro', c.templates?.intro);
+  setValue('cfg-templates-outro', c.templates?.outro);
+  setValue('cfg-templates-feed_description', c.templates?.feed_description);
+  updateTemplatePlaceholders();
+  setChecked('cfg-normalization-enabled', c.normalization?.enabled ?? true);
+  setValue('cfg-normalization-lexicon', (c.normalization?.lexicon || [])
+    .map(e => e.word + ' = ' + (e.phoneme ? '/' + e.phoneme + '/' : e.replacement ?? '')).join('\\n'));
   setValue('cfg-tts-voice', c.tts?.voice);
   setValue('cfg-tts-rate', c.tts?.rate);
   setValue('cfg-tts-pitch', c.tts?.pitch);
@@ -1129,28 +1841,69 @@ function getValue(id) {
   const el = document.getElementById(id);
   return el ? el.value : '';
 }
+function setChecked(id, val) {
+  const el = document.getElementById(id);
+  if (el) el.checked = !!val;
+}
+function getChecked(id) {
+  const el = document.getElementById(id);
+  return el ? el.checked : false;
+}
 
 async function saveConfigForm() {
+  // Blank keeps the current setting (7 days unless configured)
+  const removeAfterInput = document.getElementById('cfg-instapaper-remove_missing_after_days');
+  const removeAfter = removeAfterInput.value.trim();
+  if (removeAfterInput.validity.badInput || (removeAfter && !/^\\d+$/.test(removeAfter))) {
+    showToast('Remove after must be a whole number of days, 0 or more', 'error');
+    removeAfterInput.focus();
+    return;
+  }
+
   const btn = document.getElementById('saveBtn');
   btn.innerHTML = '<span class="spinner"></span> Saving...';
   btn.disabled = true;
 
-  const tags = getValue('cfg-filters-tags')
-    .split(',')
-    .map(t => t.trim())
-    .filter(Boolean);
+  const tags = parseList(getValue('cfg-filters-tags'));
+  const folders = parseList(getValue('cfg-filters-folders'));
   onSchedulePresetChange();
   const cronExpr = getValue('cfg-schedule-cron').trim() || '*/30 * * * *';
 
   const update = {
     instapaper: {
       username: getValue('cfg-instapaper-username'),
-      password: getValue('cfg-instapaper-password'),
       consumer_key: getValue('cfg-instapaper-consumer_key'),
       consumer_secret: getValue('cfg-instapaper-consumer_secret'),
+      incremental_sync: getChecked('cfg-instapaper-incremental_sync'),
+      regenerate_on_change: getChecked('cfg-instapaper-regenerate_on_change'),
+      remove_missing: getChecked('cfg-instapaper-remove_missing'),
+      remove_missing_after_days: removeAfter ? parseInt(removeAfter, 10) : undefined,
+      post_process: {
+        archive: getChecked('cfg-instapaper-post_process-archive'),
+        move_to_folder: getValue('cfg-instapaper-post_process-move_to_folder').trim(),
+        add_tag: getValue('cfg-instapaper-post_process-add_tag').trim(),
+        failure_tag: getValue('cfg-instapaper-post_process-failure_tag').trim(),
+      },
+    },
+    filters: {
+      tags,
+      folders,
+      exclude_tags: parseList(getValue('cfg-filters-exclude_tags')),
+      allow_domains: parseList(getValue('cfg-filters-allow_domains')),
+      deny_domains: parseList(getValue('cfg-filters-deny_domains')),
+      min_words: parseInt(getValue('cfg-filters-min_words'), 10) || 0,
+      max_words: parseInt(getValue('cfg-filters-max_words'), 10) || 0,
+      max_age_days: parseInt(getValue('cfg-filters-max_age_days'), 10) || 0,
+    },
+    sources: {
+      rss: {
+        feeds: getValue('cfg-sources-rss-feeds')
+          .split('\\n').map(s => s.trim()).filter(Boolean),
+        max_items: parseInt(getValue('cfg-sources-rss-max_items'), 10) || 5,
+      },
     },
-    filters: { tags },
     translation: {
+      provider: getValue('cfg-translation-provider'),
       api_base: getValue('cfg-translation-api_base'),
       api_key: getValue('cfg-translation-api_key'),
       model: getValue('cfg-translation-model'),
@@ -1158,6 +1911,22 @@ async function saveConfigForm() {
       skip_if_same: currentConfig?.translation?.skip_if_same ?? true,
       title_prompt: getValue('cfg-translation-title_prompt'),
       text_prompt: getValue('cfg-translation-text_prompt'),
+      context: getChecked('cfg-translation-context'),
+      glossary: parseGlossary(getValue('cfg-translation-glossary')),
+      monthly_budget: parseFloat(getValue('cfg-translation-monthly_budget')) || 0,
+    },
+    content: {
+      mode: getValue('cfg-content-mode'),
+      summary_words: parseInt(getValue('cfg-content-summary_words'), 10) || 150,
+    },
+    templates: {
+      intro: getValue('cfg-templates-intro').trim(),
+      outro: getValue('cfg-templates-outro').trim(),
+      feed_description: getValue('cfg-templates-feed_description').trim(),
+    },
+    normalization: {
+      enabled: getChecked('cfg-normalization-enabled'),
+      lexicon: parseLexicon(getValue('cfg-normalization-lexicon')),
     },
     tts: {
       voice: getValue('cfg-tts-voice'),
@@ -1193,6 +1962,7 @@ async function saveConfigForm() {
     if (r.ok) {
       showToast('Configuration saved');
       loadConfig();
+      loadTranslationUsage();
     } else {
       showToast('Failed to save', 'error');
     }
@@ -1213,8 +1983,14 @@ async function doLogout() {
 // ── Init ──
 loadStatus();
 loadEpisodes();
+loadFiltered();
 loadLogs(true);
 loadConfig();
+loadConnection();
+loadFolders();
+loadTranslationCache();
+loadTranslationUsage();
+document.getElementById('cfg-filters-folders').addEventListener('input', renderFolderPicker);
 setInterval(loadStatus, 30000);
 setInterval(() => {
   const logsTab = document.getElementById('tab-logs');
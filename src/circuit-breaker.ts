@@ -0,0 +1,81 @@
+/**
+ * circuit-breaker.ts — Keeps failing translation endpoints out of use for a
+ * while, so a dead primary API is not retried for every chunk and every
+ * run while a fallback works.
+ *
+ * Breakers are kept in data_dir, because each pipeline run is a new
+ * process. The file is re-read on every check, so articles processed side
+ * by side see each other's failures.
+ */
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+
+const BREAKER_FILE = "translation-breakers.json";
+
+/** Consecutive failed requests (each after its retries) that open a breaker. */
+const FAILURE_THRESHOLD = 2;
+
+export const DEFAULT_COOLDOWN_MINUTES = 15;
+
+interface BreakerState {
+    failures: number;
+    openUntil: string | null; // ISO 8601
+}
+
+export class CircuitBreakers {
+    private readonly filePath: string;
+
+    constructor(dataDir: string) {
+        this.filePath = join(dataDir, BREAKER_FILE);
+    }
+
+    /** Whether the endpoint is cooling down and should be skipped. */
+    isOpen(id: string, now = new Date()): boolean {
+        const openUntil = this.load()[id]?.openUntil;
+        return openUntil !== null && openUntil !== undefined && new Date(openUntil) > now;
+    }
+
+    recordSuccess(id: string): void {
+        const breakers = this.load();
+        if (!breakers[id]) return;
+        delete breakers[id];
+        this.save(breakers);
+    }
+
+    /**
+     * Count a failed request. Once the threshold is reached the breaker
+     * opens; after the cooldown one more failure opens it again.
+     */
+    recordFailure(id: string, cooldownMinutes = DEFAULT_COOLDOWN_MINUTES, now = new Date()): void {
+        const breakers = this.load();
+        const failures = (breakers[id]?.failures ?? 0) + 1;
+        const open = failures >= FAILURE_THRESHOLD;
+        breakers[id] = {
+            failures,
+            openUntil: open ? new Date(now.getTime() + cooldownMinutes * 60_000).toISOString() : null,
+        };
+        if (open) {
+            console.warn(`[translator] ${id} failed ${failures} times in a row, skipping it for ${cooldownMinutes} min`);
+        }
+        this.save(breakers);
+    }
+
+    private load(): Record<string, BreakerState> {
+        try {
+            return JSON.parse(readFileSync(this.filePath, "utf-8")) as Record<string, BreakerState>;
+        } catch {
+            return {};
+        }
+    }
+
+    private save(breakers: Record<string, BreakerState>): void {
+        const tmpPath = `${this.filePath}.tmp`;
+        try {
+            mkdirSync(dirname(this.filePath), { recursive: true });
+            writeFileSync(tmpPath, JSON.stringify(breakers, null, 2), "utf-8");
+            renameSync(tmpPath, this.filePath);
+        } catch (err) {
+            console.warn(`[translator] Could not store circuit breakers: ${(err as Error).message}`);
+        }
+    }
+}
@@ -0,0 +1,176 @@
+/**
+ * cleanup.ts — Strip clutter (sign-up prompts, share buttons, credits,
+ * footnote markers, bare URLs…) from articles before they are translated
+ * and read aloud.
+ */
+import type { ArticleBlock, CleanupConfig } from "./types.js";
+import { hostnameOf, matchesDomain } from "./filters.js";
+
+/** The rules that apply to one article. */
+export interface CleanupPlan {
+    builtin: boolean;
+    selectors: string[];
+    dropParagraphs: RegExp[];
+    shortDropParagraphs: RegExp[]; // only dropped when short, to spare real content
+    removeText: RegExp[];
+}
+
+/** Built-in paragraph rules only drop paragraphs up to this many words. */
+const SHORT_PARAGRAPH_WORDS = 40;
+
+const BUILTIN_SELECTORS = [
+    ".newsletter", "[class*='newsletter']", "[id*='newsletter']",
+    ".subscribe", "[class*='subscribe']",
+    ".share", ".sharing", "[class*='share-']", "[class*='social-']",
+    ".related", "[class*='related-']", "[class*='read-more']", "[class*='readmore']",
+    ".advertisement", ".ad", "[class*='ad-slot']",
+    ".credit", "[class*='credit']",
+    "sup.reference", "a.footnote-ref", "sup a[href^='#fn']",
+];
+
+const BUILTIN_SHORT_PARAGRAPHS = [
+    /\b(sign up|subscribe)\b.*\bnewsletter\b/i,
+    /^(get|receive) (our|the) .*(newsletter|in your inbox)/i,
+    /^(read|see) (more|also)\b/i,
+    /^continue reading\b/i,
+    /^related( articles?| stories| reading)?:/i,
+    /^(photo|photograph|image|illustration|video)( credit)?s?\s*[:/]/i,
+    /^(share|tweet|pin|email) (this|on|via)\b/i,
+    /^(share|tweet|facebook|twitter|linkedin|email|copy link|print)$/i,
+    /^(advertisement|sponsored|annons)$/i,
+];
+
+const BUILTIN_REMOVE_TEXT = [
+    /\[\d{1,3}\]/g,                                         // footnote markers
+    /\bhttps?:\/\/\S+/gi,                                   // bare URLs
+    /\bwww\.[a-z0-9-]+(\.[a-z0-9-]+)+\S*/gi,
+    /\s*\((photo|image|illustration|credit)s?\s*[:/][^)]*\)/gi,
+];
+
+/**
+ * Collect the rules for an article from its URL: the built-in ones (unless
+ * disabled) plus every user rule whose domains match.
+ */
+export function cleanupPlanFor(url: string, config?: CleanupConfig): CleanupPlan {
+    const builtin = config?.builtin ?? true;
+    const plan: CleanupPlan = {
+        builtin,
+        selectors: builtin ? [...BUILTIN_SELECTORS] : [],
+        dropParagraphs: [],
+        shortDropParagraphs: builtin ? [...BUILTIN_SHORT_PARAGRAPHS] : [],
+        removeText: builtin ? [...BUILTIN_REMOVE_TEXT] : [],
+    };
+
+    const host = hostnameOf(url);
+    for (const rule of config?.rules ?? []) {
+        const domains = rule.domains ?? [];
+        if (domains.length > 0 && !domains.some((d) => matchesDomain(host, d))) continue;
+
+        plan.selectors.push(...(rule.remove_selectors ?? []));
+        plan.dropParagraphs.push(...compile(rule.drop_paragraphs, "i"));
+        plan.removeText.push(...compile(rule.remove_text, "gi"));
+    }
+
+    return plan;
+}
+
+/**
+ * Remove clutter elements from a parsed document in place. Invalid
+ * selectors are skipped.
+ */
+export function removeClutterElements(root: Element, plan: CleanupPlan): void {
+    for (const selector of plan.selectors) {
+        try {
+            root.querySelectorAll(selector).forEach((el) => el.remove());
+        } catch {
+            console.warn(`[cleanup] Ignoring invalid selector: ${selector}`);
+        }
+    }
+
+    if (plan.builtin) {
+        // Superscript footnote numbers without a recognizable class
+        root.querySelectorAll("sup").forEach((el) => {
+            if (/^\[?\d{1,3}\]?$/.test((el.textContent ?? "").trim())) el.remove();
+        });
+    }
+}
+
+/**
+ * Apply the text rules to parsed blocks: delete matching text and drop
+ * matching paragraphs, list items, captions and alt text. Code is left as
+ * is. Blocks left empty go away.
+ */
+export function cleanBlocks(blocks: ArticleBlock[], plan: CleanupPlan): ArticleBlock[] {
+    const clean = (text: string): string => {
+        let result = text;
+        for (const pattern of plan.removeText) {
+            pattern.lastIndex = 0;
+            result = result.replace(pattern, "");
+        }
+        if (result === text) return text;
+        // Tidy the gaps left behind
+        return result.replace(/[ \t]+/g, " ").replace(/ ([.,;:!?])/g, "$1").trim();
+    };
+    const keep = (text: string): boolean => {
+        if (!text) return false;
+        if (plan.dropParagraphs.some((p) => p.test(text))) return false;
+        return text.split(/\s+/).length > SHORT_PARAGRAPH_WORDS ||
+            !plan.shortDropParagraphs.some((p) => p.test(text));
+    };
+
+    const result: ArticleBlock[] = [];
+    for (const block of blocks) {
+        switch (block.type) {
+            case "paragraph":
+            case "caption": {
+                const text = clean(block.text);
+                if (keep(text)) result.push({ ...block, text });
+                break;
+            }
+            case "heading": {
+                const text = clean(block.text);
+                if (text) result.push({ ...block, text });
+                break;
+            }
+            case "list": {
+                const items = block.items.map(clean).filter(keep);
+                if (items.length > 0) result.push({ ...block, items });
+                break;
+            }
+            case "quote": {
+                const inner = cleanBlocks(block.blocks, plan);
+                if (inner.length > 0) result.push({ ...block, blocks: inner });
+                break;
+            }
+            case "table":
+                result.push({
+                    ...block,
+                    caption: clean(block.caption),
+                    headers: block.headers.map(clean),
+                    rows: block.rows.map((row) => row.map(clean)),
+                });
+                break;
+            case "image": {
+                const alt = clean(block.alt);
+                if (keep(alt)) result.push({ ...block, alt });
+                break;
+            }
+            case "code":
+                result.push(block);
+                break;
+        }
+    }
+    return result;
+}
+
+function compile(patterns: string[] | undefined, flags: string): RegExp[] {
+    const compiled: RegExp[] = [];
+    for (const pattern of patterns ?? []) {
+        try {
+            compiled.push(new RegExp(pattern, flags));
+        } catch {
+            console.warn(`[cleanup] Ignoring invalid pattern: ${pattern}`);
+        }
+    }
+    return compiled;
+}
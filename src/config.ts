@@ -6,12 +6,12 @@ import {
     DEFAULT_TEXT_PROMPT_TEMPLATE,
     DEFAULT_TITLE_PROMPT_TEMPLATE,
 } from "./translation-prompts.js";
+import { DEFAULT_CONTENT, DEFAULT_SPEECH } from "./speech.js";
 
 const REQUIRED_FIELDS = [
     "instapaper.consumer_key",
     "instapaper.consumer_secret",
     "instapaper.username",
-    "instapaper.password",
     "translation.api_key",
     "server.base_url",
 ] as const;
@@ -65,16 +65,59 @@ function applyEnvOverrides(config: Record<string, unknown>): void {
 }
 
 const DEFAULTS: Partial<Record<string, unknown>> = {
+    "instapaper.incremental_sync": false,
+    "instapaper.regenerate_on_change": false,
+    "instapaper.remove_missing": false,
+    "instapaper.remove_missing_after_days": 7,
+    "instapaper.post_process.archive": false,
+    "instapaper.post_process.move_to_folder": "",
+    "instapaper.post_process.add_tag": "",
+    "instapaper.post_process.failure_tag": "",
     "filters.tags": [],
+    "filters.folders": [],
+    "filters.exclude_tags": [],
+    "filters.allow_domains": [],
+    "filters.deny_domains": [],
+    "filters.min_words": 0,
+    "filters.max_words": 0,
+    "filters.max_age_days": 0,
+    "sources.rss.feeds": [],
+    "sources.rss.max_items": 5,
+    "translation.provider": "openai",
     "translation.api_base": "https://api.openai.com/v1",
     "translation.model": "gpt-4o-mini",
     "translation.target_language": "svenska",
     "translation.skip_if_same": true,
     "translation.title_prompt": DEFAULT_TITLE_PROMPT_TEMPLATE,
     "translation.text_prompt": DEFAULT_TEXT_PROMPT_TEMPLATE,
+    "translation.fallbacks": [],
+    "translation.context": true,
+    "translation.glossary": [],
+    "translation.prices": {},
+    "translation.monthly_budget": 0,
     "tts.voice": "sv-SE-SofieNeural",
     "tts.rate": "+0%",
     "tts.pitch": "+0Hz",
+    "speech.heading": DEFAULT_SPEECH.heading,
+    "speech.heading_pause_ms": DEFAULT_SPEECH.heading_pause_ms,
+    "speech.list_intro": DEFAULT_SPEECH.list_intro,
+    "speech.ordered_item": DEFAULT_SPEECH.ordered_item,
+    "speech.unordered_item": DEFAULT_SPEECH.unordered_item,
+    "speech.block_pause_ms": DEFAULT_SPEECH.block_pause_ms,
+    "content.mode": DEFAULT_CONTENT.mode,
+    "content.summary_words": DEFAULT_CONTENT.summary_words,
+    "content.code": DEFAULT_CONTENT.code,
+    "content.tables": DEFAULT_CONTENT.tables,
+    "content.images": DEFAULT_CONTENT.images,
+    "content.captions": DEFAULT_CONTENT.captions,
+    "content.by_tag": {},
+    "cleanup.builtin": true,
+    "cleanup.rules": [],
+    "templates.intro": "",
+    "templates.outro": "",
+    "templates.feed_description": "",
+    "normalization.enabled": true,
+    "normalization.lexicon": [],
     "schedule.cron": "*/30 * * * *",
     "server.port": 8080,
     "feed.title": "Instapod",
@@ -0,0 +1,124 @@
+/**
+ * episode-templates.ts — The intro and outro read around each article and
+ * the episode description in the feed, with defaults per target language.
+ */
+import { findLanguage, LANGUAGES, namesOf } from "./languages.js";
+import type { AppConfig, TemplateValues } from "./types.js";
+
+export interface EpisodeTemplates {
+    locale: string; // BCP 47, for formatting {{date}}
+    intro: string;
+    outro: string;
+    feed_description: string;
+}
+
+const ENGLISH: EpisodeTemplates = {
+    locale: "en-US",
+    intro: "An article from {{source}}. {{title}}.",
+    outro: "",
+    feed_description: "Article from {{source}}",
+};
+
+/** Defaults keyed by the target language's ISO 639-1 code. */
+const DEFAULTS_BY_LANGUAGE: Record<string, EpisodeTemplates> = {
+    sv: {
+        locale: "sv-SE",
+        intro: "En artikel från {{source}}. {{title}}.",
+        outro: "",
+        feed_description: "Artikel från {{source}}",
+    },
+    en: ENGLISH,
+    de: {
+        locale: "de-DE",
+        intro: "Ein Artikel von {{source}}. {{title}}.",
+        outro: "",
+        feed_description: "Artikel von {{source}}",
+    },
+    fr: {
+        locale: "fr-FR",
+        intro: "Un article de {{source}}. {{title}}.",
+        outro: "",
+        feed_description: "Article de {{source}}",
+    },
+    es: {
+        locale: "es-ES",
+        intro: "Un artículo de {{source}}. {{title}}.",
+        outro: "",
+        feed_description: "Artículo de {{source}}",
+    },
+    nb: {
+        locale: "nb-NO",
+        intro: "En artikkel fra {{source}}. {{title}}.",
+        outro: "",
+        feed_description: "Artikkel fra {{source}}",
+    },
+    da: {
+        locale: "da-DK",
+        intro: "En artikel fra {{source}}. {{title}}.",
+        outro: "",
+        feed_description: "Artikel fra {{source}}",
+    },
+};
+
+/** The defaults by every name and code of their language, for the admin UI. */
+export const DEFAULT_EPISODE_TEMPLATES: Record<string, EpisodeTemplates> = Object.fromEntries(
+    LANGUAGES
+        .filter((language) => DEFAULTS_BY_LANGUAGE[language.code])
+        .flatMap((language) => namesOf(language).map((name) => [name, DEFAULTS_BY_LANGUAGE[language.code]]))
+);
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}(\.?)/g;
+
+/**
+ * The default templates for a target language; English for languages
+ * without defaults.
+ */
+export function defaultTemplatesFor(targetLanguage: string): EpisodeTemplates {
+    const code = findLanguage(targetLanguage)?.code;
+    return (code && DEFAULTS_BY_LANGUAGE[code]) || ENGLISH;
+}
+
+/**
+ * The templates to use: the configured ones, falling back to the defaults
+ * for the translation target language. Dates follow the target language
+ * even when it has no default templates.
+ */
+export function episodeTemplates(config: AppConfig): EpisodeTemplates {
+    const defaults = defaultTemplatesFor(config.translation.target_language);
+    const configured = config.templates ?? {};
+    return {
+        locale: findLanguage(config.translation.target_language)?.locale ?? defaults.locale,
+        intro: configured.intro?.trim() || defaults.intro,
+        outro: configured.outro?.trim() || defaults.outro,
+        feed_description: configured.feed_description?.trim() || defaults.feed_description,
+    };
+}
+
+/**
+ * Fill {{placeholders}}. Sentences with a placeholder whose value is empty
+ * are left out, so "An article from {{source}}. {{title}}." becomes just
+ * the title when the source is unknown. Unknown placeholders are kept.
+ */
+export function renderTemplate(template: string, values: TemplateValues): string {
+    const known = values as unknown as Record<string, string>;
+    const sentences = template.match(/[^.!?]*[.!?]+\s*|[^.!?]+/g) ?? [];
+
+    return sentences
+        .filter((sentence) =>
+            ![...sentence.matchAll(PLACEHOLDER)].some(([, key]) => key in known && !known[key])
+        )
+        .join("")
+        .replace(PLACEHOLDER, (match, key: string, dot: string) => {
+            if (!(key in known)) return match;
+            // "{{title}}." after a title that already ends a sentence
+            return known[key] + (dot && !/[.!?…]$/.test(known[key]) ? dot : "");
+        })
+        .trim();
+}
+
+/** Format an ISO 8601 date for {{date}}, e.g. "18 oktober 2026". */
+export function formatTemplateDate(iso: string | null | undefined, locale: string): string {
+    const date = iso ? new Date(iso) : new Date();
+    if (Number.isNaN(date.getTime())) return "";
+    return new Intl.DateTimeFormat(locale, { dateStyle: "long" }).format(date);
+}
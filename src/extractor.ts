@@ -0,0 +1,55 @@
+import { Readability } from "@mozilla/readability";
+import { parseHTML } from "linkedom";
+
+export interface ExtractedArticle {
+    title: string;
+    html: string; // main content only
+    byline: string | null;
+}
+
+const FETCH_TIMEOUT_MS = 30_000;
+
+/**
+ * Download a web page as HTML.
+ */
+export async function fetchPage(url: string): Promise<string> {
+    const response = await fetch(url, {
+        headers: {
+            "User-Agent": "Mozilla/5.0 (compatible; Instapod; +https://github.com/jnordlund/instapod)",
+            Accept: "text/html,application/xhtml+xml",
+        },
+        redirect: "follow",
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+        throw new Error(`Page request failed (${response.status})`);
+    }
+
+    const contentType = response.headers.get("content-type") ?? "";
+    if (contentType && !/html|xml/i.test(contentType)) {
+        throw new Error(`Unsupported content type: ${contentType}`);
+    }
+
+    return response.text();
+}
+
+/**
+ * Pull the main content out of a full web page (readability-style),
+ * dropping navigation, sidebars, comments and other page chrome.
+ * Returns null if no article-like content could be found.
+ */
+export function extractArticle(html: string): ExtractedArticle | null {
+    const { document } = parseHTML(html);
+    const result = new Readability(document as unknown as Document).parse();
+
+    if (!result?.content || !result.textContent?.trim()) {
+        return null;
+    }
+
+    return {
+        title: result.title?.trim() ?? "",
+        html: result.content,
+        byline: result.byline?.trim() || null,
+    };
+}
@@ -0,0 +1,153 @@
+/**
+ * fake-instapaper.ts — In-process fake of the Instapaper Full API.
+ *
+ * Supports xAuth, bookmarks/list (including `have` and delete_ids),
+ * get_text, folders/list and the write-back calls (archive, move, add).
+ * OAuth signatures are not verified; requests only need the issued token.
+ */
+import { createHash } from "node:crypto";
+import type { InstapaperBookmark, InstapaperFolder } from "./types.js";
+import { FakeServer, json, type FakeRequest, type FakeResponse } from "./fake-server.js";
+
+export const FAKE_TOKEN = "fake-oauth-token";
+export const FAKE_TOKEN_SECRET = "fake-oauth-token-secret";
+
+export interface FakeBookmark {
+    bookmark_id: number;
+    title: string;
+    url: string;
+    html: string;
+    tags?: string[];
+    folder?: string; // "unread" (default), "starred", "archive" or a folder id
+    time?: number;   // unix seconds
+    hash?: string;   // derived from title and html if not set
+}
+
+export interface FakeInstapaperOptions {
+    username?: string;
+    password?: string;
+    bookmarks?: FakeBookmark[];
+    folders?: InstapaperFolder[];
+}
+
+const INVALID_BOOKMARK = [{ type: "error", error_code: 1241, message: "Invalid or missing bookmark_id" }];
+
+export class FakeInstapaper extends FakeServer {
+    readonly username: string;
+    readonly password: string;
+    readonly bookmarks = new Map<number, FakeBookmark>();
+    folders: InstapaperFolder[];
+
+    constructor(options: FakeInstapaperOptions = {}) {
+        super();
+        this.username = options.username ?? "reader@example.com";
+        this.password = options.password ?? "password";
+        this.folders = options.folders ?? [];
+        for (const bookmark of options.bookmarks ?? []) {
+            this.addBookmark(bookmark);
+        }
+    }
+
+    addBookmark(bookmark: FakeBookmark): void {
+        this.bookmarks.set(bookmark.bookmark_id, bookmark);
+    }
+
+    removeBookmark(bookmarkId: number): void {
+        this.bookmarks.delete(bookmarkId);
+    }
+
+    protected handle(request: FakeRequest): FakeResponse {
+        const params = new URLSearchParams(request.body);
+
+        if (request.path === "/api/1/oauth/access_token") {
+            if (params.get("x_auth_username") !== this.username ||
+                params.get("x_auth_password") !== this.password) {
+                return { status: 401, body: "Invalid xAuth credentials." };
+            }
+            return {
+                status: 200,
+                body: `oauth_token=${FAKE_TOKEN}&oauth_token_secret=${FAKE_TOKEN_SECRET}`,
+            };
+        }
+
+        if (!String(request.headers.authorization ?? "").includes(`oauth_token="${FAKE_TOKEN}"`)) {
+            return json(401, [{ type: "error", error_code: 1000, message: "Not authorized" }]);
+        }
+
+        switch (request.path) {
+            case "/api/1/bookmarks/list":
+                return json(200, this.listBookmarks(params));
+            case "/api/1/bookmarks/get_text": {
+                const bookmark = this.bookmarks.get(Number(params.get("bookmark_id")));
+                if (!bookmark) return json(400, INVALID_BOOKMARK);
+                return { status: 200, body: bookmark.html, headers: { "Content-Type": "text/html" } };
+            }
+            case "/api/1/bookmarks/archive":
+            case "/api/1/bookmarks/move": {
+                const bookmark = this.bookmarks.get(Number(params.get("bookmark_id")));
+                if (!bookmark) return json(400, INVALID_BOOKMARK);
+                bookmark.folder = request.path.endsWith("archive")
+                    ? "archive"
+                    : params.get("folder_id") ?? "unread";
+                return json(200, [this.toApiBookmark(bookmark)]);
+            }
+            case "/api/1.1/bookmarks/add": {
+                const bookmark = [...this.bookmarks.values()].find((b) => b.url === params.get("url"));
+                if (!bookmark) return json(400, INVALID_BOOKMARK);
+                const tags = JSON.parse(params.get("tags") ?? "[]") as Array<{ name: string }>;
+                bookmark.tags = tags.map((t) => t.name);
+                return json(200, [this.toApiBookmark(bookmark)]);
+            }
+            case "/api/1/folders/list":
+                return json(200, this.folders.map((f) => ({ type: "folder", ...f })));
+            default:
+                return json(404, [{ type: "error", error_code: 1500, message: `Unknown endpoint ${request.path}` }]);
+        }
+    }
+
+    /** v1 list format: meta (with delete_ids) and user items, then bookmarks. */
+    private listBookmarks(params: URLSearchParams): unknown[] {
+        const tag = params.get("tag");
+        const folder = params.get("folder_id") || "unread";
+        const limit = Number(params.get("limit") || 25);
+
+        const matching = [...this.bookmarks.values()].filter((b) =>
+            tag ? (b.tags ?? []).includes(tag) : (b.folder ?? "unread") === folder
+        );
+
+        const have = new Map<number, string | null>();
+        for (const entry of (params.get("have") ?? "").split(",").filter(Boolean)) {
+            const [id, hash] = entry.split(":");
+            have.set(Number(id), hash ?? null);
+        }
+
+        const listed = matching
+            .map((b) => this.toApiBookmark(b))
+            .filter((b) => !have.has(b.bookmark_id) ||
+                (have.get(b.bookmark_id) !== null && have.get(b.bookmark_id) !== b.hash))
+            .slice(0, limit);
+
+        const matchingIds = new Set(matching.map((b) => b.bookmark_id));
+        const deleteIds = [...have.keys()].filter((id) => !matchingIds.has(id));
+
+        return [
+            { type: "meta", delete_ids: deleteIds.join(",") },
+            { type: "user", user_id: 1, username: this.username },
+            ...listed,
+        ];
+    }
+
+    private toApiBookmark(bookmark: FakeBookmark): InstapaperBookmark {
+        return {
+            type: "bookmark",
+            bookmark_id: bookmark.bookmark_id,
+            title: bookmark.title,
+            url: bookmark.url,
+            description: "",
+            hash: bookmark.hash ??
+                createHash("sha1").update(`${bookmark.title}\n${bookmark.html}`).digest("hex").slice(0, 8),
+            time: bookmark.time ?? 0,
+            tags: (bookmark.tags ?? []).map((name, i) => ({ id: i + 1, name })),
+        };
+    }
+}
@@ -0,0 +1,66 @@
+/**
+ * fake-openai.ts — In-process fake of an OpenAI-compatible
+ * `/v1/chat/completions` endpoint. Replies are produced by a plain
+ * function of the last user message, so tests can predict them.
+ */
+import { FakeServer, json, type FakeRequest, type FakeResponse } from "./fake-server.js";
+
+export interface ChatMessage {
+    role: string;
+    content: string;
+}
+
+export interface FakeOpenAiOptions {
+    /**
+     * Produce the reply for a request. Defaults to prefixing each paragraph
+     * with "[translated] ", leaving marker placeholders ("⟦1⟧") as they are.
+     */
+    reply?: (text: string, messages: ChatMessage[]) => string;
+}
+
+export class FakeOpenAi extends FakeServer {
+    private reply: (text: string, messages: ChatMessage[]) => string;
+
+    constructor(options: FakeOpenAiOptions = {}) {
+        super();
+        this.reply = options.reply ?? ((text) => text
+            .split(/\n{2,}/)
+            .map((paragraph) => (/^⟦\d+⟧$/.test(paragraph.trim()) ? paragraph : `[translated] ${paragraph}`))
+            .join("\n\n"));
+    }
+
+    /** Base URL to use as `translation.api_base`. */
+    get apiBase(): string {
+        return `${this.url}/v1`;
+    }
+
+    protected handle(request: FakeRequest): FakeResponse {
+        if (request.method !== "POST" || request.path !== "/v1/chat/completions") {
+            return json(404, { error: { message: `Unknown endpoint ${request.path}` } });
+        }
+
+        let body: { model?: string; messages?: ChatMessage[] };
+        try {
+            body = JSON.parse(request.body);
+        } catch {
+            return json(400, { error: { message: "Invalid JSON body" } });
+        }
+
+        const messages = body.messages ?? [];
+        const text = [...messages].reverse().find((m) => m.role === "user")?.content ?? "";
+        const content = this.reply(text, messages);
+        const promptChars = messages.reduce((sum, m) => sum + m.content.length, 0);
+
+        return json(200, {
+            id: `chatcmpl-fake-${this.requests.length}`,
+            object: "chat.completion",
+            model: body.model ?? "fake",
+            choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+            usage: {
+                prompt_tokens: Math.ceil(promptChars / 4),
+                completion_tokens: Math.ceil(content.length / 4),
+                total_tokens: Math.ceil(promptChars / 4) + Math.ceil(content.length / 4),
+            },
+        });
+    }
+}
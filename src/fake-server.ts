@@ -0,0 +1,115 @@
+/**
+ * fake-server.ts — Base for the local fake APIs used in end-to-end tests.
+ *
+ * Each fake is a plain node:http server bound to localhost that records
+ * every request and can be told to fail the next calls to an endpoint.
+ */
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface FakeRequest {
+    method: string;
+    path: string;
+    headers: IncomingHttpHeaders;
+    body: string;
+}
+
+export interface FakeResponse {
+    status: number;
+    body: string;
+    headers?: Record<string, string>;
+}
+
+interface InjectedFailure extends FakeResponse {
+    path: string;
+    remaining: number;
+}
+
+export abstract class FakeServer {
+    /** Every request received, in order. */
+    readonly requests: FakeRequest[] = [];
+    private server: Server | null = null;
+    private failures: InjectedFailure[] = [];
+    private baseUrl: string | null = null;
+
+    /** Base URL of the running server, e.g. "http://127.0.0.1:41234". */
+    get url(): string {
+        if (!this.baseUrl) throw new Error("Fake server is not running");
+        return this.baseUrl;
+    }
+
+    /**
+     * Start listening. Port 0 picks a free port; the host defaults to
+     * loopback so the fake is never reachable from outside.
+     */
+    async start(port = 0, host = "127.0.0.1"): Promise<string> {
+        const server = createServer((req, res) => {
+            const chunks: Buffer[] = [];
+            req.on("data", (chunk: Buffer) => chunks.push(chunk));
+            req.on("end", () => {
+                const request: FakeRequest = {
+                    method: req.method ?? "GET",
+                    path: new URL(req.url ?? "/", "http://localhost").pathname,
+                    headers: req.headers,
+                    body: Buffer.concat(chunks).toString("utf-8"),
+                };
+                this.requests.push(request);
+
+                let response: FakeResponse;
+                try {
+                    response = this.takeFailure(request.path) ?? this.handle(request);
+                } catch (err) {
+                    response = { status: 500, body: String(err) };
+                }
+
+                res.writeHead(response.status, response.headers);
+                res.end(response.body);
+            });
+        });
+
+        await new Promise<void>((resolve, reject) => {
+            server.once("error", reject);
+            server.listen(port, host, () => resolve());
+        });
+
+        this.server = server;
+        const address = server.address() as AddressInfo;
+        this.baseUrl = `http://${host.includes(":") ? `[${host}]` : host}:${address.port}`;
+        return this.baseUrl;
+    }
+
+    async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) return;
+        this.server = null;
+        this.baseUrl = null;
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+
+    /** Answer the next `times` requests to `path` with the given response. */
+    failNext(path: string, response: FakeResponse, times = 1): void {
+        this.failures.push({ ...response, path, remaining: times });
+    }
+
+    /** Requests received for a path (exact match or path suffix). */
+    requestsTo(path: string): FakeRequest[] {
+        return this.requests.filter((r) => r.path === path || r.path.endsWith(path));
+    }
+
+    protected abstract handle(request: FakeRequest): FakeResponse;
+
+    private takeFailure(path: string): FakeResponse | null {
+        const failure = this.failures.find((f) => f.path === path && f.remaining > 0);
+        if (!failure) return null;
+        failure.remaining--;
+        return { status: failure.status, body: failure.body, headers: failure.headers };
+    }
+}
+
+export function json(status: number, data: unknown): FakeResponse {
+    return {
+        status,
+        body: JSON.stringify(data),
+        headers: { "Content-Type": "application/json" },
+    };
+}
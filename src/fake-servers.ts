@@ -0,0 +1,64 @@
+/**
+ * fake-servers.ts — Run the fake Instapaper and OpenAI-compatible APIs
+ * locally, for trying the admin UI and pipeline without real accounts.
+ *
+ * Usage: npm run fakes [-- <instapaper port> <openai port>]
+ */
+import { FakeInstapaper } from "./fake-instapaper.js";
+import { FakeOpenAi } from "./fake-openai.js";
+
+const SAMPLE_BOOKMARKS = [
+    {
+        bookmark_id: 1001,
+        title: "A Short History of Podcasting",
+        url: "https://example.com/podcasting",
+        html: "<p>Podcasts started as RSS feeds with audio enclosures.</p><p>They are still exactly that.</p>",
+        tags: ["pod"],
+    },
+    {
+        bookmark_id: 1002,
+        title: "Why Text-to-Speech Got Good",
+        url: "https://example.org/tts",
+        html: "<p>Neural voices changed everything.</p>",
+        tags: ["pod"],
+    },
+];
+
+async function main() {
+    const instapaperPort = Number(process.argv[2] ?? 8787);
+    const openAiPort = Number(process.argv[3] ?? 8788);
+
+    const instapaper = new FakeInstapaper({ bookmarks: SAMPLE_BOOKMARKS });
+    const openAi = new FakeOpenAi();
+
+    await instapaper.start(instapaperPort);
+    await openAi.start(openAiPort);
+
+    console.log(`[fakes] Instapaper API: ${instapaper.url}`);
+    console.log(`[fakes] Chat completions API: ${openAi.apiBase}`);
+    console.log(`
+instapaper:
+  api_base: "${instapaper.url}"
+  consumer_key: "fake"
+  consumer_secret: "fake"
+  username: "${instapaper.username}"
+  password: "${instapaper.password}"
+filters:
+  tags: ["pod"]
+translation:
+  api_base: "${openAi.apiBase}"
+  api_key: "fake"
+`);
+
+    const shutdown = async () => {
+        await Promise.all([instapaper.stop(), openAi.stop()]);
+        process.exit(0);
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+}
+
+main().catch((err) => {
+    console.error("[fakes] Fatal:", err);
+    process.exit(1);
+});
@@ -0,0 +1,52 @@
+/**
+ * fake-tts.ts — TTS engine that writes a placeholder file instead of
+ * calling edge-tts. Install it with `setTtsEngine(new FakeTtsEngine())`.
+ */
+import { mkdirSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import type { Chapter, TtsConfig } from "./types.js";
+import type { SynthesisResult, TtsEngine } from "./tts.js";
+import { chapterTitle, splitSpeech } from "./speech.js";
+
+/** Speaking rate used to estimate a duration from the text. */
+const WORDS_PER_SECOND = 2.5;
+
+export interface FakeSynthesis {
+    text: string;
+    outputPath: string;
+    voice: string;
+}
+
+export class FakeTtsEngine implements TtsEngine {
+    /** Every synthesis request, in order. */
+    readonly calls: FakeSynthesis[] = [];
+
+    async synthesize(text: string, outputPath: string, config: TtsConfig): Promise<SynthesisResult> {
+        this.calls.push({ text, outputPath, voice: config.voice });
+
+        mkdirSync(dirname(outputPath), { recursive: true });
+        // An MPEG frame header followed by the text, so the file is non-empty
+        // and its content reflects what was "spoken"
+        writeFileSync(outputPath, Buffer.concat([
+            Buffer.from([0xff, 0xfb, 0x90, 0x00]),
+            Buffer.from(text, "utf-8"),
+        ]));
+
+        // Time chapters as if every word took the same time
+        const chapters: Chapter[] = [];
+        const segments = splitSpeech(text);
+        let seconds = 0;
+        for (const [i, segment] of segments.entries()) {
+            if (typeof segment === "number") {
+                seconds += segment / 1000;
+            } else if (typeof segment === "string") {
+                seconds += segment.split(/\s+/).filter(Boolean).length / WORDS_PER_SECOND;
+            } else {
+                const next = segments.slice(i + 1).find((s): s is string => typeof s === "string");
+                chapters.push({ title: segment.chapter ?? (next ? chapterTitle(next) : ""), start: seconds });
+            }
+        }
+
+        return { duration: Math.max(1, Math.round(seconds)), chapters };
+    }
+}
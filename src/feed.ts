@@ -1,4 +1,5 @@
 import type { AppConfig, ProcessedBookmark } from "./types.js";
+import { episodeTemplates, formatTemplateDate, renderTemplate } from "./episode-templates.js";
 
 /**
  * Generate a valid RSS 2.0 podcast feed XML with iTunes namespace.
@@ -8,21 +9,33 @@ export function generateFeed(
     episodes: ProcessedBookmark[]
 ): string {
     const baseUrl = config.server.base_url.replace(/\/$/, "");
+    const templates = episodeTemplates(config);
 
     const items = episodes
         .map((ep) => {
             const audioUrl = `${baseUrl}/audio/${encodeURIComponent(ep.filename)}`;
             const durationFormatted = formatDuration(ep.duration);
+            const description = renderTemplate(templates.feed_description, {
+                title: ep.title,
+                source: ep.source,
+                author: ep.author ?? "",
+                date: formatTemplateDate(ep.pubDate, templates.locale),
+                word_count: ep.wordCount ? String(ep.wordCount) : "",
+            });
+
+            const chapters = ep.chapters && ep.chapters.length > 1
+                ? `\n      <podcast:chapters url="${escapeXml(`${baseUrl}/chapters/${encodeURIComponent(chaptersFilename(ep))}`)}" type="application/json+chapters" />`
+                : "";
 
             return `    <item>
       <title>${escapeXml(ep.title)}</title>
-      <description>${escapeXml(`Artikel från ${ep.source}`)}</description>
+      <description>${escapeXml(description)}</description>
       <enclosure url="${escapeXml(audioUrl)}" type="audio/mpeg" />
-      <guid isPermaLink="false">${escapeXml(ep.bookmarkId)}</guid>
+      <guid isPermaLink="false">${escapeXml(ep.guid ?? ep.bookmarkId)}</guid>
       <pubDate>${new Date(ep.pubDate).toUTCString()}</pubDate>
       <itunes:author>${escapeXml(config.feed.author)}</itunes:author>
       <itunes:duration>${durationFormatted}</itunes:duration>
-      <itunes:explicit>no</itunes:explicit>
+      <itunes:explicit>no</itunes:explicit>${chapters}
     </item>`;
         })
         .join("\n");
@@ -31,7 +44,8 @@ export function generateFeed(
 <rss version="2.0"
   xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd"
   xmlns:content="http://purl.org/rss/1.0/modules/content/"
-  xmlns:atom="http://www.w3.org/2005/Atom">
+  xmlns:atom="http://www.w3.org/2005/Atom"
+  xmlns:podcast="https://podcastindex.org/namespace/1.0">
   <channel>
     <title>${escapeXml(config.feed.title)}</title>
     <link>${escapeXml(baseUrl)}</link>
@@ -53,6 +67,24 @@ ${items}
 </rss>`;
 }
 
+/** Name of an episode's chapters file, served at /chapters/<name>. */
+export function chaptersFilename(episode: ProcessedBookmark): string {
+    return episode.filename.replace(/\.mp3$/, ".json");
+}
+
+/**
+ * Generate a Podcasting 2.0 chapters file for an episode.
+ */
+export function generateChapters(episode: ProcessedBookmark): string {
+    return JSON.stringify({
+        version: "1.2.0",
+        chapters: (episode.chapters ?? []).map((chapter) => ({
+            startTime: Math.round(chapter.start * 1000) / 1000,
+            title: chapter.title,
+        })),
+    }, null, 2);
+}
+
 function formatDuration(seconds: number): string {
     const h = Math.floor(seconds / 3600);
     const m = Math.floor((seconds % 3600) / 60);
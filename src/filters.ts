@@ -0,0 +1,79 @@
+import type { FilterConfig, SourceArticle } from "./types.js";
+
+const DAY_MS = 24 * 3600 * 1000;
+
+/**
+ * Check an article against the filters that can be decided before its
+ * text is fetched: excluded tags, domain allow/deny lists and age.
+ * Returns the reason the article is filtered out, or null if it passes.
+ */
+export function checkArticle(
+    article: SourceArticle,
+    filters: FilterConfig,
+    now = Date.now()
+): string | null {
+    const excluded = (filters.exclude_tags ?? []).map((t) => t.toLowerCase());
+    const excludedTag = (article.tags ?? []).find((t) => excluded.includes(t.toLowerCase()));
+    if (excludedTag) {
+        return `Has excluded tag "${excludedTag}"`;
+    }
+
+    const host = hostnameOf(article.url);
+    const denied = (filters.deny_domains ?? []).find((d) => matchesDomain(host, d));
+    if (denied) {
+        return `Domain ${host} is denied (${denied})`;
+    }
+
+    const allowed = filters.allow_domains ?? [];
+    if (allowed.length > 0 && !allowed.some((d) => matchesDomain(host, d))) {
+        return host
+            ? `Domain ${host} is not in the allow list`
+            : "No domain to match against the allow list";
+    }
+
+    const maxAgeDays = filters.max_age_days ?? 0;
+    if (maxAgeDays > 0 && article.savedAt) {
+        const ageDays = Math.floor((now - new Date(article.savedAt).getTime()) / DAY_MS);
+        if (ageDays > maxAgeDays) {
+            return `Saved ${ageDays} days ago (max ${maxAgeDays})`;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Check a parsed article's word count against min_words/max_words.
+ * Returns the reason the article is filtered out, or null if it passes.
+ */
+export function checkWordCount(
+    wordCount: number,
+    filters: FilterConfig
+): string | null {
+    const min = filters.min_words ?? 0;
+    const max = filters.max_words ?? 0;
+
+    if (min > 0 && wordCount < min) {
+        return `Too short: ${wordCount} words (min ${min})`;
+    }
+    if (max > 0 && wordCount > max) {
+        return `Too long: ${wordCount} words (max ${max})`;
+    }
+    return null;
+}
+
+/** Lowercased hostname of a URL without "www.", or "" if it has none. */
+export function hostnameOf(url: string): string {
+    try {
+        return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+    } catch {
+        return "";
+    }
+}
+
+/** True if host is the domain itself or one of its subdomains. */
+export function matchesDomain(host: string, domain: string): boolean {
+    const d = domain.trim().toLowerCase().replace(/^\*?\./, "").replace(/^www\./, "");
+    if (!host || !d) return false;
+    return host === d || host.endsWith(`.${d}`);
+}
@@ -0,0 +1,281 @@
+import { createHash } from "node:crypto";
+import {
+    existsSync,
+    mkdirSync,
+    readdirSync,
+    readFileSync,
+    renameSync,
+    statSync,
+    writeFileSync,
+} from "node:fs";
+import { basename, extname, join, posix } from "node:path";
+import { XMLParser } from "fast-xml-parser";
+import { strFromU8, unzipSync } from "fflate";
+import { marked } from "marked";
+import type { ArticleSource, SourceArticle } from "./types.js";
+import { StateManager } from "./state.js";
+
+export const INBOX_NAMESPACE = "inbox";
+
+/** Files younger than this may still be being copied into the inbox. */
+const MIN_FILE_AGE_MS = 10_000;
+
+const SUPPORTED_EXTENSIONS = [".html", ".htm", ".md", ".markdown", ".txt", ".epub"];
+
+/** One episode's worth of content taken from an inbox file. */
+export interface InboxDocument {
+    title: string;
+    html: string;
+}
+
+interface InboxFile {
+    name: string;
+    pending: Set<string>; // article ids not yet settled in this run
+    failure: string | null;
+}
+
+const xmlParser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    removeNSPrefix: true,
+    isArray: (name) => ["item", "itemref", "rootfile"].includes(name),
+});
+
+/**
+ * Article source for local files dropped into `data_dir/inbox`. HTML,
+ * Markdown and plain text files become one episode each; EPUB files
+ * become one episode per chapter. Files move to `inbox/done` once every
+ * episode exists, or to `inbox/failed` with a `.reason.txt` next to them.
+ */
+export class InboxSource implements ArticleSource {
+    readonly name = INBOX_NAMESPACE;
+    readonly skipFilters = true;
+    private inboxDir: string;
+    private state: StateManager;
+    private documents = new Map<string, { file: InboxFile; html: string }>();
+
+    constructor(dataDir: string, state: StateManager) {
+        this.inboxDir = join(dataDir, "inbox");
+        this.state = state;
+    }
+
+    async listArticles(): Promise<SourceArticle[]> {
+        mkdirSync(this.inboxDir, { recursive: true });
+        this.documents.clear();
+
+        const articles: SourceArticle[] = [];
+
+        for (const name of readdirSync(this.inboxDir)) {
+            const path = join(this.inboxDir, name);
+            const stats = statSync(path);
+            if (!stats.isFile() || name.startsWith(".")) continue;
+            if (Date.now() - stats.mtimeMs < MIN_FILE_AGE_MS) continue;
+
+            if (!SUPPORTED_EXTENSIONS.includes(extname(name).toLowerCase())) {
+                this.moveFile(name, "failed", `Unsupported file type: ${extname(name) || "(none)"}`);
+                continue;
+            }
+
+            let documents: InboxDocument[];
+            let baseId: string;
+            try {
+                const content = readFileSync(path);
+                baseId = createHash("sha1").update(content).digest("hex").slice(0, 16);
+                documents = readInboxFile(name, content);
+            } catch (err) {
+                console.error(`[inbox] Failed to read ${name}:`, err);
+                this.moveFile(name, "failed", (err as Error).message);
+                continue;
+            }
+
+            if (documents.length === 0) {
+                this.moveFile(name, "failed", "No readable text found");
+                continue;
+            }
+
+            const file: InboxFile = { name, pending: new Set(), failure: null };
+            documents.forEach((doc, index) => {
+                const id = documents.length === 1
+                    ? `${INBOX_NAMESPACE}:${baseId}`
+                    : `${INBOX_NAMESPACE}:${baseId}-${index + 1}`;
+                if (this.state.isProcessed(id)) return;
+
+                file.pending.add(id);
+                this.documents.set(id, { file, html: doc.html });
+                articles.push({ id, title: doc.title, url: "" });
+            });
+
+            if (file.pending.size === 0) {
+                this.moveFile(name, "done");
+            } else {
+                console.log(`[inbox] ${name}: ${file.pending.size} episode(s) to create`);
+            }
+        }
+
+        return articles;
+    }
+
+    async fetchHtml(article: SourceArticle): Promise<string> {
+        return this.documents.get(article.id)?.html ?? "";
+    }
+
+    async onProcessed(article: SourceArticle): Promise<void> {
+        this.settle(article.id, null);
+    }
+
+    async onFailed(article: SourceArticle, error: unknown): Promise<void> {
+        this.settle(article.id, error instanceof Error ? error.message : String(error));
+    }
+
+    /** Record the outcome for one episode and move the file once all are in. */
+    private settle(id: string, failure: string | null): void {
+        const entry = this.documents.get(id);
+        if (!entry) return;
+
+        const { file } = entry;
+        file.pending.delete(id);
+        if (failure) {
+            file.failure = (file.failure ? `${file.failure}\n` : "") + `${id}: ${failure}`;
+        }
+
+        if (file.pending.size === 0) {
+            this.moveFile(file.name, file.failure ? "failed" : "done", file.failure ?? undefined);
+        }
+    }
+
+    private moveFile(name: string, target: "done" | "failed", reason?: string): void {
+        const targetDir = join(this.inboxDir, target);
+        try {
+            mkdirSync(targetDir, { recursive: true });
+            const targetName = freeName(targetDir, name);
+            renameSync(join(this.inboxDir, name), join(targetDir, targetName));
+            if (reason) {
+                writeFileSync(
+                    join(targetDir, `${targetName}.reason.txt`),
+                    `${new Date().toISOString()}\n${reason}\n`,
+                    "utf-8"
+                );
+            }
+            const renamed = targetName !== name ? ` as ${targetName}` : "";
+            console.log(`[inbox] Moved ${name} to ${target}${renamed}${reason ? `: ${reason}` : ""}`);
+        } catch (err) {
+            console.error(`[inbox] Failed to move ${name} to ${target}:`, err);
+        }
+    }
+}
+
+/**
+ * `name`, or `name` with a counter before the extension ("notes-2.md")
+ * when a file or reason file of that name is in `dir` already.
+ */
+function freeName(dir: string, name: string): string {
+    const extension = extname(name);
+    const stem = name.slice(0, name.length - extension.length);
+    let candidate = name;
+    for (let n = 2; existsSync(join(dir, candidate)) || existsSync(join(dir, `${candidate}.reason.txt`)); n++) {
+        candidate = `${stem}-${n}${extension}`;
+    }
+    return candidate;
+}
+
+/**
+ * Turn an inbox file into one or more HTML documents, based on its extension.
+ */
+export function readInboxFile(name: string, content: Buffer): InboxDocument[] {
+    const fallbackTitle = basename(name, extname(name));
+
+    switch (extname(name).toLowerCase()) {
+        case ".html":
+        case ".htm": {
+            const html = content.toString("utf-8");
+            return [{ title: htmlTitle(html) || fallbackTitle, html }];
+        }
+        case ".md":
+        case ".markdown": {
+            const markdown = content.toString("utf-8");
+            const heading = markdown.match(/^#\s+(.+)$/m);
+            const html = marked.parse(markdown, { async: false }) as string;
+            return [{ title: heading?.[1].trim() || fallbackTitle, html }];
+        }
+        case ".txt": {
+            const text = content.toString("utf-8").trim();
+            if (!text) return [];
+            const paragraphs = text.split(/\n\s*\n/).map((p) => `<p>${escapeHtml(p.trim())}</p>`);
+            return [{ title: fallbackTitle, html: paragraphs.join("\n") }];
+        }
+        case ".epub":
+            return readEpub(content, fallbackTitle);
+        default:
+            throw new Error(`Unsupported file type: ${extname(name)}`);
+    }
+}
+
+/**
+ * Split an EPUB into chapters following the spine order. Spine items
+ * without any text (cover images, blank pages) are skipped.
+ */
+function readEpub(content: Buffer, fallbackTitle: string): InboxDocument[] {
+    const files = unzipSync(new Uint8Array(content));
+    const readText = (path: string): string => {
+        const data = files[path];
+        if (!data) throw new Error(`EPUB is missing ${path}`);
+        return strFromU8(data);
+    };
+
+    const container = xmlParser.parse(readText("META-INF/container.xml"));
+    const opfPath: string | undefined =
+        container.container?.rootfiles?.rootfile?.[0]?.["@_full-path"];
+    if (!opfPath) throw new Error("EPUB has no package document");
+
+    const opf = xmlParser.parse(readText(opfPath)).package;
+    const bookTitle = textOf(opf?.metadata?.title) || fallbackTitle;
+    const opfDir = posix.dirname(opfPath);
+
+    const manifest = new Map<string, string>();
+    for (const item of opf?.manifest?.item ?? []) {
+        manifest.set(item["@_id"], item["@_href"]);
+    }
+
+    const chapters: InboxDocument[] = [];
+    for (const ref of opf?.spine?.itemref ?? []) {
+        const href = manifest.get(ref["@_idref"]);
+        if (!href) continue;
+
+        const path = posix.normalize(posix.join(opfDir, decodeURIComponent(href)));
+        const html = readText(path);
+        const text = html.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
+        if (!text) continue;
+
+        const chapterTitle = htmlTitle(html);
+        chapters.push({
+            title: chapterTitle && chapterTitle !== bookTitle
+                ? `${bookTitle}: ${chapterTitle}`
+                : `${bookTitle} (${chapters.length + 1})`,
+            html,
+        });
+    }
+
+    return chapters;
+}
+
+/** First heading or <title> of an HTML document. */
+function htmlTitle(html: string): string {
+    const match =
+        html.match(/<h[12][^>]*>([\s\S]*?)<\/h[12]>/i) ??
+        html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+    return match ? match[1].replace(/<[^>]*>/g, "").replace(/\s+/g, " ").trim() : "";
+}
+
+function textOf(node: unknown): string {
+    if (node === undefined || node === null) return "";
+    if (Array.isArray(node)) return textOf(node[0]);
+    if (typeof node === "object") return textOf((node as Record<string, unknown>)["#text"]);
+    return String(node).trim();
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;");
+}
@@ -0,0 +1,206 @@
+import type {
+    AppConfig,
+    ArticleSource,
+    InstapaperBookmark,
+    SourceArticle,
+} from "./types.js";
+import {
+    InstapaperClient,
+    type BookmarkListOptions,
+    type BookmarkSyncResult,
+} from "./instapaper.js";
+import { StateManager } from "./state.js";
+
+export const INSTAPAPER_NAMESPACE = "instapaper";
+
+/**
+ * Article source backed by Instapaper bookmarks, selected by the
+ * configured tags and folders.
+ */
+export class InstapaperSource implements ArticleSource {
+    readonly name = INSTAPAPER_NAMESPACE;
+    readonly regenerateOnChange: boolean;
+    readonly removeMissingAfterDays?: number;
+    private client: InstapaperClient;
+    private config: AppConfig;
+    private state: StateManager;
+    private bookmarks = new Map<string, InstapaperBookmark>();
+
+    constructor(config: AppConfig, state: StateManager) {
+        this.config = config;
+        this.state = state;
+        this.regenerateOnChange = config.instapaper.regenerate_on_change ?? false;
+        if (config.instapaper.remove_missing) {
+            this.removeMissingAfterDays = config.instapaper.remove_missing_after_days ?? 7;
+        }
+        this.client = new InstapaperClient(config.instapaper, config.data_dir);
+    }
+
+    async listArticles(): Promise<SourceArticle[]> {
+        console.log("[instapaper] Fetching bookmarks from Instapaper...");
+
+        // Fetch bookmarks, filtered by tag and/or folder if configured
+        const tags = this.config.filters.tags;
+        const folders = this.config.filters.folders ?? [];
+        const matched: InstapaperBookmark[] = [];
+
+        if (tags.length > 0 || folders.length > 0) {
+            if (tags.length > 0) {
+                console.log(`[instapaper] Filtering for tags: ${JSON.stringify(tags)}`);
+                for (const tag of tags) {
+                    const { bookmarks: tagBookmarks } = await this.fetchBookmarkList({ tag });
+                    console.log(`[instapaper] Tag "${tag}": ${tagBookmarks.length} bookmark(s)`);
+                    matched.push(...tagBookmarks);
+                }
+            }
+
+            if (folders.length > 0) {
+                console.log(`[instapaper] Filtering for folders: ${JSON.stringify(folders)}`);
+                const folderIds = await this.client.resolveFolderIds(folders);
+                for (const folderId of folderIds) {
+                    const { bookmarks: folderBookmarks } = await this.fetchBookmarkList({ folderId });
+                    console.log(`[instapaper] Folder ${folderId}: ${folderBookmarks.length} bookmark(s)`);
+                    matched.push(...folderBookmarks);
+                }
+            }
+        } else {
+            matched.push(...(await this.fetchBookmarkList()).bookmarks);
+        }
+
+        // Deduplicate by bookmark_id
+        this.bookmarks.clear();
+        for (const bookmark of matched) {
+            this.bookmarks.set(toArticleId(bookmark.bookmark_id), bookmark);
+        }
+
+        return [...this.bookmarks.entries()].map(([id, bookmark]) => ({
+            id,
+            title: bookmark.title,
+            url: bookmark.url,
+            tags: (bookmark.tags ?? []).map((t) => t.name),
+            savedAt: bookmark.time ? new Date(bookmark.time * 1000).toISOString() : null,
+            hash: bookmark.hash,
+        }));
+    }
+
+    /**
+     * Every bookmark in the account, whatever the filters: unread, archive
+     * and each folder. Null when a list was cut short, since the bookmarks
+     * past the cut would look deleted.
+     */
+    async listAllIds(): Promise<string[] | null> {
+        const folders = await this.client.listFolders();
+        const lists: Array<BookmarkListOptions | undefined> = [
+            undefined,
+            { folderId: "archive" },
+            ...folders.map((f) => ({ folderId: String(f.folder_id) })),
+        ];
+
+        const ids: string[] = [];
+        for (const options of lists) {
+            const { bookmarks, complete } = await this.fetchBookmarkList(options);
+            if (!complete) return null;
+            ids.push(...bookmarks.map((b) => toArticleId(b.bookmark_id)));
+        }
+        return ids;
+    }
+
+    async fetchHtml(article: SourceArticle): Promise<string> {
+        return this.client.getBookmarkText(toBookmarkId(article.id));
+    }
+
+    /**
+     * Apply the configured Instapaper write-back actions to a finished bookmark.
+     * Errors are logged but never undo the episode that was just created.
+     */
+    async onProcessed(article: SourceArticle): Promise<void> {
+        const actions = this.config.instapaper.post_process;
+        const bookmark = this.bookmarks.get(article.id);
+        if (!actions || !bookmark) return;
+
+        const id = toBookmarkId(article.id);
+
+        try {
+            // Tagging saves the bookmark again, which may put it back in Unread, so it goes first
+            const tags = (bookmark.tags ?? []).map((t) => t.name);
+            if (actions.add_tag && !tags.includes(actions.add_tag)) {
+                await this.client.addBookmarkTags(bookmark, [actions.add_tag]);
+                console.log(`[instapaper] Tagged ${id} as "${actions.add_tag}"`);
+            }
+
+            // Moving and archiving both change the folder, so a move wins
+            if (actions.move_to_folder) {
+                const [folderId] = await this.client.resolveFolderIds([actions.move_to_folder]);
+                if (folderId === "archive") {
+                    await this.client.archiveBookmark(id);
+                    console.log(`[instapaper] Archived ${id}`);
+                } else if (folderId && /^\d+$/.test(folderId)) {
+                    await this.client.moveBookmark(id, folderId);
+                    console.log(`[instapaper] Moved ${id} to folder ${folderId}`);
+                } else {
+                    console.warn(`[instapaper] Cannot move ${id} to "${actions.move_to_folder}"`);
+                }
+            } else if (actions.archive) {
+                await this.client.archiveBookmark(id);
+                console.log(`[instapaper] Archived ${id}`);
+            }
+        } catch (err) {
+            console.error(`[instapaper] Post-processing failed for bookmark ${id}:`, err);
+        }
+    }
+
+    /**
+     * Tag a bookmark that failed processing so the failure is visible in Instapaper.
+     */
+    async onFailed(article: SourceArticle): Promise<void> {
+        const failureTag = this.config.instapaper.post_process?.failure_tag;
+        const bookmark = this.bookmarks.get(article.id);
+        if (!failureTag || !bookmark) return;
+
+        const tags = (bookmark.tags ?? []).map((t) => t.name);
+        if (tags.includes(failureTag)) return;
+
+        try {
+            await this.client.addBookmarkTags(bookmark, [failureTag]);
+            console.log(`[instapaper] Tagged ${bookmark.bookmark_id} as "${failureTag}"`);
+        } catch (err) {
+            console.error(`[instapaper] Failed to tag bookmark ${bookmark.bookmark_id} as failed:`, err);
+        }
+    }
+
+    /**
+     * Fetch one bookmark list. In incremental mode the previous copy from state
+     * is sent along so Instapaper only returns what changed since the last run.
+     */
+    private async fetchBookmarkList(
+        options?: BookmarkListOptions
+    ): Promise<BookmarkSyncResult> {
+        if (!this.config.instapaper.incremental_sync) {
+            return this.client.syncBookmarks([], options);
+        }
+
+        const key = options?.folderId
+            ? `folder:${options.folderId}`
+            : options?.tag
+                ? `tag:${options.tag}`
+                : "all";
+        const known = this.state.getBookmarkList(key)?.bookmarks ?? [];
+
+        const result = await this.client.syncBookmarks(known, options);
+        console.log(
+            `[instapaper] Synced ${key}: ${result.changed} new/changed, ` +
+            `${result.deletedIds.length} removed, ${result.bookmarks.length} total`
+        );
+
+        this.state.setBookmarkList(key, result.bookmarks);
+        return result;
+    }
+}
+
+function toArticleId(bookmarkId: number): string {
+    return `${INSTAPAPER_NAMESPACE}:${bookmarkId}`;
+}
+
+function toBookmarkId(articleId: string): string {
+    return articleId.slice(INSTAPAPER_NAMESPACE.length + 1);
+}
@@ -3,18 +3,108 @@ import { createHmac } from "node:crypto";
 import type {
     InstapaperConfig,
     InstapaperBookmark,
+    InstapaperFolder,
     OAuthToken,
 } from "./types.js";
+import { loadToken, saveToken } from "./token-store.js";
 
-const BASE_URL = "https://www.instapaper.com";
+const DEFAULT_BASE_URL = "https://www.instapaper.com";
+
+/** Maximum number of bookmarks the list endpoint returns per request. */
+const PAGE_SIZE = 500;
+
+/** Safety stop for paging, i.e. 50 000 bookmarks per list. */
+const MAX_PAGES = 100;
+
+/** Request attempts, timeout and backoff for API calls. */
+const MAX_ATTEMPTS = 4;
+const REQUEST_TIMEOUT_MS = 30_000;
+const RETRY_BASE_DELAY_MS = 1000;
+const MAX_RETRY_AFTER_MS = 60_000;
+
+/** Instapaper API error codes with special handling. */
+const ERROR_RATE_LIMITED = 1040;
+const ERROR_PREMIUM_REQUIRED = 1041;
+const ERROR_APP_SUSPENDED = 1042;
+const ERROR_INVALID_BOOKMARK = 1241;
+
+/** Folder ids the API accepts without them appearing in folders/list. */
+const BUILTIN_FOLDERS = ["unread", "starred", "archive"];
+
+export interface BookmarkListOptions {
+    folderId?: string;
+    tag?: string;
+}
+
+export interface BookmarkSyncResult {
+    bookmarks: InstapaperBookmark[];
+    changed: number;      // new or updated bookmarks received from the API
+    deletedIds: number[]; // known bookmarks that no longer match the list
+    complete: boolean;    // false when paging stopped before the end of the list
+}
+
+// ── Errors ──
+
+export class InstapaperError extends Error {
+    readonly status: number | null;
+    readonly code: number | null; // Instapaper error_code, if any
+
+    constructor(message: string, status: number | null = null, code: number | null = null) {
+        super(message);
+        this.name = "InstapaperError";
+        this.status = status;
+        this.code = code;
+    }
+}
+
+/** Credentials or token rejected, or the account/app can't use the API. */
+export class InstapaperAuthError extends InstapaperError {
+    constructor(message: string, status: number | null = null, code: number | null = null) {
+        super(message, status, code);
+        this.name = "InstapaperAuthError";
+    }
+}
+
+/** Rate limit still exceeded after retrying. */
+export class InstapaperRateLimitError extends InstapaperError {
+    readonly retryAfterMs: number | null;
+
+    constructor(
+        message: string,
+        status: number | null = null,
+        code: number | null = null,
+        retryAfterMs: number | null = null
+    ) {
+        super(message, status, code);
+        this.name = "InstapaperRateLimitError";
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+/** The bookmark id is invalid or the bookmark no longer exists. */
+export class InstapaperBookmarkError extends InstapaperError {
+    constructor(message: string, status: number | null = null, code: number | null = null) {
+        super(message, status, code);
+        this.name = "InstapaperBookmarkError";
+    }
+}
 
 export class InstapaperClient {
     private oauth: OAuth;
     private token: OAuthToken | null = null;
+    private folders: InstapaperFolder[] | null = null;
     private config: InstapaperConfig;
+    private dataDir: string | null;
+    private baseUrl: string;
 
-    constructor(config: InstapaperConfig) {
+    /**
+     * @param dataDir Where the OAuth token is persisted. Without it the
+     *                token only lives as long as this client.
+     */
+    constructor(config: InstapaperConfig, dataDir?: string) {
         this.config = config;
+        this.dataDir = dataDir ?? null;
+        this.baseUrl = (config.api_base || DEFAULT_BASE_URL).replace(/\/$/, "");
         this.oauth = new OAuth({
             consumer: {
                 key: config.consumer_key,
@@ -28,42 +118,77 @@ export class InstapaperClient {
     }
 
     /**
-     * Authenticate via xAuth to obtain an access token.
-     * Instapaper uses xAuth (username/password → OAuth token).
+     * Make sure an access token is available: the one already in memory,
+     * the stored one from a previous connect, or — for configs that still
+     * carry a password — a fresh xAuth exchange whose token is then stored.
      */
     async authenticate(): Promise<void> {
         if (this.token) return;
 
-        const url = `${BASE_URL}/api/1/oauth/access_token`;
+        if (this.dataDir) {
+            this.token = loadToken(this.dataDir);
+            if (this.token) return;
+        }
+
+        if (!this.config.username || !this.config.password) {
+            throw new Error(
+                "Instapaper is not connected. Connect it from the admin UI."
+            );
+        }
+
+        this.token = await this.exchangeCredentials(
+            this.config.username,
+            this.config.password
+        );
+        if (this.dataDir) {
+            saveToken(this.dataDir, this.config.username, this.token);
+        }
+    }
+
+    /**
+     * One-time connect: trade username/password for an OAuth token via
+     * xAuth and store it, so the password never has to be kept.
+     */
+    async connect(username: string, password: string): Promise<void> {
+        if (!this.dataDir) {
+            throw new Error("Cannot store the Instapaper token without a data directory");
+        }
+
+        this.token = await this.exchangeCredentials(username, password);
+        saveToken(this.dataDir, username, this.token);
+    }
+
+    /**
+     * Exchange credentials for an access token via xAuth.
+     * Instapaper uses xAuth (username/password → OAuth token).
+     */
+    private async exchangeCredentials(
+        username: string,
+        password: string
+    ): Promise<OAuthToken> {
+        const url = `${this.baseUrl}/api/1/oauth/access_token`;
         const data = {
-            x_auth_username: this.config.username,
-            x_auth_password: this.config.password,
+            x_auth_username: username,
+            x_auth_password: password,
             x_auth_mode: "client_auth",
         };
-        const requestData = { url, method: "POST" as const, data };
-        const headers = this.oauth.toHeader(this.oauth.authorize(requestData));
-
-        const body = new URLSearchParams(data);
-
-        const response = await fetch(url, {
-            method: "POST",
-            headers: {
-                ...headers,
-                "Content-Type": "application/x-www-form-urlencoded",
-            },
-            body: body.toString(),
-        });
 
-        if (!response.ok) {
-            const text = await response.text();
-            console.error(`[instapaper] Auth failed (${response.status}):`, text);
-            throw new Error("Instapaper authentication failed");
+        let response: Response;
+        try {
+            response = await this.signedRequest(url, data, null);
+        } catch (err) {
+            // xAuth answers bad credentials with a plain 4xx
+            if (err instanceof InstapaperError && !(err instanceof InstapaperRateLimitError) &&
+                err.status !== null && err.status < 500) {
+                throw new InstapaperAuthError("Instapaper authentication failed", err.status, err.code);
+            }
+            throw err;
         }
 
         const responseText = await response.text();
         const params = new URLSearchParams(responseText);
 
-        this.token = {
+        return {
             token: params.get("oauth_token") ?? "",
             tokenSecret: params.get("oauth_token_secret") ?? "",
         };
@@ -72,28 +197,83 @@ export class InstapaperClient {
     /**
      * Get bookmarks, optionally filtered by folder_id or tag.
      * Note: tag is only used if folder_id is NOT specified.
+     * Pages past the API's 500-item limit by sending the ids already
+     * received as `have`, until a short page signals the end of the list.
      */
-    async getBookmarks(options?: {
-        folderId?: string;
-        tag?: string;
-    }): Promise<InstapaperBookmark[]> {
+    async getBookmarks(options?: BookmarkListOptions): Promise<InstapaperBookmark[]> {
+        const { bookmarks } = await this.syncBookmarks([], options);
+        return bookmarks;
+    }
+
+    /**
+     * Incrementally sync a bookmark list against a locally known copy.
+     * Known bookmarks are sent as `have` (id:hash pairs), so the API only
+     * returns bookmarks that are new or changed, plus the ids of known
+     * bookmarks that are gone. Returns the merged, current list, which is
+     * incomplete when paging stopped at MAX_PAGES or on a repeated page.
+     */
+    async syncBookmarks(
+        known: InstapaperBookmark[],
+        options?: BookmarkListOptions
+    ): Promise<BookmarkSyncResult> {
         await this.authenticate();
 
-        const url = `${BASE_URL}/api/1/bookmarks/list`;
-        const params: Record<string, string> = { limit: "500" };
+        const url = `${this.baseUrl}/api/1/bookmarks/list`;
+        const params: Record<string, string> = { limit: String(PAGE_SIZE) };
         if (options?.folderId) {
             params.folder_id = options.folderId;
         } else if (options?.tag) {
             params.tag = options.tag;
         }
 
-        const response = await this.authedRequest(url, params);
-        const data = (await response.json()) as Array<
-            InstapaperBookmark & { type?: string }
-        >;
+        const merged = new Map<number, InstapaperBookmark>();
+        for (const bookmark of known) {
+            merged.set(bookmark.bookmark_id, bookmark);
+        }
+
+        const deletedIds = new Set<number>();
+        let changed = 0;
+        let complete = false;
 
-        // The API returns a mix of types; filter to bookmarks only
-        return data.filter((item) => item.type === "bookmark");
+        for (let page = 0; page < MAX_PAGES; page++) {
+            const have = [...merged.values()]
+                .map((b) => (b.hash ? `${b.bookmark_id}:${b.hash}` : String(b.bookmark_id)))
+                .join(",");
+
+            const response = await this.authedRequest(
+                url,
+                have ? { ...params, have } : params
+            );
+            const result = parseBookmarkList(await response.json());
+
+            for (const id of result.deleteIds) {
+                merged.delete(id);
+                deletedIds.add(id);
+            }
+
+            let fresh = 0;
+            for (const bookmark of result.bookmarks) {
+                const previous = merged.get(bookmark.bookmark_id);
+                if (!previous || previous.hash !== bookmark.hash) fresh++;
+                merged.set(bookmark.bookmark_id, bookmark);
+            }
+            changed += fresh;
+
+            // A short page is the last one; a page with nothing new means the
+            // API ignored `have` and would keep returning the same items.
+            if (result.bookmarks.length < PAGE_SIZE) {
+                complete = true;
+                break;
+            }
+            if (fresh === 0) break;
+        }
+
+        return {
+            bookmarks: [...merged.values()],
+            changed,
+            deletedIds: [...deletedIds],
+            complete,
+        };
     }
 
     /**
@@ -102,58 +282,257 @@ export class InstapaperClient {
     async getBookmarkText(bookmarkId: string): Promise<string> {
         await this.authenticate();
 
-        const url = `${BASE_URL}/api/1/bookmarks/get_text`;
+        const url = `${this.baseUrl}/api/1/bookmarks/get_text`;
         const response = await this.authedRequest(url, { bookmark_id: bookmarkId });
         return response.text();
     }
 
     /**
-     * List all folders (used to map tag names → folder IDs).
+     * Move a bookmark to the archive folder.
      */
-    async listFolders(): Promise<Array<{ folder_id: number; title: string }>> {
+    async archiveBookmark(bookmarkId: string): Promise<void> {
         await this.authenticate();
 
-        const url = `${BASE_URL}/api/1/folders/list`;
+        const url = `${this.baseUrl}/api/1/bookmarks/archive`;
+        await this.authedRequest(url, { bookmark_id: bookmarkId });
+    }
+
+    /**
+     * Move a bookmark to a user-created folder.
+     */
+    async moveBookmark(bookmarkId: string, folderId: string): Promise<void> {
+        await this.authenticate();
+
+        const url = `${this.baseUrl}/api/1/bookmarks/move`;
+        await this.authedRequest(url, { bookmark_id: bookmarkId, folder_id: folderId });
+    }
+
+    /**
+     * Add tags to a bookmark. The API has no call for changing tags, so
+     * this saves the bookmark URL again with bookmarks/add. Whether that
+     * merges or replaces the tags is not documented, so the bookmark's
+     * current tags are always sent along and no tag is ever removed.
+     * Saving again may also put the bookmark back in Unread; archive or
+     * move it afterwards.
+     */
+    async addBookmarkTags(
+        bookmark: Pick<InstapaperBookmark, "url" | "tags">,
+        tags: string[]
+    ): Promise<void> {
+        await this.authenticate();
+
+        const current = (bookmark.tags ?? []).map((t) => t.name);
+        const url = `${this.baseUrl}/api/1.1/bookmarks/add`;
+        await this.authedRequest(url, {
+            url: bookmark.url,
+            tags: JSON.stringify([...new Set([...current, ...tags])].map((name) => ({ name }))),
+        });
+    }
+
+    /**
+     * List all user-created folders.
+     */
+    async listFolders(): Promise<InstapaperFolder[]> {
+        await this.authenticate();
+
+        const url = `${this.baseUrl}/api/1/folders/list`;
         const response = await this.authedRequest(url);
-        return response.json() as Promise<
-            Array<{ folder_id: number; title: string }>
+        const data = (await response.json()) as Array<
+            InstapaperFolder & { type?: string }
         >;
+
+        return data.filter((item) => !item.type || item.type === "folder");
+    }
+
+    /**
+     * Resolve folder names or IDs to folder IDs usable with getBookmarks.
+     * Numeric IDs and the built-in folders pass through unchanged; names
+     * are matched case-insensitively against folder titles and slugs.
+     * Unknown names are logged and skipped.
+     */
+    async resolveFolderIds(folders: string[]): Promise<string[]> {
+        const ids: string[] = [];
+
+        for (const raw of folders) {
+            const entry = raw.trim();
+            if (!entry) continue;
+
+            if (/^\d+$/.test(entry) || BUILTIN_FOLDERS.includes(entry.toLowerCase())) {
+                ids.push(entry.toLowerCase());
+                continue;
+            }
+
+            this.folders ??= await this.listFolders();
+            const needle = entry.toLowerCase();
+            const match = this.folders.find(
+                (f) => f.title.toLowerCase() === needle || f.slug?.toLowerCase() === needle
+            );
+
+            if (match) {
+                ids.push(String(match.folder_id));
+            } else {
+                console.warn(`[instapaper] Folder "${entry}" not found, skipping`);
+            }
+        }
+
+        return [...new Set(ids)];
     }
 
     private async authedRequest(
         url: string,
         params?: Record<string, string>
     ): Promise<Response> {
-        const requestData = {
-            url,
-            method: "POST" as const,
-            data: params ?? {},
-        };
-        const tokenData = this.token
-            ? { key: this.token.token, secret: this.token.tokenSecret }
-            : undefined;
+        return this.signedRequest(url, params ?? {}, this.token);
+    }
 
-        const headers = this.oauth.toHeader(
-            this.oauth.authorize(requestData, tokenData)
-        );
+    /**
+     * POST an OAuth-signed request. Network errors, timeouts, 429s and 5xx
+     * responses are retried with exponential backoff, honouring Retry-After;
+     * everything else is thrown right away as a typed InstapaperError.
+     */
+    private async signedRequest(
+        url: string,
+        params: Record<string, string>,
+        token: OAuthToken | null
+    ): Promise<Response> {
+        const endpoint = url.replace(`${this.baseUrl}/api/`, "");
+        let lastError: InstapaperError | null = null;
 
-        const body = params ? new URLSearchParams(params).toString() : undefined;
+        for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+            // Sign every attempt: the nonce and timestamp must be fresh
+            const requestData = { url, method: "POST" as const, data: params };
+            const tokenData = token
+                ? { key: token.token, secret: token.tokenSecret }
+                : undefined;
+            const headers = this.oauth.toHeader(
+                this.oauth.authorize(requestData, tokenData)
+            );
 
-        const response = await fetch(url, {
-            method: "POST",
-            headers: {
-                ...headers,
-                "Content-Type": "application/x-www-form-urlencoded",
-            },
-            body,
-        });
+            let delay = RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
+
+            try {
+                const response = await fetch(url, {
+                    method: "POST",
+                    headers: {
+                        ...headers,
+                        "Content-Type": "application/x-www-form-urlencoded",
+                    },
+                    body: new URLSearchParams(params).toString(),
+                    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+                });
+
+                if (response.ok) return response;
+
+                const text = await response.text();
+                const error = toInstapaperError(
+                    response.status,
+                    text,
+                    response.headers.get("retry-after")
+                );
+                console.error(`[instapaper] API error on ${endpoint} (${response.status}):`, text);
 
-        if (!response.ok) {
-            const text = await response.text();
-            console.error(`[instapaper] API error (${response.status}):`, text);
-            throw new Error(`Instapaper API request failed (${response.status})`);
+                const retryable = error instanceof InstapaperRateLimitError ||
+                    response.status >= 500 || error.code === 1500;
+                if (!retryable) throw error;
+
+                if (error instanceof InstapaperRateLimitError && error.retryAfterMs !== null) {
+                    // Waiting longer than this belongs to the next scheduled run
+                    if (error.retryAfterMs > MAX_RETRY_AFTER_MS) throw error;
+                    delay = error.retryAfterMs;
+                }
+                lastError = error;
+            } catch (err) {
+                if (err instanceof InstapaperError) throw err;
+
+                const cause = (err as any)?.cause;
+                const reason = `${(err as Error).message}${cause ? ` (cause: ${cause.code ?? cause.message})` : ""}`;
+                console.error(`[instapaper] Request to ${endpoint} failed: ${reason}`);
+                lastError = new InstapaperError(`Instapaper request failed: ${reason}`);
+            }
+
+            if (attempt < MAX_ATTEMPTS - 1) {
+                console.warn(`[instapaper] Retrying ${endpoint} in ${delay}ms (attempt ${attempt + 2}/${MAX_ATTEMPTS})`);
+                await new Promise((r) => setTimeout(r, delay));
+            }
         }
 
-        return response;
+        throw lastError!;
     }
 }
+
+/**
+ * Map a failed response to a typed error. Instapaper reports errors as
+ * `[{"type":"error","error_code":1241,"message":"..."}]`.
+ */
+function toInstapaperError(
+    status: number,
+    body: string,
+    retryAfter: string | null
+): InstapaperError {
+    let code: number | null = null;
+    let message = `Instapaper API request failed (${status})`;
+
+    try {
+        const data = JSON.parse(body) as unknown;
+        const item = (Array.isArray(data) ? data[0] : data) as
+            { error_code?: number; message?: string } | undefined;
+        if (item?.error_code !== undefined) {
+            code = Number(item.error_code);
+            message = `Instapaper API error ${code}: ${item.message ?? "unknown error"}`;
+        }
+    } catch {
+        // Not JSON; keep the generic message
+    }
+
+    if (status === 429 || code === ERROR_RATE_LIMITED) {
+        return new InstapaperRateLimitError(message, status, code, parseRetryAfter(retryAfter));
+    }
+    if (code === ERROR_INVALID_BOOKMARK) {
+        return new InstapaperBookmarkError(message, status, code);
+    }
+    if (status === 401 || code === ERROR_PREMIUM_REQUIRED || code === ERROR_APP_SUSPENDED ||
+        (status === 403 && code === null)) {
+        return new InstapaperAuthError(message, status, code);
+    }
+    return new InstapaperError(message, status, code);
+}
+
+/** Retry-After is either delta-seconds or an HTTP date. */
+function parseRetryAfter(value: string | null): number | null {
+    if (!value) return null;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Normalize a bookmarks/list response. API v1 returns a flat array mixing
+ * user, bookmark and meta items; v1.1 returns an object with separate keys.
+ */
+function parseBookmarkList(data: unknown): {
+    bookmarks: InstapaperBookmark[];
+    deleteIds: number[];
+} {
+    type Item = InstapaperBookmark & { delete_ids?: unknown };
+    const items: Item[] = Array.isArray(data)
+        ? (data as Item[])
+        : ((data as { bookmarks?: Item[] })?.bookmarks ?? []);
+
+    const rawDeleteIds: unknown[] = Array.isArray(data)
+        ? items.flatMap((item) => (item.delete_ids !== undefined ? [item.delete_ids] : []))
+        : [(data as { delete_ids?: unknown })?.delete_ids];
+
+    const deleteIds = rawDeleteIds
+        .flatMap((value) =>
+            Array.isArray(value) ? value : String(value ?? "").split(",")
+        )
+        .map((value) => Number(value))
+        .filter((id) => Number.isInteger(id) && id > 0);
+
+    // The API returns a mix of types; filter to bookmarks only
+    return {
+        bookmarks: items.filter((item) => item.type === "bookmark"),
+        deleteIds,
+    };
+}
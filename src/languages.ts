@@ -0,0 +1,166 @@
+/**
+ * languages.ts — The languages Instapod knows by name and code.
+ *
+ * A language can be given as an ISO 639-1 code ("fi"), an ISO 639-3 code
+ * ("fin", as returned by language detection), a BCP 47 tag ("fi-FI") or
+ * its name in any of the listed languages ("Finnish", "finska", "suomi").
+ * Names come from the runtime's Intl data, so they don't need listing.
+ */
+
+export interface Language {
+    code: string;      // ISO 639-1
+    aliases: string[]; // other ISO 639-1 codes, e.g. "no" for Norwegian Bokmål
+    iso3: string[];    // ISO 639-3 codes, the first the main one
+    locale: string;    // BCP 47, for formatting dates
+}
+
+type Entry = [code: string, iso3: string[], locale: string, aliases?: string[]];
+
+const ENTRIES: Entry[] = [
+    ["sv", ["swe"], "sv-SE"],
+    ["en", ["eng"], "en-US"],
+    ["de", ["deu", "ger"], "de-DE"],
+    ["fr", ["fra", "fre"], "fr-FR"],
+    ["es", ["spa"], "es-ES"],
+    ["nb", ["nob", "nor"], "nb-NO", ["no"]],
+    ["nn", ["nno"], "nn-NO"],
+    ["da", ["dan"], "da-DK"],
+    ["fi", ["fin"], "fi-FI"],
+    ["is", ["isl", "ice"], "is-IS"],
+    ["it", ["ita"], "it-IT"],
+    ["pt", ["por"], "pt-PT"],
+    ["nl", ["nld", "dut"], "nl-NL"],
+    ["et", ["est", "ekk"], "et-EE"],
+    ["lv", ["lav", "lvs"], "lv-LV"],
+    ["lt", ["lit"], "lt-LT"],
+    ["pl", ["pol"], "pl-PL"],
+    ["cs", ["ces", "cze"], "cs-CZ"],
+    ["sk", ["slk", "slo"], "sk-SK"],
+    ["sl", ["slv"], "sl-SI"],
+    ["hr", ["hrv"], "hr-HR"],
+    ["sr", ["srp"], "sr-RS"],
+    ["bs", ["bos"], "bs-BA"],
+    ["hu", ["hun"], "hu-HU"],
+    ["ro", ["ron", "rum"], "ro-RO"],
+    ["bg", ["bul"], "bg-BG"],
+    ["mk", ["mkd", "mac"], "mk-MK"],
+    ["sq", ["sqi", "als", "alb"], "sq-AL"],
+    ["el", ["ell", "gre"], "el-GR"],
+    ["ru", ["rus"], "ru-RU"],
+    ["uk", ["ukr"], "uk-UA"],
+    ["be", ["bel"], "be-BY"],
+    ["ca", ["cat"], "ca-ES"],
+    ["eu", ["eus", "baq"], "eu-ES"],
+    ["gl", ["glg"], "gl-ES"],
+    ["ga", ["gle"], "ga-IE"],
+    ["cy", ["cym", "wel"], "cy-GB"],
+    ["af", ["afr"], "af-ZA"],
+    ["tr", ["tur"], "tr-TR"],
+    ["az", ["aze", "azj"], "az-AZ"],
+    ["kk", ["kaz"], "kk-KZ"],
+    ["uz", ["uzb", "uzn"], "uz-UZ"],
+    ["ka", ["kat", "geo"], "ka-GE"],
+    ["hy", ["hye", "arm"], "hy-AM"],
+    ["ar", ["ara", "arb"], "ar-SA"],
+    ["he", ["heb"], "he-IL", ["iw"]],
+    ["fa", ["fas", "pes", "per"], "fa-IR"],
+    ["hi", ["hin"], "hi-IN"],
+    ["ur", ["urd"], "ur-PK"],
+    ["bn", ["ben"], "bn-BD"],
+    ["mr", ["mar"], "mr-IN"],
+    ["ta", ["tam"], "ta-IN"],
+    ["te", ["tel"], "te-IN"],
+    ["ne", ["nep", "npi"], "ne-NP"],
+    ["zh", ["zho", "cmn", "chi"], "zh-CN"],
+    ["ja", ["jpn"], "ja-JP"],
+    ["ko", ["kor"], "ko-KR"],
+    ["th", ["tha"], "th-TH"],
+    ["vi", ["vie"], "vi-VN"],
+    ["id", ["ind"], "id-ID", ["in"]],
+    ["ms", ["msa", "zlm", "may"], "ms-MY"],
+    ["tl", ["tgl", "fil"], "fil-PH", ["fil"]],
+    ["sw", ["swa", "swh"], "sw-KE"],
+];
+
+export const LANGUAGES: Language[] = ENTRIES.map(([code, iso3, locale, aliases = []]) => ({
+    code,
+    aliases,
+    iso3,
+    locale,
+}));
+
+let byKey: Map<string, Language> | null = null;
+
+/** Every code and name, in every listed language, mapped to its language. */
+function index(): Map<string, Language> {
+    if (byKey) return byKey;
+    byKey = new Map();
+
+    for (const language of LANGUAGES) {
+        for (const code of [language.code, ...language.aliases, ...language.iso3]) {
+            byKey.set(code, language);
+        }
+    }
+    for (const displayLocale of LANGUAGES.map((l) => l.code)) {
+        let names: Intl.DisplayNames;
+        try {
+            names = new Intl.DisplayNames([displayLocale], { type: "language", fallback: "none" });
+        } catch {
+            continue; // runtime without data for this locale
+        }
+        for (const language of LANGUAGES) {
+            for (const code of [language.code, ...language.aliases]) {
+                const name = names.of(code);
+                if (!name) continue;
+                for (const key of [normalizeKey(name), stripAccents(normalizeKey(name))]) {
+                    if (!byKey.has(key)) byKey.set(key, language);
+                }
+            }
+        }
+    }
+    return byKey;
+}
+
+/**
+ * Look a language up by name, ISO 639-1/639-3 code or BCP 47 tag. Null
+ * for languages that aren't listed.
+ */
+export function findLanguage(nameOrCode: string | null | undefined): Language | null {
+    const key = normalizeKey(nameOrCode ?? "");
+    if (!key) return null;
+
+    const languages = index();
+    const found = languages.get(key) ?? languages.get(stripAccents(key));
+    if (found) return found;
+
+    // A BCP 47 tag such as "sv-SE" or "pt_BR"
+    const primary = key.match(/^([a-z]{2,3})[-_][a-z0-9-_]+$/)?.[1];
+    return primary ? languages.get(primary) ?? null : null;
+}
+
+/** All names and codes a language is known by, e.g. for client-side lookups. */
+export function namesOf(language: Language): string[] {
+    return [...index()].filter(([, l]) => l === language).map(([key]) => key);
+}
+
+/** The language's name in another language, e.g. ("fi", "sv") → "finska". */
+export function languageName(language: Language, displayLocale = "en"): string {
+    try {
+        return new Intl.DisplayNames([displayLocale], { type: "language" }).of(language.code) ?? language.code;
+    } catch {
+        return language.code;
+    }
+}
+
+/** Whether an ISO 639-3 code from language detection is the given target language. */
+export function isLanguage(iso3: string, targetLanguage: string): boolean {
+    return findLanguage(targetLanguage)?.iso3.includes(iso3) ?? false;
+}
+
+function normalizeKey(value: string): string {
+    return value.trim().toLowerCase();
+}
+
+function stripAccents(value: string): string {
+    return value.normalize("NFD").replace(/\p{M}/gu, "");
+}
@@ -0,0 +1,136 @@
+/**
+ * mp3.ts — Measure MP3 audio from its frame headers and write ID3v2.3
+ * chapter tags (CHAP/CTOC) into the file.
+ */
+import type { Chapter } from "./types.js";
+
+/** Layer III bitrates in kbit/s, by MPEG-1 / MPEG-2 and 2.5 and bitrate index. */
+const BITRATES = {
+    mpeg1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+    mpeg2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+/** Sample rates by version bits (0 = MPEG-2.5, 2 = MPEG-2, 3 = MPEG-1). */
+const SAMPLE_RATES: Record<number, number[]> = {
+    0: [11025, 12000, 8000],
+    2: [22050, 24000, 16000],
+    3: [44100, 48000, 32000],
+};
+
+/** ID3v2 allows at most 255 entries in a table of contents. */
+const MAX_CHAPTERS = 255;
+
+/**
+ * Duration of MP3 audio in milliseconds, from the Layer III frames it
+ * contains. Bytes that are not a frame (tags, garbage) are skipped.
+ */
+export function mp3DurationMs(data: Buffer): number {
+    let offset = id3TagLength(data);
+    let seconds = 0;
+
+    while (offset + 4 <= data.length) {
+        const frame = parseFrameHeader(data, offset);
+        if (!frame) {
+            offset++;
+            continue;
+        }
+        seconds += frame.samples / frame.sampleRate;
+        offset += frame.length;
+    }
+
+    return Math.round(seconds * 1000);
+}
+
+/**
+ * Return the MP3 with an ID3v2.3 tag holding the chapters (replacing any
+ * ID3v2 tag already at the start). Chapters end where the next begins.
+ */
+export function withChapters(mp3: Buffer, chapters: Chapter[], durationMs: number): Buffer {
+    const list = chapters.slice(0, MAX_CHAPTERS);
+    const ids = list.map((_, i) => `chp${i}`);
+
+    const chapFrames = list.map((chapter, i) => {
+        const start = Math.round(chapter.start * 1000);
+        const end = i + 1 < list.length ? Math.round(list[i + 1].start * 1000) : Math.max(durationMs, start);
+        const times = Buffer.alloc(16);
+        times.writeUInt32BE(start, 0);
+        times.writeUInt32BE(end, 4);
+        times.writeUInt32BE(0xffffffff, 8);  // no byte offsets
+        times.writeUInt32BE(0xffffffff, 12);
+        return frame("CHAP", Buffer.concat([
+            Buffer.from(`${ids[i]}\0`, "latin1"),
+            times,
+            textFrame("TIT2", chapter.title),
+        ]));
+    });
+
+    const toc = frame("CTOC", Buffer.concat([
+        Buffer.from("toc\0", "latin1"),
+        Buffer.from([0x03, list.length]), // top level, ordered
+        ...ids.map((id) => Buffer.from(`${id}\0`, "latin1")),
+    ]));
+
+    const frames = Buffer.concat([toc, ...chapFrames]);
+    const header = Buffer.from([0x49, 0x44, 0x33, 0x03, 0x00, 0x00, 0, 0, 0, 0]); // "ID3" v2.3
+    writeSynchsafe(header, 6, frames.length);
+
+    return Buffer.concat([header, frames, mp3.subarray(id3TagLength(mp3))]);
+}
+
+interface FrameHeader {
+    length: number; // bytes, including the header
+    samples: number;
+    sampleRate: number;
+}
+
+function parseFrameHeader(data: Buffer, offset: number): FrameHeader | null {
+    if (data[offset] !== 0xff || (data[offset + 1] & 0xe0) !== 0xe0) return null;
+
+    const version = (data[offset + 1] >> 3) & 0x03;
+    const layer = (data[offset + 1] >> 1) & 0x03;
+    const bitrateIndex = data[offset + 2] >> 4;
+    const sampleRateIndex = (data[offset + 2] >> 2) & 0x03;
+    const padding = (data[offset + 2] >> 1) & 0x01;
+
+    if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+        return null;
+    }
+
+    const bitrate = (version === 3 ? BITRATES.mpeg1 : BITRATES.mpeg2)[bitrateIndex] * 1000;
+    const sampleRate = SAMPLE_RATES[version][sampleRateIndex];
+    const samples = version === 3 ? 1152 : 576;
+    const length = Math.floor((samples / 8) * bitrate / sampleRate) + padding;
+
+    return { length, samples, sampleRate };
+}
+
+/** Length of an ID3v2 tag at the start of the data, 0 if there is none. */
+function id3TagLength(data: Buffer): number {
+    if (data.length < 10 || data.toString("latin1", 0, 3) !== "ID3") return 0;
+    const size = (data[6] << 21) | (data[7] << 14) | (data[8] << 7) | data[9];
+    const footer = data[5] & 0x10 ? 10 : 0;
+    return 10 + size + footer;
+}
+
+function frame(id: string, body: Buffer): Buffer {
+    const header = Buffer.alloc(10);
+    header.write(id, 0, "latin1");
+    header.writeUInt32BE(body.length, 4);
+    return Buffer.concat([header, body]);
+}
+
+/** A text frame in UTF-16 with BOM, the Unicode encoding ID3v2.3 supports. */
+function textFrame(id: string, text: string): Buffer {
+    return frame(id, Buffer.concat([
+        Buffer.from([0x01, 0xff, 0xfe]),
+        Buffer.from(text, "utf16le"),
+        Buffer.from([0x00, 0x00]),
+    ]));
+}
+
+function writeSynchsafe(buffer: Buffer, offset: number, value: number): void {
+    buffer[offset] = (value >> 21) & 0x7f;
+    buffer[offset + 1] = (value >> 14) & 0x7f;
+    buffer[offset + 2] = (value >> 7) & 0x7f;
+    buffer[offset + 3] = value & 0x7f;
+}
@@ -0,0 +1,544 @@
+/**
+ * normalizer.ts — Rewrite text so the TTS voice reads it the way a person
+ * would. Runs between translation and synthesis: URLs and emoji are
+ * dropped, the pronunciation lexicon is applied and numbers, dates, times,
+ * units, currency amounts, version numbers and abbreviations are spelled
+ * out in the target language.
+ */
+import type { LexiconEntry, NormalizationConfig } from "./types.js";
+import { joinSpeech, phonemeMarker, splitSpeech } from "./speech.js";
+import { findLanguage } from "./languages.js";
+
+/** Units and currencies: what to say for exactly one, and the plural. */
+type Forms = [string, string];
+
+interface Currency {
+    major: Forms;
+    minor?: Forms;
+}
+
+/** How one language spells things out. */
+interface LanguageRules {
+    number: string;    // regex source for a number, with thousands separators
+    decimal: string;   // decimal separator
+    point: string;     // the word for the decimal separator
+    and: string;
+    minus: string;
+    dot: string;       // between the parts of a version number
+    cardinal(n: number): string;
+    ordinal: { pattern: RegExp; spell(n: number): string };
+    year(n: number): string | null;
+    fraction(digits: string): string;
+    date(year: string, month: number, day: number): string;
+    time(hours: number, minutes: number): string;
+    clock?: RegExp; // times written with a dot after "kl."
+    scales: string[];
+    units: Record<string, Forms>;
+    currencies: Record<string, Currency>;
+    abbreviations: Record<string, string>;
+}
+
+const BOUNDARY_BEFORE = "(?<![\\p{L}\\p{N}])";
+const BOUNDARY_AFTER = "(?![\\p{L}\\p{N}])";
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s]+?(?=[.,;:!?)\]"”']*(?:\s|$))/giu;
+const EMOJI_PATTERN =
+    /(?:\p{Extended_Pictographic}|\p{Regional_Indicator})(?:\u{FE0F}|\u{20E3}|[\u{1F3FB}-\u{1F3FF}]|\u{200D}\p{Extended_Pictographic})*/gu;
+const ISO_DATE_PATTERN = /(?<!\d)(\d{4})-(\d{2})-(\d{2})(?!\d)/g;
+const TIME_PATTERN = /(?<![\d:.])([01]?\d|2[0-3]):([0-5]\d)(?![\d:])/g;
+const VERSION_PATTERN =
+    /(?<![\p{L}\p{N}.])(?:v(?=\d)|(?<=\b(?:version|versionen)\s))(\d+(?:\.\d+)+)(?!\.?\d)|(?<![\p{L}\p{N}.])(\d+\.\d+\.\d{1,3})(?!\.?\d)/giu;
+
+// ── English ──
+
+const EN_ONES = [
+    "zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine",
+    "ten", "eleven", "twelve", "thirteen", "fourteen", "fifteen", "sixteen",
+    "seventeen", "eighteen", "nineteen",
+];
+const EN_TENS = ["", "", "twenty", "thirty", "forty", "fifty", "sixty", "seventy", "eighty", "ninety"];
+const EN_SCALES: Array<[number, string]> = [
+    [1e12, "trillion"], [1e9, "billion"], [1e6, "million"], [1e3, "thousand"],
+];
+const EN_MONTHS = [
+    "January", "February", "March", "April", "May", "June", "July", "August",
+    "September", "October", "November", "December",
+];
+const EN_ORDINAL_WORDS: Record<string, string> = {
+    one: "first", two: "second", three: "third", five: "fifth",
+    eight: "eighth", nine: "ninth", twelve: "twelfth",
+};
+
+function enBelow100(n: number): string {
+    if (n < 20) return EN_ONES[n];
+    const unit = n % 10;
+    return EN_TENS[Math.floor(n / 10)] + (unit ? `-${EN_ONES[unit]}` : "");
+}
+
+function enBelow1000(n: number): string {
+    const hundreds = Math.floor(n / 100);
+    const rest = n % 100;
+    if (!hundreds) return enBelow100(rest);
+    return `${EN_ONES[hundreds]} hundred` + (rest ? ` ${enBelow100(rest)}` : "");
+}
+
+function enCardinal(n: number): string {
+    if (n === 0) return "zero";
+    const parts: string[] = [];
+    let rest = n;
+    for (const [size, name] of EN_SCALES) {
+        if (rest >= size) {
+            parts.push(`${enBelow1000(Math.floor(rest / size))} ${name}`);
+            rest %= size;
+        }
+    }
+    if (rest) parts.push(enBelow1000(rest));
+    return parts.join(" ");
+}
+
+function enOrdinal(n: number): string {
+    return enCardinal(n).replace(/([a-z]+)$/, (word) =>
+        EN_ORDINAL_WORDS[word] ?? (word.endsWith("y") ? `${word.slice(0, -1)}ieth` : `${word}th`)
+    );
+}
+
+const ENGLISH: LanguageRules = {
+    number: "\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?",
+    decimal: ".",
+    point: "point",
+    and: "and",
+    minus: "minus",
+    dot: "point",
+    cardinal: enCardinal,
+    ordinal: { pattern: /(?<![\p{L}\p{N}])(\d+)(?:st|nd|rd|th)(?![\p{L}\p{N}])/gu, spell: enOrdinal },
+    // Years are read in pairs: "nineteen eighty-four", "twenty twenty-six"
+    year(n) {
+        if ((n < 1100 || n > 1999) && (n < 2010 || n > 2099)) return null;
+        const low = n % 100;
+        const high = enBelow100(Math.floor(n / 100));
+        if (low === 0) return `${high} hundred`;
+        return `${high} ${low < 10 ? `oh ${EN_ONES[low]}` : enBelow100(low)}`;
+    },
+    fraction: (digits) => [...digits].map((d) => EN_ONES[Number(d)]).join(" "),
+    date: (year, month, day) => `${EN_MONTHS[month - 1]} ${enOrdinal(day)}, ${year}`,
+    time: (hours, minutes) =>
+        minutes === 0 ? `${hours} o'clock` : `${hours} ${minutes < 10 ? `oh ${minutes}` : minutes}`,
+    scales: ["million", "billion", "trillion"],
+    units: {
+        "km/h": ["one kilometer per hour", "kilometers per hour"],
+        "m/s": ["one meter per second", "meters per second"],
+        "mph": ["one mile per hour", "miles per hour"],
+        "km": ["one kilometer", "kilometers"],
+        "cm": ["one centimeter", "centimeters"],
+        "mm": ["one millimeter", "millimeters"],
+        "m": ["one meter", "meters"],
+        "mi": ["one mile", "miles"],
+        "ft": ["one foot", "feet"],
+        "kg": ["one kilogram", "kilograms"],
+        "mg": ["one milligram", "milligrams"],
+        "g": ["one gram", "grams"],
+        "lbs": ["one pound", "pounds"],
+        "lb": ["one pound", "pounds"],
+        "oz": ["one ounce", "ounces"],
+        "ml": ["one milliliter", "milliliters"],
+        "l": ["one liter", "liters"],
+        "%": ["one percent", "percent"],
+        "°C": ["one degree Celsius", "degrees Celsius"],
+        "°F": ["one degree Fahrenheit", "degrees Fahrenheit"],
+        "kWh": ["one kilowatt hour", "kilowatt hours"],
+        "TWh": ["one terawatt hour", "terawatt hours"],
+        "kW": ["one kilowatt", "kilowatts"],
+        "MW": ["one megawatt", "megawatts"],
+        "GW": ["one gigawatt", "gigawatts"],
+        "kB": ["one kilobyte", "kilobytes"],
+        "MB": ["one megabyte", "megabytes"],
+        "GB": ["one gigabyte", "gigabytes"],
+        "TB": ["one terabyte", "terabytes"],
+        "MHz": ["one megahertz", "megahertz"],
+        "GHz": ["one gigahertz", "gigahertz"],
+        "ms": ["one millisecond", "milliseconds"],
+        "min": ["one minute", "minutes"],
+    },
+    currencies: {
+        "$": { major: ["one dollar", "dollars"], minor: ["one cent", "cents"] },
+        "US$": { major: ["one dollar", "dollars"], minor: ["one cent", "cents"] },
+        "USD": { major: ["one dollar", "dollars"], minor: ["one cent", "cents"] },
+        "€": { major: ["one euro", "euros"], minor: ["one cent", "cents"] },
+        "EUR": { major: ["one euro", "euros"], minor: ["one cent", "cents"] },
+        "£": { major: ["one pound", "pounds"], minor: ["one penny", "pence"] },
+        "GBP": { major: ["one pound", "pounds"], minor: ["one penny", "pence"] },
+        "¥": { major: ["one yen", "yen"] },
+        "kr": { major: ["one krona", "kronor"] },
+        "SEK": { major: ["one Swedish krona", "Swedish kronor"] },
+        "NOK": { major: ["one Norwegian krone", "Norwegian kroner"] },
+        "DKK": { major: ["one Danish krone", "Danish kroner"] },
+    },
+    abbreviations: {
+        "e.g.": "for example",
+        "i.e.": "that is",
+        "etc.": "et cetera",
+        "vs.": "versus",
+        "approx.": "approximately",
+        "Dr.": "Doctor",
+        "Mr.": "Mister",
+        "Mrs.": "Missus",
+        "Prof.": "Professor",
+        "Jan.": "January",
+        "Feb.": "February",
+        "Aug.": "August",
+        "Sept.": "September",
+        "Oct.": "October",
+        "Nov.": "November",
+        "Dec.": "December",
+    },
+};
+
+// ── Swedish ──
+
+const SV_ONES = [
+    "noll", "ett", "två", "tre", "fyra", "fem", "sex", "sju", "åtta", "nio",
+    "tio", "elva", "tolv", "tretton", "fjorton", "femton", "sexton", "sjutton",
+    "arton", "nitton",
+];
+const SV_TENS = ["", "", "tjugo", "trettio", "fyrtio", "femtio", "sextio", "sjuttio", "åttio", "nittio"];
+const SV_ORDINALS = [
+    "nollte", "första", "andra", "tredje", "fjärde", "femte", "sjätte", "sjunde",
+    "åttonde", "nionde", "tionde", "elfte", "tolfte", "trettonde", "fjortonde",
+    "femtonde", "sextonde", "sjuttonde", "artonde", "nittonde",
+];
+const SV_MONTHS = [
+    "januari", "februari", "mars", "april", "maj", "juni", "juli", "augusti",
+    "september", "oktober", "november", "december",
+];
+
+function svBelow100(n: number): string {
+    if (n < 20) return SV_ONES[n];
+    const unit = n % 10;
+    return SV_TENS[Math.floor(n / 10)] + (unit ? SV_ONES[unit] : "");
+}
+
+function svBelow1000(n: number): string {
+    const hundreds = Math.floor(n / 100);
+    const rest = n % 100;
+    if (!hundreds) return svBelow100(rest);
+    return (hundreds === 1 ? "hundra" : `${SV_ONES[hundreds]}hundra`) + (rest ? svBelow100(rest) : "");
+}
+
+function svCardinal(n: number): string {
+    if (n === 0) return "noll";
+    const parts: string[] = [];
+    let rest = n;
+    for (const [size, singular, plural] of [
+        [1e12, "biljon", "biljoner"], [1e9, "miljard", "miljarder"], [1e6, "miljon", "miljoner"],
+    ] as Array<[number, string, string]>) {
+        if (rest >= size) {
+            const count = Math.floor(rest / size);
+            parts.push(count === 1 ? `en ${singular}` : `${svCardinal(count)} ${plural}`);
+            rest %= size;
+        }
+    }
+    if (rest) {
+        const thousands = Math.floor(rest / 1000);
+        const below = rest % 1000;
+        const word = (thousands ? (thousands === 1 ? "tusen" : `${svBelow1000(thousands)}tusen`) : "") +
+            (below ? svBelow1000(below) : "");
+        // "tjugoett" + "tusen" is written "tjugoettusen"
+        parts.push(word.replace(/ttt/g, "tt"));
+    }
+    return parts.join(" ");
+}
+
+function svOrdinal(n: number): string {
+    if (n < 20) return SV_ORDINALS[n];
+    if (n < 100) {
+        const unit = n % 10;
+        return SV_TENS[Math.floor(n / 10)] + (unit ? SV_ORDINALS[unit] : "nde");
+    }
+    return svCardinal(n);
+}
+
+const SWEDISH: LanguageRules = {
+    number: "\\d{1,3}(?:[ \\u00a0]\\d{3})+(?:,\\d+)?|\\d+(?:,\\d+)?",
+    decimal: ",",
+    point: "komma",
+    and: "och",
+    minus: "minus",
+    dot: "punkt",
+    cardinal: svCardinal,
+    ordinal: { pattern: /(?<![\p{L}\p{N}])(\d+):(?:a|e)(?![\p{L}\p{N}])/gu, spell: svOrdinal },
+    // "nittonhundraåttiofyra"
+    year(n) {
+        if (n < 1100 || n > 1999) return null;
+        const low = n % 100;
+        return `${svBelow100(Math.floor(n / 100))}hundra${low ? svBelow100(low) : ""}`;
+    },
+    fraction: (digits) =>
+        digits.length <= 2 && !digits.startsWith("0")
+            ? svBelow100(Number(digits))
+            : [...digits].map((d) => SV_ONES[Number(d)]).join(" "),
+    date: (year, month, day) => `${svOrdinal(day)} ${SV_MONTHS[month - 1]} ${year}`,
+    time: (hours, minutes) => (minutes === 0 ? `${hours}` : `${hours} ${minutes < 10 ? `noll ${minutes}` : minutes}`),
+    clock: /(?<=\b(?:kl\.|klockan)\s)([01]?\d|2[0-3])[.:]([0-5]\d)(?!\d)/gi,
+    scales: ["miljoner", "miljon", "miljarder", "miljard", "milj\\.", "mdr"],
+    units: {
+        "km/h": ["en kilometer i timmen", "kilometer i timmen"],
+        "m/s": ["en meter per sekund", "meter per sekund"],
+        "mph": ["en engelsk mil i timmen", "engelska mil i timmen"],
+        "km": ["en kilometer", "kilometer"],
+        "cm": ["en centimeter", "centimeter"],
+        "mm": ["en millimeter", "millimeter"],
+        "m": ["en meter", "meter"],
+        "kg": ["ett kilo", "kilo"],
+        "mg": ["ett milligram", "milligram"],
+        "g": ["ett gram", "gram"],
+        "ml": ["en milliliter", "milliliter"],
+        "dl": ["en deciliter", "deciliter"],
+        "l": ["en liter", "liter"],
+        "%": ["en procent", "procent"],
+        "°C": ["en grad Celsius", "grader Celsius"],
+        "°F": ["en grad Fahrenheit", "grader Fahrenheit"],
+        "kWh": ["en kilowattimme", "kilowattimmar"],
+        "TWh": ["en terawattimme", "terawattimmar"],
+        "kW": ["en kilowatt", "kilowatt"],
+        "MW": ["en megawatt", "megawatt"],
+        "GW": ["en gigawatt", "gigawatt"],
+        "kB": ["en kilobyte", "kilobyte"],
+        "MB": ["en megabyte", "megabyte"],
+        "GB": ["en gigabyte", "gigabyte"],
+        "TB": ["en terabyte", "terabyte"],
+        "MHz": ["en megahertz", "megahertz"],
+        "GHz": ["en gigahertz", "gigahertz"],
+        "ms": ["en millisekund", "millisekunder"],
+        "min": ["en minut", "minuter"],
+    },
+    currencies: {
+        "$": { major: ["en dollar", "dollar"], minor: ["en cent", "cent"] },
+        "US$": { major: ["en dollar", "dollar"], minor: ["en cent", "cent"] },
+        "USD": { major: ["en dollar", "dollar"], minor: ["en cent", "cent"] },
+        "€": { major: ["en euro", "euro"], minor: ["en cent", "cent"] },
+        "EUR": { major: ["en euro", "euro"], minor: ["en cent", "cent"] },
+        "£": { major: ["ett pund", "pund"], minor: ["en penny", "pence"] },
+        "GBP": { major: ["ett pund", "pund"], minor: ["en penny", "pence"] },
+        "¥": { major: ["en yen", "yen"] },
+        "kr": { major: ["en krona", "kronor"], minor: ["ett öre", "öre"] },
+        "SEK": { major: ["en krona", "kronor"], minor: ["ett öre", "öre"] },
+        "NOK": { major: ["en norsk krona", "norska kronor"] },
+        "DKK": { major: ["en dansk krona", "danska kronor"] },
+    },
+    abbreviations: {
+        "t.ex.": "till exempel",
+        "t ex": "till exempel",
+        "bl.a.": "bland annat",
+        "bl a": "bland annat",
+        "o.s.v.": "och så vidare",
+        "osv.": "och så vidare",
+        "osv": "och så vidare",
+        "d.v.s.": "det vill säga",
+        "dvs.": "det vill säga",
+        "dvs": "det vill säga",
+        "m.m.": "med mera",
+        "m.fl.": "med flera",
+        "s.k.": "så kallad",
+        "p.g.a.": "på grund av",
+        "pga.": "på grund av",
+        "pga": "på grund av",
+        "fr.o.m.": "från och med",
+        "t.o.m.": "till och med",
+        "f.d.": "före detta",
+        "resp.": "respektive",
+        "inkl.": "inklusive",
+        "exkl.": "exklusive",
+        "jfr": "jämför",
+        "ca": "cirka",
+        "kl.": "klockan",
+        "nr": "nummer",
+        "milj.": "miljoner",
+        "mdr": "miljarder",
+    },
+};
+
+/** Rules keyed by ISO 639-1 code. */
+const RULES_BY_LANGUAGE: Record<string, LanguageRules> = {
+    sv: SWEDISH,
+    en: ENGLISH,
+};
+
+/**
+ * Normalize TTS text in the target language. Languages without rules
+ * (everything but Swedish and English) only get the language-neutral
+ * steps: URL and emoji removal and the lexicon. Markers are kept.
+ */
+export function normalizeForSpeech(
+    text: string,
+    targetLanguage: string,
+    config?: NormalizationConfig
+): string {
+    if (config && !config.enabled) return text;
+    const code = findLanguage(targetLanguage)?.code;
+    const rules = (code && RULES_BY_LANGUAGE[code]) || null;
+    const lexicon = config?.lexicon ?? [];
+
+    return joinSpeech(splitSpeech(text).map((segment) =>
+        typeof segment === "string" ? normalizeSegment(segment, rules, lexicon) : segment
+    ));
+}
+
+function normalizeSegment(text: string, rules: LanguageRules | null, lexicon: LexiconEntry[]): string {
+    let result = text.replace(URL_PATTERN, "").replace(EMOJI_PATTERN, "");
+    result = applyLexicon(result, lexicon);
+
+    if (rules) {
+        result = expandDates(result, rules);
+        result = expandTimes(result, rules);
+        result = expandVersions(result, rules);
+        result = expandCurrency(result, rules);
+        result = expandUnits(result, rules);
+        result = expandAbbreviations(result, rules);
+        result = result.replace(rules.ordinal.pattern, (_, digits: string) => rules.ordinal.spell(Number(digits)));
+        result = expandNumbers(result, rules);
+    }
+
+    // Tidy the gaps left by removed URLs and emoji
+    return result
+        .split("\n")
+        .map((line) => line.replace(/[ \t\u00a0]{2,}/g, " ").replace(/ ([.,;:!?])/g, "$1").trim())
+        .join("\n")
+        .trim();
+}
+
+/**
+ * Replace lexicon words. Entries match whole words case-insensitively,
+ * except entries in all caps ("US"), which only match all caps. Entries
+ * with a phoneme keep the word, marked with its pronunciation.
+ */
+export function applyLexicon(text: string, lexicon: LexiconEntry[]): string {
+    let result = text;
+    for (const { word, replacement, phoneme } of lexicon) {
+        const trimmed = word?.trim();
+        if (!trimmed) continue;
+        const allCaps = trimmed === trimmed.toUpperCase() && trimmed !== trimmed.toLowerCase();
+        const pattern = new RegExp(BOUNDARY_BEFORE + escapeRegExp(trimmed) + BOUNDARY_AFTER, allCaps ? "gu" : "giu");
+        result = result.replace(pattern, (match) =>
+            phoneme?.trim() ? phonemeMarker(match, phoneme) : replacement ?? ""
+        );
+    }
+    return result;
+}
+
+function expandDates(text: string, rules: LanguageRules): string {
+    return text.replace(ISO_DATE_PATTERN, (match, year: string, month: string, day: string) => {
+        const m = Number(month);
+        const d = Number(day);
+        if (m < 1 || m > 12 || d < 1 || d > 31) return match;
+        return rules.date(year, m, d);
+    });
+}
+
+function expandTimes(text: string, rules: LanguageRules): string {
+    const spell = (_: string, hours: string, minutes: string) => rules.time(Number(hours), Number(minutes));
+    const result = text.replace(TIME_PATTERN, spell);
+    return rules.clock ? result.replace(rules.clock, spell) : result;
+}
+
+function expandVersions(text: string, rules: LanguageRules): string {
+    return text.replace(VERSION_PATTERN, (match, prefixed?: string, bare?: string) => {
+        const version = prefixed ?? bare;
+        if (!version) return match;
+        const spoken = version.split(".").join(` ${rules.dot} `);
+        return prefixed && /^v/i.test(match) ? `version ${spoken}` : spoken;
+    });
+}
+
+function expandCurrency(text: string, rules: LanguageRules): string {
+    const symbols = Object.keys(rules.currencies)
+        .sort((a, b) => b.length - a.length)
+        .map(escapeRegExp)
+        .join("|");
+    const scale = `(?:\\s(${rules.scales.join("|")}))?`;
+    const prefix = new RegExp(`(?<![\\p{L}\\p{N}])(${symbols})\\s?(${rules.number})${scale}(?![\\p{L}\\p{N}])`, "gu");
+    const suffix = new RegExp(`${BOUNDARY_BEFORE}(${rules.number})${scale}\\s?(${symbols})(?![\\p{L}\\p{N}])`, "gu");
+
+    const spell = (symbol: string, amount: string, scaleWord: string | undefined) => {
+        const currency = rules.currencies[symbol];
+        if (scaleWord) return `${amount} ${scaleWord} ${currency.major[1]}`;
+
+        const [whole, cents] = amount.split(rules.decimal);
+        const major = quantity(whole, currency.major);
+        if (cents === undefined || /^0+$/.test(cents)) return major;
+        if (!currency.minor || cents.length !== 2) return `${amount} ${currency.major[1]}`;
+        return `${major} ${rules.and} ${quantity(cents, currency.minor)}`;
+    };
+
+    return text
+        .replace(prefix, (_, symbol: string, amount: string, scaleWord?: string) => spell(symbol, amount, scaleWord))
+        .replace(suffix, (_, amount: string, scaleWord: string | undefined, symbol: string) =>
+            spell(symbol, amount, scaleWord)
+        );
+}
+
+function expandUnits(text: string, rules: LanguageRules): string {
+    const units = Object.keys(rules.units)
+        .sort((a, b) => b.length - a.length)
+        .map(escapeRegExp)
+        .join("|");
+    const pattern = new RegExp(`${BOUNDARY_BEFORE}(${rules.number})\\s?(${units})(?![\\p{L}\\p{N}])`, "gu");
+
+    return text.replace(pattern, (_, amount: string, unit: string) => quantity(amount, rules.units[unit]));
+}
+
+/** "1 kg" → "ett kilo", "2 kg" → "2 kilo"; the number is spelled out later. */
+function quantity(amount: string, [one, plural]: Forms): string {
+    return amount.replace(/^0+(?=\d)/, "") === "1" ? one : `${amount} ${plural}`;
+}
+
+function expandAbbreviations(text: string, rules: LanguageRules): string {
+    let result = text;
+    for (const [abbreviation, expansion] of Object.entries(rules.abbreviations)) {
+        // The first letter may be capitalized at the start of a sentence
+        const first = abbreviation[0];
+        const head = first.toLowerCase() === first.toUpperCase()
+            ? escapeRegExp(first)
+            : `[${first.toLowerCase()}${first.toUpperCase()}]`;
+        const pattern = new RegExp(
+            `(?<![\\p{L}\\p{N}.])${head}${escapeRegExp(abbreviation.slice(1))}(?![\\p{L}\\p{N}])(?:(\\s*$)|(\\s+(?=\\p{Lu})))?`,
+            "gu"
+        );
+        result = result.replace(pattern, (match: string, end?: string, beforeCapital?: string) => {
+            const capitalized = match[0] !== match[0].toLowerCase() && first === first.toLowerCase();
+            const word = capitalized ? expansion[0].toUpperCase() + expansion.slice(1) : expansion;
+            // An abbreviation that ends a sentence also carried its full stop;
+            // titles ("Dr. Smith") are followed by a capital without ending one
+            const endsSentence = abbreviation.endsWith(".") && (end !== undefined ||
+                (beforeCapital !== undefined && expansion[0] === expansion[0].toLowerCase()));
+            return `${word}${endsSentence ? "." : ""}${end ?? beforeCapital ?? ""}`;
+        });
+    }
+    return result;
+}
+
+function expandNumbers(text: string, rules: LanguageRules): string {
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])([-−]?)(${rules.number})(?![\\p{L}\\p{N}])`, "gu");
+    return text.replace(pattern, (match, sign: string, number: string, offset: number, whole: string) => {
+        // A hyphen between words or numbers ("2020-2021", "COVID-19") is not a minus
+        const negative = sign !== "" && (offset === 0 || /\s/.test(whole[offset - 1]));
+        const spelled = spellNumber(number, rules);
+        if (spelled === null) return match;
+        return negative ? `${rules.minus} ${spelled}` : `${sign}${spelled}`;
+    });
+}
+
+function spellNumber(raw: string, rules: LanguageRules): string | null {
+    const [whole, fraction] = raw.split(rules.decimal);
+    const digits = whole.replace(/[ \u00a0,.]/g, "");
+    if (digits.length > 15) return null;
+
+    const n = Number(digits);
+    const separated = digits !== whole;
+    const words = (!separated && fraction === undefined && digits.length === 4 && rules.year(n)) ||
+        rules.cardinal(n);
+    return fraction === undefined ? words : `${words} ${rules.point} ${rules.fraction(fraction)}`;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -1,37 +1,321 @@
-import { convert } from "html-to-text";
-import type { ParsedArticle } from "./types.js";
-
-const HTML_TO_TEXT_OPTIONS = {
-    wordwrap: false as false,
-    preserveNewlines: true,
-    selectors: [
-        { selector: "a", options: { ignoreHref: true } },
-        { selector: "img", format: "skip" },
-        { selector: "script", format: "skip" },
-        { selector: "style", format: "skip" },
-    ],
-};
+import { parseHTML } from "linkedom";
+import type {
+    ArticleBlock,
+    CleanupConfig,
+    ContentPolicies,
+    ParsedArticle,
+    SpeechConfig,
+} from "./types.js";
+import { DEFAULT_CONTENT, DEFAULT_SPEECH, renderSpeech } from "./speech.js";
+import {
+    cleanBlocks,
+    cleanupPlanFor,
+    removeClutterElements,
+    type CleanupPlan,
+} from "./cleanup.js";
+import {
+    formatTemplateDate,
+    renderTemplate,
+    type EpisodeTemplates,
+} from "./episode-templates.js";
+
+export interface ParseOptions {
+    speech?: SpeechConfig;
+    content?: ContentPolicies;
+    codeSummaries?: Map<string, string>; // by code block text, for content.code "summarize"
+    cleanup?: CleanupConfig;
+    templates: EpisodeTemplates; // see episodeTemplates(), for the target language
+    author?: string | null;
+    date?: string | null; // ISO 8601, defaults to now
+}
+
+/** Elements whose content is never read aloud. */
+const SKIPPED_TAGS = new Set([
+    "script", "style", "noscript", "template", "svg",
+    "video", "audio", "iframe", "object", "canvas", "button", "input",
+    "select", "textarea", "form", "nav",
+]);
+
+/** Elements that end the current paragraph and start a new one. */
+const BLOCK_TAGS = new Set([
+    "p", "div", "section", "article", "main", "header", "footer", "aside",
+    "address", "center", "details", "summary", "dl", "dt", "dd", "hr",
+    "pre", "body", "html", "li", "td", "th",
+]);
 
 /**
- * Convert HTML article body to clean plain-text and build
- * a short intro sentence for TTS.
+ * Parse HTML article body into structural blocks, strip clutter, render
+ * the blocks to plain text with spoken cues and add the intro (and outro)
+ * from the episode templates.
  */
 export function parseArticle(
     bookmarkId: string,
     title: string,
     source: string,
-    html: string
+    html: string,
+    options: ParseOptions
 ): ParsedArticle {
-    const body = convert(html, HTML_TO_TEXT_OPTIONS).trim();
+    const blocks = withSummaries(
+        parseBlocks(html, cleanupPlanFor(source, options.cleanup)),
+        options.codeSummaries
+    );
+    const body = renderSpeech(blocks, options.speech ?? DEFAULT_SPEECH, options.content ?? DEFAULT_CONTENT);
 
     const sourceName = cleanSource(source);
-    const introText = sourceName
-        ? `En artikel från ${sourceName}. ${title}.`
-        : `${title}.`;
+    const wordCount = countWords(blocksText(blocks));
+
+    const templates = options.templates;
+    const templateValues = {
+        title,
+        source: sourceName,
+        author: options.author?.trim() ?? "",
+        date: formatTemplateDate(options.date, templates.locale),
+        word_count: String(wordCount),
+    };
+    const introText = renderTemplate(templates.intro, templateValues);
+    const outroText = renderTemplate(templates.outro, templateValues);
+    const fullText = [introText, body, outroText].filter(Boolean).join("\n\n");
+
+    return {
+        bookmarkId,
+        title,
+        source: sourceName,
+        blocks,
+        body,
+        wordCount,
+        introText,
+        outroText,
+        fullText,
+        templateValues,
+    };
+}
+
+/**
+ * Split HTML into headings, paragraphs, lists, quotes, tables, code blocks,
+ * images (by alt text) and figure captions. Inline markup is flattened to text; layout containers (div,
+ * section, …) are looked through. With a cleanup plan, clutter elements
+ * are removed first and the text rules applied to the result.
+ */
+export function parseBlocks(html: string, cleanup?: CleanupPlan): ArticleBlock[] {
+    if (!html.trim()) return [];
+
+    const { document } = parseHTML(`<!DOCTYPE html><html><body>${html}</body></html>`);
+    if (!cleanup) return collectBlocks(document.body);
+
+    removeClutterElements(document.body, cleanup);
+    return cleanBlocks(collectBlocks(document.body), cleanup);
+}
+
+/**
+ * Count whitespace-separated words in plain text.
+ */
+export function countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+}
+
+/** The text of every code block, including those in quotes. */
+export function codeBlocksText(blocks: ArticleBlock[]): string[] {
+    return blocks.flatMap((block) => {
+        if (block.type === "code") return [block.text];
+        if (block.type === "quote") return codeBlocksText(block.blocks);
+        return [];
+    });
+}
+
+function withSummaries(blocks: ArticleBlock[], summaries?: Map<string, string>): ArticleBlock[] {
+    if (!summaries || summaries.size === 0) return blocks;
+    return blocks.map((block) => {
+        if (block.type === "code") {
+            const summary = summaries.get(block.text);
+            return summary ? { ...block, summary } : block;
+        }
+        if (block.type === "quote") return { ...block, blocks: withSummaries(block.blocks, summaries) };
+        return block;
+    });
+}
+
+/** The words of the article itself, without cues, code or alt text. */
+function blocksText(blocks: ArticleBlock[]): string {
+    return blocks
+        .map((block) => {
+            switch (block.type) {
+                case "code":
+                case "image":
+                    return "";
+                case "list":
+                    return block.items.join("\n");
+                case "quote":
+                    return blocksText(block.blocks);
+                case "table":
+                    return [block.caption, ...block.headers, ...block.rows.flat()].join(" ");
+                default:
+                    return block.text;
+            }
+        })
+        .join("\n");
+}
 
-    const fullText = `${introText}\n\n${body}`;
+function collectBlocks(root: Element): ArticleBlock[] {
+    const blocks: ArticleBlock[] = [];
+    let inline = "";
+    // Images inside running text follow the paragraph instead of splitting it
+    let images: ArticleBlock[] = [];
+
+    const flush = () => {
+        const text = normalizeText(inline);
+        if (text) blocks.push({ type: "paragraph", text });
+        blocks.push(...images);
+        inline = "";
+        images = [];
+    };
+
+    const walk = (node: Node) => {
+        if (node.nodeType === 3) {
+            inline += node.textContent ?? "";
+            return;
+        }
+        if (node.nodeType !== 1) return;
+
+        const el = node as Element;
+        const tag = el.localName;
+        if (SKIPPED_TAGS.has(tag)) return;
+
+        if (/^h[1-6]$/.test(tag)) {
+            flush();
+            const text = textOf(el);
+            if (text) blocks.push({ type: "heading", level: Number(tag[1]), text });
+        } else if (tag === "ul" || tag === "ol") {
+            flush();
+            const items = listItems(el);
+            if (items.length > 0) blocks.push({ type: "list", ordered: tag === "ol", items });
+        } else if (tag === "blockquote") {
+            flush();
+            const inner = collectBlocks(el);
+            if (inner.length > 0) blocks.push({ type: "quote", blocks: inner });
+        } else if (tag === "table") {
+            flush();
+            const table = parseTable(el);
+            if (table) blocks.push(table);
+        } else if (tag === "pre") {
+            flush();
+            const text = codeText(el);
+            if (text) blocks.push({ type: "code", text, language: codeLanguage(el) });
+        } else if (tag === "img") {
+            const alt = normalizeText(el.getAttribute("alt") ?? "");
+            if (alt) images.push({ type: "image", alt });
+        } else if (tag === "figcaption") {
+            flush();
+            const text = textOf(el);
+            if (text) blocks.push({ type: "caption", text });
+        } else if (tag === "br") {
+            inline += "\n";
+        } else if (BLOCK_TAGS.has(tag) || tag === "figure") {
+            flush();
+            el.childNodes.forEach(walk);
+            flush();
+        } else {
+            el.childNodes.forEach(walk);
+        }
+    };
+
+    root.childNodes.forEach(walk);
+    flush();
+    return blocks;
+}
+
+/** Items of a list; nested lists follow their parent item. */
+function listItems(list: Element): string[] {
+    const items: string[] = [];
+
+    for (const li of Array.from(list.children)) {
+        if (li.localName !== "li") continue;
+
+        const nested: Element[] = [];
+        let text = "";
+        const walk = (node: Node) => {
+            if (node.nodeType === 3) {
+                text += node.textContent ?? "";
+            } else if (node.nodeType === 1) {
+                const el = node as Element;
+                if (el.localName === "ul" || el.localName === "ol") {
+                    nested.push(el);
+                } else if (!SKIPPED_TAGS.has(el.localName)) {
+                    if (el.localName === "br" || BLOCK_TAGS.has(el.localName)) text += " ";
+                    el.childNodes.forEach(walk);
+                }
+            }
+        };
+        li.childNodes.forEach(walk);
+
+        const normalized = normalizeText(text);
+        if (normalized) items.push(normalized);
+        for (const sublist of nested) items.push(...listItems(sublist));
+    }
+
+    return items;
+}
+
+function parseTable(table: Element): ArticleBlock | null {
+    const caption = textOf(table.querySelector("caption"));
+    const rows = Array.from(table.querySelectorAll("tr"))
+        .map((tr) => Array.from(tr.children)
+            .filter((cell) => cell.localName === "td" || cell.localName === "th")
+            .map((cell) => ({ text: textOf(cell), header: cell.localName === "th" })))
+        .filter((cells) => cells.some((c) => c.text));
+
+    if (rows.length === 0) return null;
+
+    // A first row made only of <th> cells names the columns
+    const hasHeader = rows[0].every((c) => c.header) && rows.length > 1;
+    return {
+        type: "table",
+        caption,
+        headers: hasHeader ? rows[0].map((c) => c.text) : [],
+        rows: (hasHeader ? rows.slice(1) : rows).map((cells) => cells.map((c) => c.text)),
+    };
+}
+
+/** Code as written: line breaks and indentation kept, blank edges trimmed. */
+function codeText(pre: Element): string {
+    return (pre.textContent ?? "")
+        .split("\n")
+        .map((line) => line.replace(/\s+$/, ""))
+        .join("\n")
+        .replace(/^\n+|\n+$/g, "");
+}
+
+/** The language from a `language-…` or `lang-…` class, as used by highlighters. */
+function codeLanguage(pre: Element): string | null {
+    const classes = [pre, pre.querySelector("code")]
+        .map((el) => el?.getAttribute("class") ?? "")
+        .join(" ");
+    return classes.match(/\b(?:language|lang)-([\w+#-]+)/)?.[1] ?? null;
+}
+
+function textOf(el: Element | null): string {
+    if (!el) return "";
+    let text = "";
+    const walk = (node: Node) => {
+        if (node.nodeType === 3) {
+            text += node.textContent ?? "";
+        } else if (node.nodeType === 1) {
+            const child = node as Element;
+            if (SKIPPED_TAGS.has(child.localName)) return;
+            if (child.localName === "br" || BLOCK_TAGS.has(child.localName)) text += " ";
+            child.childNodes.forEach(walk);
+        }
+    };
+    el.childNodes.forEach(walk);
+    return normalizeText(text);
+}
 
-    return { bookmarkId, title, source: sourceName, body, introText, fullText };
+/** Collapse whitespace, keeping explicit line breaks. */
+function normalizeText(text: string): string {
+    return text
+        .split("\n")
+        .map((line) => line.replace(/\s+/g, " ").trim())
+        .filter(Boolean)
+        .join("\n");
 }
 
 /**
@@ -0,0 +1,174 @@
+import { XMLParser } from "fast-xml-parser";
+import { createHash } from "node:crypto";
+import type { ArticleSource, RssSourceConfig, SourceArticle } from "./types.js";
+
+export const RSS_NAMESPACE = "rss";
+
+export interface FeedItem {
+    guid: string;
+    title: string;
+    link: string;
+    html: string;
+    published: string | null; // ISO 8601
+    author: string | null;
+}
+
+/** An element as fast-xml-parser returns it: children and "@_" attributes by name. */
+type XmlNode = Record<string, unknown>;
+
+const xmlParser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    textNodeName: "#text",
+    isArray: (name) => ["item", "entry", "link"].includes(name),
+});
+
+/**
+ * Article source that turns RSS 2.0, RSS 1.0 and Atom feed entries into
+ * articles. The HTML comes from the feed itself (full content if the feed
+ * provides it, otherwise the summary). A feed that fails is skipped; when
+ * every feed fails, listing fails.
+ */
+export class RssSource implements ArticleSource {
+    readonly name = RSS_NAMESPACE;
+    listedInPart = false;
+    private config: RssSourceConfig;
+    private items = new Map<string, FeedItem>();
+
+    constructor(config: RssSourceConfig) {
+        this.config = config;
+    }
+
+    async listArticles(): Promise<SourceArticle[]> {
+        this.items.clear();
+        const failed: string[] = [];
+
+        for (const feedUrl of this.config.feeds) {
+            try {
+                const response = await fetch(feedUrl, {
+                    headers: { "User-Agent": "Instapod (+https://github.com/jnordlund/instapod)" },
+                    signal: AbortSignal.timeout(30_000),
+                });
+                if (!response.ok) {
+                    throw new Error(`Feed request failed (${response.status})`);
+                }
+
+                const items = parseFeed(await response.text()).slice(0, this.config.max_items);
+                console.log(`[rss] ${feedUrl}: ${items.length} item(s)`);
+
+                for (const item of items) {
+                    this.items.set(toArticleId(feedUrl, item), item);
+                }
+            } catch (err) {
+                console.error(`[rss] Failed to fetch feed ${feedUrl}:`, err);
+                failed.push(feedUrl);
+            }
+        }
+
+        if (failed.length > 0 && failed.length === this.config.feeds.length) {
+            throw new Error(`Every feed failed: ${failed.join(", ")}`);
+        }
+        this.listedInPart = failed.length > 0;
+
+        return [...this.items.entries()].map(([id, item]) => ({
+            id,
+            title: item.title,
+            url: item.link,
+            savedAt: item.published,
+            author: item.author,
+        }));
+    }
+
+    async fetchHtml(article: SourceArticle): Promise<string> {
+        return this.items.get(article.id)?.html ?? "";
+    }
+}
+
+/**
+ * Parse an RSS or Atom document into feed items, newest first.
+ */
+export function parseFeed(xml: string): FeedItem[] {
+    const doc = xmlParser.parse(xml) as XmlNode;
+    const atom = element(doc.feed);
+    const channel = element(element(doc.rss)?.channel);
+    const rdf = element(doc["rdf:RDF"]);
+
+    let items: FeedItem[];
+    if (atom) {
+        items = elements(atom.entry).map(parseAtomEntry);
+    } else if (channel) {
+        items = elements(channel.item).map(parseRssItem);
+    } else if (rdf) {
+        items = elements(rdf.item).map(parseRssItem);
+    } else {
+        throw new Error("Unrecognized feed format");
+    }
+
+    items = items.filter((item) => item.guid);
+
+    // Feeds are usually newest first already, but not always
+    return items.sort((a, b) => {
+        if (!a.published || !b.published) return 0;
+        return new Date(b.published).getTime() - new Date(a.published).getTime();
+    });
+}
+
+function parseRssItem(item: XmlNode): FeedItem {
+    const link = text(Array.isArray(item.link) ? item.link[0] : item.link);
+    return {
+        guid: text(item.guid) || link,
+        title: text(item.title),
+        link,
+        html: text(item["content:encoded"]) || text(item.description),
+        published: toIsoDate(text(item.pubDate) || text(item["dc:date"])),
+        author: text(item["dc:creator"]) || text(item.author) || null,
+    };
+}
+
+function parseAtomEntry(entry: XmlNode): FeedItem {
+    const links = elements(entry.link);
+    const alternate =
+        links.find((l) => !l["@_rel"] || l["@_rel"] === "alternate") ?? links[0];
+    const link = text(alternate?.["@_href"]);
+    return {
+        guid: text(entry.id) || link,
+        title: text(entry.title),
+        link,
+        html: text(entry.content) || text(entry.summary),
+        published: toIsoDate(text(entry.published) || text(entry.updated)),
+        author: text(element(entry.author)?.name) || null,
+    };
+}
+
+function element(node: unknown): XmlNode | undefined {
+    return node && typeof node === "object" && !Array.isArray(node) ? (node as XmlNode) : undefined;
+}
+
+/** Elements parsed as arrays (items, entries, links), without plain text ones. */
+function elements(node: unknown): XmlNode[] {
+    return Array.isArray(node) ? node.map(element).filter((e): e is XmlNode => e !== undefined) : [];
+}
+
+/** Extract text from a parsed node that may be a string or an element with attributes. */
+function text(node: unknown): string {
+    if (node === undefined || node === null) return "";
+    if (typeof node === "object") {
+        return text((node as Record<string, unknown>)["#text"]);
+    }
+    return String(node).trim();
+}
+
+function toIsoDate(value: string): string | null {
+    if (!value) return null;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/** Stable, filename-safe id from the feed URL and the entry's guid. */
+function toArticleId(feedUrl: string, item: FeedItem): string {
+    const hash = createHash("sha1")
+        .update(`${feedUrl}\n${item.guid}`)
+        .digest("hex")
+        .slice(0, 16);
+    return `${RSS_NAMESPACE}:${hash}`;
+}
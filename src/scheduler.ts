@@ -22,6 +22,7 @@ function buildChildEnv(): Record<string, string | undefined> {
         // Config env overrides (see config.ts applyEnvOverrides)
         "INSTAPAPER_CONSUMER_KEY", "INSTAPAPER_CONSUMER_SECRET",
         "INSTAPAPER_USERNAME", "INSTAPAPER_PASSWORD",
+        "INSTAPOD_TOKEN_KEY",
         "TRANSLATION_API_BASE", "TRANSLATION_API_KEY",
         "TRANSLATION_MODEL", "TRANSLATION_TARGET_LANGUAGE",
         "TTS_VOICE",
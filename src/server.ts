@@ -3,7 +3,7 @@ import { join, resolve } from "node:path";
 import { writeFileSync, mkdirSync } from "node:fs";
 import type { AppConfig } from "./types.js";
 import { StateManager } from "./state.js";
-import { generateFeed } from "./feed.js";
+import { chaptersFilename, generateChapters, generateFeed } from "./feed.js";
 import { createAdminRouter } from "./admin.js";
 
 export function createServer(
@@ -74,6 +74,20 @@ export function createServer(
         });
     });
 
+    /**
+     * GET /chapters/:filename — serve an episode's Podcasting 2.0 chapters
+     */
+    app.get("/chapters/:filename", (req, res) => {
+        const episode = state.getProcessedBookmarks()
+            .find((ep) => ep.chapters?.length && chaptersFilename(ep) === req.params.filename);
+        if (!episode) {
+            return res.status(404).json({ error: "Chapters not found" });
+        }
+
+        res.set("Content-Type", "application/json+chapters; charset=utf-8");
+        res.send(generateChapters(episode));
+    });
+
     /**
      * GET /health — healthcheck endpoint
      */
@@ -0,0 +1,425 @@
+/**
+ * speech.ts — Render parsed article structure as text for TTS.
+ *
+ * Structure is read aloud with configurable cues ("Quote: … End quote."),
+ * with defaults per target language, and pauses. Pauses and chapter starts travel through translation as
+ * marker paragraphs (`[pause 800ms]`, `[chapter]`); the TTS worker turns
+ * pauses into silence and notes the time each chapter starts. Lexicon
+ * pronunciations are inline markers (`⟪word|ipa⟫`), added after
+ * translation and sent to the voice as SSML.
+ */
+import { findLanguage } from "./languages.js";
+import type { AppConfig, ArticleBlock, ContentConfig, ContentPolicies, EpisodeMode, SpeechConfig } from "./types.js";
+
+/** The cues spoken as words, which have defaults per target language. */
+type SpokenCues = Pick<SpeechConfig,
+    "quote_start" | "quote_end" | "table_intro" | "table_skipped" |
+    "caption" | "image" | "code_skipped" | "code_summary" | "summary_intro">;
+
+const ENGLISH_CUES: SpokenCues = {
+    quote_start: "Quote:",
+    quote_end: "End quote.",
+    table_intro: "Table: {caption}",
+    table_skipped: "A table is skipped.",
+    caption: "Image caption: {text}",
+    image: "Image: {text}",
+    code_skipped: "A code sample is skipped.",
+    code_summary: "Code sample: {text}",
+    summary_intro: "In short:",
+};
+
+/** Spoken cues keyed by the target language's ISO 639-1 code. */
+const CUES_BY_LANGUAGE: Record<string, SpokenCues> = {
+    sv: {
+        quote_start: "Citat:",
+        quote_end: "Slut på citatet.",
+        table_intro: "Tabell: {caption}",
+        table_skipped: "En tabell hoppas över.",
+        caption: "Bildtext: {text}",
+        image: "Bild: {text}",
+        code_skipped: "Ett kodexempel hoppas över.",
+        code_summary: "Kodexempel: {text}",
+        summary_intro: "Kort sagt:",
+    },
+    en: ENGLISH_CUES,
+    de: {
+        quote_start: "Zitat:",
+        quote_end: "Zitat Ende.",
+        table_intro: "Tabelle: {caption}",
+        table_skipped: "Eine Tabelle wird übersprungen.",
+        caption: "Bildunterschrift: {text}",
+        image: "Bild: {text}",
+        code_skipped: "Ein Codebeispiel wird übersprungen.",
+        code_summary: "Codebeispiel: {text}",
+        summary_intro: "Kurz gesagt:",
+    },
+    fr: {
+        quote_start: "Citation :",
+        quote_end: "Fin de citation.",
+        table_intro: "Tableau : {caption}",
+        table_skipped: "Un tableau est ignoré.",
+        caption: "Légende : {text}",
+        image: "Image : {text}",
+        code_skipped: "Un exemple de code est ignoré.",
+        code_summary: "Exemple de code : {text}",
+        summary_intro: "En bref :",
+    },
+    es: {
+        quote_start: "Cita:",
+        quote_end: "Fin de la cita.",
+        table_intro: "Tabla: {caption}",
+        table_skipped: "Se omite una tabla.",
+        caption: "Pie de foto: {text}",
+        image: "Imagen: {text}",
+        code_skipped: "Se omite un ejemplo de código.",
+        code_summary: "Ejemplo de código: {text}",
+        summary_intro: "En resumen:",
+    },
+    nb: {
+        quote_start: "Sitat:",
+        quote_end: "Sitat slutt.",
+        table_intro: "Tabell: {caption}",
+        table_skipped: "En tabell hoppes over.",
+        caption: "Bildetekst: {text}",
+        image: "Bilde: {text}",
+        code_skipped: "Et kodeeksempel hoppes over.",
+        code_summary: "Kodeeksempel: {text}",
+        summary_intro: "Kort fortalt:",
+    },
+    da: {
+        quote_start: "Citat:",
+        quote_end: "Citat slut.",
+        table_intro: "Tabel: {caption}",
+        table_skipped: "En tabel springes over.",
+        caption: "Billedtekst: {text}",
+        image: "Billede: {text}",
+        code_skipped: "Et kodeeksempel springes over.",
+        code_summary: "Kodeeksempel: {text}",
+        summary_intro: "Kort fortalt:",
+    },
+};
+
+/** The English cues, for rendering without a configuration. */
+export const DEFAULT_SPEECH: SpeechConfig = {
+    heading: "{text}",
+    heading_pause_ms: 1000,
+    list_intro: "",
+    ordered_item: "{n}. {text}",
+    unordered_item: "{text}",
+    ...ENGLISH_CUES,
+    block_pause_ms: 500,
+};
+
+/**
+ * The default cues for a target language; English for languages without
+ * defaults.
+ */
+export function defaultSpeechFor(targetLanguage: string): SpeechConfig {
+    const code = findLanguage(targetLanguage)?.code;
+    return { ...DEFAULT_SPEECH, ...((code && CUES_BY_LANGUAGE[code]) || ENGLISH_CUES) };
+}
+
+/**
+ * The cues to use: the configured ones, falling back to the defaults for
+ * the translation target language. A cue set to "" stays empty.
+ */
+export function speechCues(config: AppConfig): SpeechConfig {
+    const configured = Object.entries(config.speech ?? {}).filter(([, value]) => value !== undefined);
+    return { ...defaultSpeechFor(config.translation.target_language), ...Object.fromEntries(configured) };
+}
+
+export const DEFAULT_CONTENT: ContentPolicies = {
+    mode: "full",
+    summary_words: 150,
+    code: "skip",
+    tables: "read",
+    images: "skip",
+    captions: "read",
+};
+
+export const EPISODE_MODES: EpisodeMode[] = ["full", "summary", "summary_intro"];
+
+/**
+ * The content policies for an article: the global ones, overridden by
+ * those of its tags (matched case-insensitively, in configured order).
+ */
+export function contentPolicies(config?: ContentConfig, tags: string[] = []): ContentPolicies {
+    const policies: ContentPolicies = {
+        mode: config?.mode ?? DEFAULT_CONTENT.mode,
+        summary_words: config?.summary_words ?? DEFAULT_CONTENT.summary_words,
+        code: config?.code ?? DEFAULT_CONTENT.code,
+        tables: config?.tables ?? DEFAULT_CONTENT.tables,
+        images: config?.images ?? DEFAULT_CONTENT.images,
+        captions: config?.captions ?? DEFAULT_CONTENT.captions,
+    };
+    const articleTags = new Set(tags.map((t) => t.toLowerCase()));
+    for (const [tag, overrides] of Object.entries(config?.by_tag ?? {})) {
+        if (articleTags.has(tag.toLowerCase())) Object.assign(policies, overrides);
+    }
+    return policies;
+}
+
+/** A chapter starts here. Without a title, the text that follows names it. */
+export interface ChapterMark {
+    chapter: string | null;
+}
+
+/** Text, a pause (in ms) or a chapter start. */
+export type SpeechSegment = string | number | ChapterMark;
+
+const PAUSE_PARAGRAPH = /^\[pause (\d+)ms\]$/;
+const PHONEME = /⟪([^|⟪⟫]*)\|([^|⟪⟫]*)⟫/g;
+const CHAPTER_PARAGRAPH = /^\[chapter(?: (.*))?\]$/;
+
+/** Longest pause a single marker can ask for. */
+const MAX_PAUSE_MS = 10_000;
+
+/** Headings down to this level (h1–h3) start a chapter. */
+const MAX_CHAPTER_LEVEL = 3;
+
+/** Longest chapter title taken from the text. */
+const MAX_CHAPTER_TITLE = 100;
+
+export function pauseMarker(ms: number): string {
+    return `[pause ${Math.round(ms)}ms]`;
+}
+
+export function chapterMarker(title?: string | null): string {
+    const clean = title?.replace(/\s+/g, " ").trim();
+    return clean ? `[chapter ${clean}]` : "[chapter]";
+}
+
+/** Say `text` the way the IPA transcription `ipa` has it. */
+export function phonemeMarker(text: string, ipa: string): string {
+    const clean = (value: string) => value.replace(/[|⟪⟫]/g, "").trim();
+    return `⟪${clean(text)}|${clean(ipa)}⟫`;
+}
+
+/**
+ * Escape text for SSML, turning phoneme markers into `<phoneme>`
+ * elements. A voice that ignores them reads the word as written.
+ */
+export function speechToSsml(text: string): string {
+    let result = "";
+    let last = 0;
+    for (const match of text.matchAll(PHONEME)) {
+        const [marker, word, ipa] = match;
+        result += escapeXml(text.slice(last, match.index));
+        result += `<phoneme alphabet="ipa" ph="${escapeXml(ipa)}">${escapeXml(word)}</phoneme>`;
+        last = match.index! + marker.length;
+    }
+    return result + escapeXml(text.slice(last));
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+/**
+ * Split TTS text into text segments, pauses (numbers, in ms) and chapter
+ * starts. Consecutive text paragraphs stay together in one segment.
+ */
+export function splitSpeech(text: string): SpeechSegment[] {
+    const segments: SpeechSegment[] = [];
+    let current: string[] = [];
+    const flush = () => {
+        if (current.length > 0) segments.push(current.join("\n\n"));
+        current = [];
+    };
+
+    for (const paragraph of text.split(/\n{2,}/)) {
+        const pause = paragraph.trim().match(PAUSE_PARAGRAPH);
+        const chapter = paragraph.trim().match(CHAPTER_PARAGRAPH);
+        if (pause) {
+            flush();
+            segments.push(Math.min(Number(pause[1]), MAX_PAUSE_MS));
+        } else if (chapter) {
+            flush();
+            segments.push({ chapter: chapter[1]?.trim() || null });
+        } else if (paragraph.trim()) {
+            current.push(paragraph);
+        }
+    }
+    flush();
+
+    return segments;
+}
+
+/** Put split segments back together as TTS text. */
+export function joinSpeech(segments: SpeechSegment[]): string {
+    return segments
+        .map((segment) => {
+            if (typeof segment === "number") return pauseMarker(segment);
+            if (typeof segment === "object") return chapterMarker(segment.chapter);
+            return segment;
+        })
+        .join("\n\n");
+}
+
+/** Remove pause and chapter markers, e.g. for display or word counts. */
+export function stripMarkers(text: string): string {
+    return splitSpeech(text)
+        .filter((s): s is string => typeof s === "string")
+        .join("\n\n");
+}
+
+/**
+ * Give every untitled chapter marker the title of the text that follows
+ * it, so titles are taken before the text is normalized for speech.
+ */
+export function nameChapters(text: string): string {
+    const segments = splitSpeech(text);
+    return joinSpeech(segments.map((segment, i) => {
+        if (typeof segment !== "object" || segment.chapter) return segment;
+        const next = segments.slice(i + 1).find((s): s is string => typeof s === "string");
+        return { chapter: next ? chapterTitle(next) : null };
+    }));
+}
+
+/**
+ * The title for a chapter from the text that follows its marker: the
+ * first line (the heading as read aloud), without closing punctuation.
+ */
+export function chapterTitle(text: string): string {
+    const line = text.trim().split("\n")[0].replace(PHONEME, "$1").replace(/[.:;]+$/, "").trim();
+    return line.length > MAX_CHAPTER_TITLE ? `${line.slice(0, MAX_CHAPTER_TITLE - 1)}…` : line;
+}
+
+/**
+ * Render article blocks to TTS text using the given cues. The policies
+ * decide whether code, tables, image alt text and captions are read.
+ */
+export function renderSpeech(
+    blocks: ArticleBlock[],
+    cues: SpeechConfig = DEFAULT_SPEECH,
+    policies: ContentPolicies = DEFAULT_CONTENT
+): string {
+    const paragraphs: string[] = [];
+    let pendingPause = 0;
+    let pendingChapter = false;
+
+    const pause = (ms: number) => {
+        pendingPause = Math.max(pendingPause, ms);
+    };
+    const emit = (text: string) => {
+        if (!text.trim()) return;
+        // No pause at the very start; the intro already leads in
+        if (pendingPause > 0 && paragraphs.length > 0) {
+            paragraphs.push(pauseMarker(pendingPause));
+        }
+        if (pendingChapter) paragraphs.push(chapterMarker());
+        pendingPause = 0;
+        pendingChapter = false;
+        paragraphs.push(text);
+    };
+
+    const render = (block: ArticleBlock) => {
+        switch (block.type) {
+            case "heading":
+                pause(cues.heading_pause_ms);
+                pendingChapter = block.level <= MAX_CHAPTER_LEVEL;
+                emit(sentence(fill(cues.heading, { text: block.text })));
+                break;
+            case "paragraph":
+                emit(block.text);
+                break;
+            case "caption":
+                if (policies.captions === "read") {
+                    emit(sentence(fill(cues.caption, { text: block.text })));
+                }
+                break;
+            case "image":
+                if (policies.images === "alt") {
+                    emit(sentence(fill(cues.image, { text: block.alt })));
+                }
+                break;
+            case "code": {
+                pause(cues.block_pause_ms);
+                if (policies.code === "verbatim") {
+                    emit(block.text);
+                } else if (policies.code === "summarize" && block.summary) {
+                    emit(sentence(fill(cues.code_summary, { text: block.summary })));
+                } else {
+                    // Skipped, or not summarized (no translation API)
+                    emit(sentence(fill(cues.code_skipped, {
+                        language: block.language ?? "",
+                        lines: String(block.text.split("\n").length),
+                    })));
+                }
+                pause(cues.block_pause_ms);
+                break;
+            }
+            case "list": {
+                pause(cues.block_pause_ms);
+                const lines = block.items.map((text, i) => sentence(fill(
+                    block.ordered ? cues.ordered_item : cues.unordered_item,
+                    { text, n: String(i + 1) }
+                )));
+                const intro = fill(cues.list_intro, { count: String(block.items.length) });
+                emit([...(intro ? [intro] : []), ...lines].join("\n"));
+                pause(cues.block_pause_ms);
+                break;
+            }
+            case "quote":
+                pause(cues.block_pause_ms);
+                emit(cues.quote_start);
+                block.blocks.forEach(render);
+                emit(cues.quote_end);
+                pause(cues.block_pause_ms);
+                break;
+            case "table": {
+                pause(cues.block_pause_ms);
+                if (policies.tables === "skip") {
+                    emit(sentence(fill(cues.table_skipped, {
+                        caption: block.caption,
+                        count: String(block.rows.length),
+                    })));
+                    pause(cues.block_pause_ms);
+                    break;
+                }
+                const rows = block.rows.map((cells) => sentence(
+                    cells
+                        .map((cell, i) => (block.headers[i] ? `${block.headers[i]}: ${cell}` : cell))
+                        .join(", ")
+                ));
+                const intro = fill(cues.table_intro, {
+                    caption: block.caption,
+                    count: String(block.rows.length),
+                });
+                emit([...(intro ? [sentence(intro)] : []), ...rows].join("\n"));
+                pause(cues.block_pause_ms);
+                break;
+            }
+        }
+    };
+
+    blocks.forEach(render);
+    return paragraphs.join("\n\n");
+}
+
+/**
+ * Fill {placeholders} in a cue template. Separators left dangling by an
+ * empty value ("Table: ") are dropped.
+ */
+function fill(template: string, values: Record<string, string>): string {
+    let hadEmpty = false;
+    const filled = template.replace(/\{(\w+)\}/g, (match, key: string) => {
+        if (!(key in values)) return match;
+        if (!values[key]) hadEmpty = true;
+        return values[key];
+    });
+
+    const text = filled.replace(/\s+/g, " ").trim();
+    return hadEmpty ? text.replace(/\s*[:,;–-]$/, "") : text;
+}
+
+/** End with punctuation so TTS closes the sentence before what follows. */
+function sentence(text: string): string {
+    if (!text) return text;
+    return /[.!?:;…"”')]$/.test(text) ? text : `${text}.`;
+}
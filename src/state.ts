@@ -1,6 +1,12 @@
 import { readFileSync, writeFileSync, renameSync, mkdirSync } from "node:fs";
 import { join, dirname } from "node:path";
-import type { AppState, ProcessedBookmark } from "./types.js";
+import type {
+    AppState,
+    FilteredArticle,
+    InstapaperBookmark,
+    ProcessedBookmark,
+    SyncedBookmarkList,
+} from "./types.js";
 
 const EMPTY_STATE: AppState = {
     processedBookmarks: {},
@@ -10,17 +16,24 @@ const EMPTY_STATE: AppState = {
 export class StateManager {
     private state: AppState;
     private readonly filePath: string;
+    private readonly listsPath: string;
 
     constructor(dataDir: string) {
         mkdirSync(dataDir, { recursive: true });
         this.filePath = join(dataDir, "state.json");
+        // Synced lists can hold thousands of bookmarks, so they live apart
+        // from the state that every run and admin request rewrites
+        this.listsPath = join(dataDir, "bookmark-lists.json");
         this.state = this.load();
     }
 
     private load(): AppState {
         try {
             const content = readFileSync(this.filePath, "utf-8");
-            return JSON.parse(content) as AppState;
+            const state = JSON.parse(content) as AppState & { bookmarkLists?: unknown };
+            // Older versions kept the synced lists here; they resync once
+            delete state.bookmarkLists;
+            return state;
         } catch {
             return { ...EMPTY_STATE, processedBookmarks: {} };
         }
@@ -28,17 +41,27 @@ export class StateManager {
 
     /** Atomically persist state to disk (write temp → rename). */
     save(): void {
-        const tmpPath = this.filePath + ".tmp";
-        mkdirSync(dirname(this.filePath), { recursive: true });
-        writeFileSync(tmpPath, JSON.stringify(this.state, null, 2), "utf-8");
-        renameSync(tmpPath, this.filePath);
+        writeJsonAtomic(this.filePath, this.state);
     }
 
     isProcessed(bookmarkId: string): boolean {
         return bookmarkId in this.state.processedBookmarks;
     }
 
+    getProcessed(bookmarkId: string): ProcessedBookmark | null {
+        return this.state.processedBookmarks[bookmarkId] ?? null;
+    }
+
+    updateProcessed(bookmarkId: string, changes: Partial<ProcessedBookmark>): void {
+        this.state = this.load();
+        const bookmark = this.state.processedBookmarks[bookmarkId];
+        if (!bookmark) return;
+        this.state.processedBookmarks[bookmarkId] = { ...bookmark, ...changes, bookmarkId };
+        this.save();
+    }
+
     addProcessed(bookmark: ProcessedBookmark): void {
+        this.state = this.load();
         this.state.processedBookmarks[bookmark.bookmarkId] = bookmark;
         this.state.lastRun = new Date().toISOString();
         this.save();
@@ -58,10 +81,82 @@ export class StateManager {
     }
 
     updateLastRun(): void {
+        this.state = this.load();
         this.state.lastRun = new Date().toISOString();
         this.save();
     }
 
+    /**
+     * Prefix ids that predate source namespacing (plain Instapaper bookmark
+     * ids) with the given namespace. The old id is kept as the feed GUID so
+     * podcast apps don't see the episodes as new.
+     */
+    namespaceLegacyIds(namespace: string): void {
+        this.state = this.load();
+        let changed = false;
+
+        for (const [id, bookmark] of Object.entries(this.state.processedBookmarks)) {
+            if (id.includes(":")) continue;
+
+            const namespacedId = `${namespace}:${id}`;
+            delete this.state.processedBookmarks[id];
+            this.state.processedBookmarks[namespacedId] = {
+                ...bookmark,
+                bookmarkId: namespacedId,
+                guid: bookmark.guid ?? id,
+            };
+            changed = true;
+        }
+
+        if (changed) this.save();
+    }
+
+    getBookmarkList(key: string): SyncedBookmarkList | null {
+        return this.loadBookmarkLists()[key] ?? null;
+    }
+
+    setBookmarkList(key: string, bookmarks: InstapaperBookmark[]): void {
+        const lists = this.loadBookmarkLists();
+        lists[key] = {
+            bookmarks,
+            syncedAt: new Date().toISOString(),
+        };
+        writeJsonAtomic(this.listsPath, lists);
+    }
+
+    private loadBookmarkLists(): Record<string, SyncedBookmarkList> {
+        try {
+            return JSON.parse(readFileSync(this.listsPath, "utf-8")) as Record<string, SyncedBookmarkList>;
+        } catch {
+            return {};
+        }
+    }
+
+    getFilteredArticles(): FilteredArticle[] {
+        this.state = this.load();
+        return Object.values(this.state.filteredArticles ?? {}).sort(
+            (a, b) => b.filteredAt.localeCompare(a.filteredAt)
+        );
+    }
+
+    getFiltered(id: string): FilteredArticle | null {
+        return this.state.filteredArticles?.[id] ?? null;
+    }
+
+    /** Replace all filtered-article records with the outcome of the current run. */
+    setFilteredArticles(records: FilteredArticle[]): void {
+        this.state = this.load();
+        this.state.filteredArticles = Object.fromEntries(records.map((r) => [r.id, r]));
+        this.save();
+    }
+
+    addFiltered(record: FilteredArticle): void {
+        this.state = this.load();
+        this.state.filteredArticles ??= {};
+        this.state.filteredArticles[record.id] = record;
+        this.save();
+    }
+
     removeProcessed(bookmarkId: string): boolean {
         this.state = this.load();
         if (bookmarkId in this.state.processedBookmarks) {
@@ -72,3 +167,10 @@ export class StateManager {
         return false;
     }
 }
+
+function writeJsonAtomic(filePath: string, data: unknown): void {
+    const tmpPath = filePath + ".tmp";
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(tmpPath, JSON.stringify(data, null, 2), "utf-8");
+    renameSync(tmpPath, filePath);
+}
@@ -0,0 +1,164 @@
+import { createHash } from "node:crypto";
+import {
+    mkdirSync,
+    readdirSync,
+    readFileSync,
+    renameSync,
+    unlinkSync,
+    writeFileSync,
+} from "node:fs";
+import { basename, join } from "node:path";
+import type { ArticleSource, EpisodeMode, SourceArticle } from "./types.js";
+
+export const WEB_NAMESPACE = "web";
+
+/** Runs a submission is tried in before it is moved to queue/failed. */
+export const MAX_ATTEMPTS = 3;
+
+/** An article submitted through the admin UI/API, waiting for the pipeline. */
+export interface QueuedArticle {
+    id: string;
+    title: string;
+    url: string;
+    html: string;
+    author?: string | null; // byline found on the page
+    mode?: EpisodeMode;     // chosen on submission, over the configured one
+    submittedAt: string; // ISO 8601
+    attempts?: number;   // failed runs so far
+    lastError?: string;  // why the last run failed
+}
+
+function queueDir(dataDir: string): string {
+    return join(dataDir, "queue");
+}
+
+function queuePath(dataDir: string, id: string): string {
+    return join(queueDir(dataDir), `${id.replace(/[^a-zA-Z0-9_-]+/g, "-")}.json`);
+}
+
+/**
+ * Build the namespaced episode id for a submission: the URL if there is
+ * one, otherwise the HTML itself.
+ */
+export function submittedArticleId(url: string, html: string): string {
+    const hash = createHash("sha1")
+        .update(url || html)
+        .digest("hex")
+        .slice(0, 16);
+    return `${WEB_NAMESPACE}:${hash}`;
+}
+
+/**
+ * Persist a submitted article so the next pipeline run (a separate
+ * process) picks it up.
+ */
+export function queueArticle(
+    dataDir: string,
+    article: Omit<QueuedArticle, "submittedAt">
+): QueuedArticle {
+    mkdirSync(queueDir(dataDir), { recursive: true });
+
+    const queued: QueuedArticle = {
+        ...article,
+        submittedAt: new Date().toISOString(),
+    };
+
+    writeQueued(queuePath(dataDir, article.id), queued);
+    return queued;
+}
+
+/** Atomic write (temp → rename) so the pipeline never reads a partial file. */
+function writeQueued(path: string, article: QueuedArticle): void {
+    writeFileSync(path + ".tmp", JSON.stringify(article), "utf-8");
+    renameSync(path + ".tmp", path);
+}
+
+/**
+ * List all queued submissions, oldest first.
+ */
+export function listQueuedArticles(dataDir: string): QueuedArticle[] {
+    let files: string[];
+    try {
+        files = readdirSync(queueDir(dataDir)).filter((f) => f.endsWith(".json"));
+    } catch {
+        return [];
+    }
+
+    const articles: QueuedArticle[] = [];
+    for (const file of files) {
+        try {
+            const content = readFileSync(join(queueDir(dataDir), file), "utf-8");
+            articles.push(JSON.parse(content) as QueuedArticle);
+        } catch (err) {
+            console.error(`[queue] Skipping unreadable queue file ${file}:`, err);
+        }
+    }
+
+    return articles.sort((a, b) => a.submittedAt.localeCompare(b.submittedAt));
+}
+
+/**
+ * Article source for one-off submissions from the admin UI/API.
+ * Successfully processed submissions are removed from the queue; failed
+ * ones are retried on the next runs, up to MAX_ATTEMPTS, and then moved
+ * to `queue/failed` with the last error.
+ */
+export class SubmittedSource implements ArticleSource {
+    readonly name = WEB_NAMESPACE;
+    readonly skipFilters = true;
+    private dataDir: string;
+    private articles = new Map<string, QueuedArticle>();
+
+    constructor(dataDir: string) {
+        this.dataDir = dataDir;
+    }
+
+    async listArticles(): Promise<SourceArticle[]> {
+        this.articles.clear();
+        for (const article of listQueuedArticles(this.dataDir)) {
+            this.articles.set(article.id, article);
+        }
+
+        return [...this.articles.values()].map(({ id, title, url, author, mode }) => ({ id, title, url, author, mode }));
+    }
+
+    async fetchHtml(article: SourceArticle): Promise<string> {
+        return this.articles.get(article.id)?.html ?? "";
+    }
+
+    async onProcessed(article: SourceArticle): Promise<void> {
+        try {
+            unlinkSync(queuePath(this.dataDir, article.id));
+        } catch (err) {
+            console.error(`[queue] Failed to remove ${article.id} from queue:`, err);
+        }
+    }
+
+    async onFailed(article: SourceArticle, error: unknown): Promise<void> {
+        const queued = this.articles.get(article.id);
+        if (!queued) return;
+
+        const path = queuePath(this.dataDir, article.id);
+        const attempts = (queued.attempts ?? 0) + 1;
+        const failed: QueuedArticle = {
+            ...queued,
+            attempts,
+            lastError: error instanceof Error ? error.message : String(error),
+        };
+        try {
+            if (attempts < MAX_ATTEMPTS) {
+                writeQueued(path, failed);
+                console.warn(`[queue] ${article.id} failed (attempt ${attempts} of ${MAX_ATTEMPTS}), retrying next run`);
+                return;
+            }
+
+            const failedDir = join(queueDir(this.dataDir), "failed");
+            mkdirSync(failedDir, { recursive: true });
+            writeQueued(join(failedDir, basename(path)), failed);
+            unlinkSync(path);
+            console.log(`[queue] Moved ${article.id} to failed after ${attempts} attempts: ${failed.lastError}`);
+        } catch (err) {
+            console.error(`[queue] Failed to record the failure of ${article.id}:`, err);
+        }
+    }
+}
@@ -0,0 +1,152 @@
+/**
+ * token-store.ts — Encrypted persistence of the Instapaper OAuth token.
+ *
+ * The token is encrypted with AES-256-GCM. The key is derived from
+ * INSTAPOD_TOKEN_KEY if set. Otherwise a random key is created in data_dir,
+ * readable by the owner only: that keeps the token out of backups and logs
+ * that copy the token file alone, but anyone who can read data_dir can
+ * decrypt it. Only INSTAPOD_TOKEN_KEY keeps the key out of data_dir.
+ */
+import {
+    createCipheriv,
+    createDecipheriv,
+    randomBytes,
+    scryptSync,
+} from "node:crypto";
+import {
+    mkdirSync,
+    readFileSync,
+    renameSync,
+    unlinkSync,
+    writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+import type { OAuthToken } from "./types.js";
+
+const TOKEN_FILE = "instapaper-token.json";
+const KEY_FILE = "instapaper-token.key";
+const KEY_SALT = "instapod-instapaper-token";
+const KEY_BYTES = 32;
+
+interface StoredToken {
+    username: string;
+    connectedAt: string; // ISO 8601
+    iv: string;          // base64
+    tag: string;         // base64
+    data: string;        // base64
+}
+
+export interface TokenInfo {
+    username: string;
+    connectedAt: string;
+}
+
+function tokenPath(dataDir: string): string {
+    return join(dataDir, TOKEN_FILE);
+}
+
+/**
+ * The encryption key: derived from INSTAPOD_TOKEN_KEY, or else the random
+ * key in data_dir, created when `create` is set. Null without a key.
+ */
+function tokenKey(dataDir: string, create: boolean): Buffer | null {
+    const fromEnv = process.env.INSTAPOD_TOKEN_KEY;
+    if (fromEnv) return scryptSync(fromEnv, KEY_SALT, KEY_BYTES);
+
+    const path = join(dataDir, KEY_FILE);
+    try {
+        const key = Buffer.from(readFileSync(path, "utf-8").trim(), "base64");
+        if (key.length === KEY_BYTES) return key;
+    } catch {
+        // Not created yet
+    }
+    if (!create) return null;
+
+    const key = randomBytes(KEY_BYTES);
+    mkdirSync(dataDir, { recursive: true });
+    writeFileSync(path + ".tmp", key.toString("base64"), { encoding: "utf-8", mode: 0o600 });
+    renameSync(path + ".tmp", path);
+    return key;
+}
+
+function readStored(dataDir: string): StoredToken | null {
+    try {
+        return JSON.parse(readFileSync(tokenPath(dataDir), "utf-8")) as StoredToken;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Encrypt and persist a token (write temp → rename, owner-only permissions).
+ */
+export function saveToken(
+    dataDir: string,
+    username: string,
+    token: OAuthToken
+): void {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", tokenKey(dataDir, true)!, iv);
+    const data = Buffer.concat([
+        cipher.update(JSON.stringify(token), "utf-8"),
+        cipher.final(),
+    ]);
+
+    const stored: StoredToken = {
+        username,
+        connectedAt: new Date().toISOString(),
+        iv: iv.toString("base64"),
+        tag: cipher.getAuthTag().toString("base64"),
+        data: data.toString("base64"),
+    };
+
+    mkdirSync(dataDir, { recursive: true });
+    const path = tokenPath(dataDir);
+    writeFileSync(path + ".tmp", JSON.stringify(stored, null, 2), { encoding: "utf-8", mode: 0o600 });
+    renameSync(path + ".tmp", path);
+}
+
+/**
+ * Load and decrypt the stored token. Returns null if there is none or it
+ * can't be decrypted (e.g. the key changed).
+ */
+export function loadToken(dataDir: string): OAuthToken | null {
+    const stored = readStored(dataDir);
+    if (!stored) return null;
+
+    try {
+        const key = tokenKey(dataDir, false);
+        if (!key) throw new Error("No token key");
+        const decipher = createDecipheriv(
+            "aes-256-gcm",
+            key,
+            Buffer.from(stored.iv, "base64")
+        );
+        decipher.setAuthTag(Buffer.from(stored.tag, "base64"));
+        const plain = Buffer.concat([
+            decipher.update(Buffer.from(stored.data, "base64")),
+            decipher.final(),
+        ]).toString("utf-8");
+        return JSON.parse(plain) as OAuthToken;
+    } catch {
+        console.warn("[instapaper] Stored token could not be decrypted; reconnect Instapaper");
+        return null;
+    }
+}
+
+/**
+ * Who the stored token belongs to, without decrypting it.
+ */
+export function getTokenInfo(dataDir: string): TokenInfo | null {
+    const stored = readStored(dataDir);
+    return stored ? { username: stored.username, connectedAt: stored.connectedAt } : null;
+}
+
+export function clearToken(dataDir: string): boolean {
+    try {
+        unlinkSync(tokenPath(dataDir));
+        return true;
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,101 @@
+/**
+ * translation-cache.ts — Translations kept in data_dir, so an article whose
+ * synthesis failed, or that is regenerated, is not paid for twice.
+ *
+ * Each entry is a file named after a hash of the text, the system prompt,
+ * the model and the target language; changing any of them misses the cache.
+ */
+import { createHash } from "node:crypto";
+import {
+    mkdirSync,
+    readdirSync,
+    readFileSync,
+    renameSync,
+    statSync,
+    unlinkSync,
+    writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+
+const CACHE_DIR = "translation-cache";
+
+export interface TranslationCacheStats {
+    entries: number;
+    bytes: number;
+}
+
+export class TranslationCache {
+    private readonly dir: string;
+
+    constructor(dataDir: string) {
+        this.dir = join(dataDir, CACHE_DIR);
+    }
+
+    static key(text: string, prompt: string, model: string, targetLanguage: string): string {
+        return createHash("sha256")
+            .update(JSON.stringify([model, targetLanguage, prompt, text]))
+            .digest("hex");
+    }
+
+    get(key: string): string | null {
+        try {
+            return readFileSync(this.path(key), "utf-8");
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Store a translation (write temp → rename, so readers never see half a
+     * file). A failed write only costs the cache entry.
+     */
+    set(key: string, translation: string): void {
+        const tmpPath = `${this.path(key)}.tmp`;
+        try {
+            mkdirSync(this.dir, { recursive: true });
+            writeFileSync(tmpPath, translation, "utf-8");
+            renameSync(tmpPath, this.path(key));
+        } catch (err) {
+            console.warn(`[translation-cache] Could not store a translation: ${(err as Error).message}`);
+        }
+    }
+
+    stats(): TranslationCacheStats {
+        const stats: TranslationCacheStats = { entries: 0, bytes: 0 };
+        for (const file of this.files()) {
+            try {
+                stats.bytes += statSync(join(this.dir, file)).size;
+                stats.entries++;
+            } catch {
+                // Purged meanwhile
+            }
+        }
+        return stats;
+    }
+
+    /** Delete every entry. Returns the number deleted. */
+    purge(): number {
+        let deleted = 0;
+        for (const file of this.files()) {
+            try {
+                unlinkSync(join(this.dir, file));
+                deleted++;
+            } catch {
+                // Already gone
+            }
+        }
+        return deleted;
+    }
+
+    private path(key: string): string {
+        return join(this.dir, `${key}.txt`);
+    }
+
+    private files(): string[] {
+        try {
+            return readdirSync(this.dir).filter((f) => f.endsWith(".txt"));
+        } catch {
+            return [];
+        }
+    }
+}
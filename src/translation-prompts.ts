@@ -1,9 +1,30 @@
+import type { GlossaryEntry } from "./types.js";
+
 export const DEFAULT_TITLE_PROMPT_TEMPLATE =
     "You are a translator. Translate the following title to {{target_language}}. Return only the translated title, nothing else.";
 
 export const DEFAULT_TEXT_PROMPT_TEMPLATE =
     "You are a translator. Translate the following text to {{target_language}}. Preserve paragraph breaks. Return only the translated text, nothing else.";
 
+export const CODE_SUMMARY_PROMPT_TEMPLATE =
+    "You describe code samples to someone listening to an article. In one or two sentences in {{target_language}}, say what the following code does. Do not read out code. Return only the description, nothing else.";
+
+export const CONTEXT_SUMMARY_PROMPT_TEMPLATE =
+    "You keep a running summary of an article that is being translated to {{target_language}}. Update the summary with the new text. Write at most three sentences in {{target_language}} and name the people, places and terms that matter. Return only the summary, nothing else.";
+
+export const ARTICLE_SUMMARY_PROMPT_TEMPLATE =
+    "You summarize articles for someone who will listen to the summary instead of reading. Summarize the following article in {{target_language}} in about {{words}} words. Write plain spoken sentences: no headings, lists, markdown or URLs. Keep the key facts, names and conclusions. Return only the summary, nothing else.";
+
+/** Appended to the text prompt when a chunk has pause or chapter placeholders. */
+export const MARKER_INSTRUCTIONS =
+    "\n\nThe text contains numbered markers such as ⟦1⟧. Keep every marker unchanged, on a line of its own, in the same place.";
+
+/** What the translator knows about the text before the current chunk. */
+export interface TranslationContext {
+    summary: string;
+    previous: { source: string; translation: string } | null;
+}
+
 export function resolveTranslationPrompt(
     template: string | undefined,
     targetLanguage: string,
@@ -15,3 +36,42 @@ export function resolveTranslationPrompt(
 
     return source.replace(/\{\{\s*target_language\s*\}\}/g, targetLanguage);
 }
+
+/**
+ * Glossary instructions for the entries whose term occurs in the text,
+ * to append to a prompt. Empty when none occur.
+ */
+export function glossaryInstructions(glossary: GlossaryEntry[] | undefined, text: string): string {
+    const lines = (glossary ?? [])
+        .filter((entry) => entry.term.trim() && containsTerm(text, entry.term.trim()))
+        .map((entry) => entry.translation?.trim()
+            ? `- "${entry.term.trim()}" → "${entry.translation.trim()}"`
+            : `- "${entry.term.trim()}": keep untranslated`);
+    if (lines.length === 0) return "";
+    return `\n\nUse this glossary consistently:\n${lines.join("\n")}`;
+}
+
+/**
+ * Context instructions to append to the text prompt, so names, terms and
+ * tone carry over between separately translated chunks.
+ */
+export function contextInstructions(context: TranslationContext): string {
+    const parts: string[] = [];
+    if (context.summary) {
+        parts.push(`Summary of the article so far:\n${context.summary}`);
+    }
+    if (context.previous) {
+        parts.push(
+            `The previous paragraph:\n${context.previous.source}\n\n` +
+            `Its translation:\n${context.previous.translation}`
+        );
+    }
+    if (parts.length === 0) return "";
+    return "\n\nContext from earlier in the article, for consistency only; do not translate it or include it in your answer.\n\n" +
+        parts.join("\n\n");
+}
+
+function containsTerm(text: string, term: string): boolean {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, "iu").test(text);
+}
@@ -0,0 +1,308 @@
+/**
+ * translation-providers.ts — Adapters for the translation APIs Instapod can
+ * talk to, selected by `translation.provider`.
+ *
+ * LLM providers get a system prompt and follow it, so they also write code
+ * and context summaries. Machine translation APIs (DeepL's text and
+ * document APIs, LibreTranslate) only translate: they ignore prompts and
+ * glossary instructions.
+ *
+ * Every adapter reports the tokens used, from the response when the API
+ * says, estimated otherwise, and the characters sent.
+ */
+import { findLanguage } from "./languages.js";
+import { estimateTokens, type RequestUsage } from "./translation-usage.js";
+import type { TranslationConfig, TranslationProviderName } from "./types.js";
+
+export interface ProviderRequest {
+    system: string;  // instructions, for providers that follow prompts
+    text: string;
+    context: string; // plain earlier text, for machine translation APIs that take it
+}
+
+export interface ProviderResponse {
+    text: string;
+    usage: RequestUsage;
+}
+
+export interface TranslationProvider {
+    readonly name: TranslationProviderName;
+    readonly followsPrompts: boolean;
+    send(request: ProviderRequest, config: TranslationConfig): Promise<ProviderResponse>;
+}
+
+const TIMEOUT_MS = 120_000;
+const TEMPERATURE = 0.3;
+
+/** Anthropic requires a response length; long chunks need the room. */
+const ANTHROPIC_MAX_TOKENS = 8192;
+const ANTHROPIC_VERSION = "2023-06-01";
+
+/** Bounds on the wait between status checks of a DeepL document. */
+const DOCUMENT_POLL_MIN_MS = 1_000;
+const DOCUMENT_POLL_MAX_MS = 10_000;
+
+interface DeeplDocumentStatus {
+    document_id: string;
+    status: "queued" | "translating" | "done" | "error";
+    seconds_remaining?: number;
+    billed_characters?: number;
+    error_message?: string;
+}
+
+const openAi: TranslationProvider = {
+    name: "openai",
+    followsPrompts: true,
+    async send({ system, text }, config) {
+        const data = await postJson<{
+            choices: Array<{ message: { content: string } }>;
+            usage?: { prompt_tokens?: number; completion_tokens?: number };
+        }>(
+            `${baseUrl(config)}/chat/completions`,
+            { Authorization: `Bearer ${config.api_key}` },
+            {
+                model: config.model,
+                messages: [
+                    { role: "system", content: system },
+                    { role: "user", content: text },
+                ],
+                temperature: TEMPERATURE,
+            }
+        );
+        const result = data.choices[0].message.content;
+        return {
+            text: result,
+            usage: tokenUsage(system, text, result, data.usage?.prompt_tokens, data.usage?.completion_tokens),
+        };
+    },
+};
+
+const anthropic: TranslationProvider = {
+    name: "anthropic",
+    followsPrompts: true,
+    async send({ system, text }, config) {
+        const data = await postJson<{
+            content: Array<{ type: string; text?: string }>;
+            usage?: { input_tokens?: number; output_tokens?: number };
+        }>(
+            `${baseUrl(config)}/messages`,
+            { "x-api-key": config.api_key, "anthropic-version": ANTHROPIC_VERSION },
+            {
+                model: config.model,
+                max_tokens: ANTHROPIC_MAX_TOKENS,
+                system,
+                messages: [{ role: "user", content: text }],
+                temperature: TEMPERATURE,
+            }
+        );
+        const result = data.content
+            .filter((block) => block.type === "text")
+            .map((block) => block.text ?? "")
+            .join("");
+        return {
+            text: result,
+            usage: tokenUsage(system, text, result, data.usage?.input_tokens, data.usage?.output_tokens),
+        };
+    },
+};
+
+const ollama: TranslationProvider = {
+    name: "ollama",
+    followsPrompts: true,
+    async send({ system, text }, config) {
+        const data = await postJson<{
+            message: { content: string };
+            prompt_eval_count?: number;
+            eval_count?: number;
+        }>(
+            `${baseUrl(config)}/api/chat`,
+            config.api_key ? { Authorization: `Bearer ${config.api_key}` } : {},
+            {
+                model: config.model,
+                messages: [
+                    { role: "system", content: system },
+                    { role: "user", content: text },
+                ],
+                stream: false,
+                options: { temperature: TEMPERATURE },
+            }
+        );
+        const result = data.message.content;
+        return {
+            text: result,
+            usage: tokenUsage(system, text, result, data.prompt_eval_count, data.eval_count),
+        };
+    },
+};
+
+const deepl: TranslationProvider = {
+    name: "deepl",
+    followsPrompts: false,
+    async send({ text, context }, config) {
+        const data = await postJson<{ translations: Array<{ text: string; billed_characters?: number }> }>(
+            `${baseUrl(config)}/v2/translate`,
+            { Authorization: `DeepL-Auth-Key ${config.api_key}` },
+            {
+                text: [text],
+                target_lang: deeplLanguage(languageCode(config.target_language)),
+                ...(context ? { context } : {}),
+                preserve_formatting: true,
+                show_billed_characters: true,
+            }
+        );
+        const billed = data.translations.reduce((sum, t) => sum + (t.billed_characters ?? 0), 0);
+        return {
+            text: data.translations.map((t) => t.text).join("\n\n"),
+            usage: { inputTokens: 0, outputTokens: 0, characters: billed || text.length },
+        };
+    },
+};
+
+/**
+ * DeepL's document API: the text is uploaded as a .txt file, its status
+ * polled until DeepL has translated it, and the result downloaded, after
+ * which DeepL deletes the document. It takes no context.
+ */
+const deeplDocument: TranslationProvider = {
+    name: "deepl_document",
+    followsPrompts: false,
+    async send({ text }, config) {
+        const base = baseUrl(config);
+        const auth = { Authorization: `DeepL-Auth-Key ${config.api_key}` };
+
+        const form = new FormData();
+        form.append("target_lang", deeplLanguage(languageCode(config.target_language)));
+        form.append("file", new Blob([text], { type: "text/plain" }), "article.txt");
+        const { document_id: id, document_key: key } = await (
+            await post(`${base}/v2/document`, auth, form)
+        ).json() as { document_id: string; document_key: string };
+
+        const deadline = Date.now() + TIMEOUT_MS;
+        let status: DeeplDocumentStatus;
+        for (;;) {
+            status = await postJson<DeeplDocumentStatus>(`${base}/v2/document/${id}`, auth, { document_key: key });
+            if (status.status === "done") break;
+            if (status.status === "error") {
+                throw new Error(`DeepL could not translate the document: ${status.error_message ?? "unknown error"}`);
+            }
+            if (Date.now() >= deadline) {
+                throw new Error(`DeepL did not translate the document within ${TIMEOUT_MS / 1000}s`);
+            }
+            const wait = (status.seconds_remaining ?? 0) * 1000;
+            await new Promise((r) => setTimeout(r, Math.min(Math.max(wait, DOCUMENT_POLL_MIN_MS), DOCUMENT_POLL_MAX_MS)));
+        }
+
+        const result = await post(
+            `${base}/v2/document/${id}/result`,
+            { "Content-Type": "application/json", ...auth },
+            JSON.stringify({ document_key: key })
+        );
+        return {
+            text: (await result.text()).replace(/^\uFEFF/, ""),
+            usage: { inputTokens: 0, outputTokens: 0, characters: status.billed_characters || text.length },
+        };
+    },
+};
+
+const libreTranslate: TranslationProvider = {
+    name: "libretranslate",
+    followsPrompts: false,
+    async send({ text }, config) {
+        const data = await postJson<{ translatedText: string }>(
+            `${baseUrl(config)}/translate`,
+            {},
+            {
+                q: text,
+                source: "auto",
+                target: languageCode(config.target_language),
+                format: "text",
+                ...(config.api_key ? { api_key: config.api_key } : {}),
+            }
+        );
+        return {
+            text: data.translatedText,
+            usage: { inputTokens: 0, outputTokens: 0, characters: text.length },
+        };
+    },
+};
+
+const PROVIDERS: Record<TranslationProviderName, TranslationProvider> = {
+    openai: openAi,
+    anthropic,
+    ollama,
+    deepl,
+    deepl_document: deeplDocument,
+    libretranslate: libreTranslate,
+};
+
+/** The adapter for the configured provider; OpenAI-compatible by default. */
+export function providerFor(config: TranslationConfig): TranslationProvider {
+    const name = config.provider ?? "openai";
+    const provider = PROVIDERS[name];
+    if (!provider) {
+        throw new Error(`Unknown translation provider: ${name}`);
+    }
+    return provider;
+}
+
+/** The ISO 639-1 code for a target language name; unknown ones pass through. */
+export function languageCode(targetLanguage: string): string {
+    return findLanguage(targetLanguage)?.code ?? targetLanguage.trim().toLowerCase();
+}
+
+/** Tokens as reported by the API, or estimated from the text when it doesn't say. */
+function tokenUsage(
+    system: string,
+    text: string,
+    result: string,
+    inputTokens: number | undefined,
+    outputTokens: number | undefined
+): RequestUsage {
+    return {
+        inputTokens: inputTokens ?? estimateTokens(system + text),
+        outputTokens: outputTokens ?? estimateTokens(result),
+        characters: text.length,
+    };
+}
+
+/** DeepL wants upper case and a regional variant for English and Portuguese. */
+function deeplLanguage(code: string): string {
+    if (code === "en") return "EN-US";
+    if (code === "pt") return "PT-PT";
+    return code.toUpperCase();
+}
+
+function baseUrl(config: TranslationConfig): string {
+    return config.api_base.replace(/\/$/, "");
+}
+
+async function postJson<T>(
+    url: string,
+    headers: Record<string, string>,
+    body: unknown
+): Promise<T> {
+    const response = await post(url, { "Content-Type": "application/json", ...headers }, JSON.stringify(body));
+    return (await response.json()) as T;
+}
+
+/** POST a body, throwing on an error status. FormData sets its own content type. */
+async function post(
+    url: string,
+    headers: Record<string, string>,
+    body: string | FormData
+): Promise<Response> {
+    const response = await fetch(url, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+        const text = await response.text();
+        console.error(`[translator] API error (${response.status}):`, text);
+        throw new Error(`Translation API error (${response.status})`);
+    }
+
+    return response;
+}
@@ -0,0 +1,149 @@
+/**
+ * translation-usage.ts — What translation costs: tokens and characters per
+ * request, priced from `translation.prices`, and added up per day in
+ * data_dir for the admin UI and the monthly budget.
+ *
+ * Usage is taken from the API response; providers that don't report it
+ * get an estimate of four characters per token.
+ */
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import type { TranslationConfig, TranslationEndpoint, TranslationPrice, TranslationUsage } from "./types.js";
+
+const USAGE_FILE = "translation-usage.json";
+
+const CHARS_PER_TOKEN = 4;
+
+/** Tokens and characters of one request, before pricing. */
+export type RequestUsage = Omit<TranslationUsage, "cost">;
+
+/**
+ * Prices in USD per million tokens (characters for machine translation),
+ * for models missing from `translation.prices`. Check them against your plan.
+ */
+export const DEFAULT_PRICES: Record<string, TranslationPrice> = {
+    "gpt-4o-mini": { input: 0.15, output: 0.6 },
+    "gpt-4o": { input: 2.5, output: 10 },
+    "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+    "gpt-4.1": { input: 2, output: 8 },
+    "claude-3-5-haiku-latest": { input: 0.8, output: 4 },
+    "claude-sonnet-4-0": { input: 3, output: 15 },
+    deepl: { characters: 25 },
+    deepl_document: { characters: 25 },
+};
+
+export function emptyUsage(): TranslationUsage {
+    return { inputTokens: 0, outputTokens: 0, characters: 0, cost: 0 };
+}
+
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/** Add `usage` into `total`, in place. */
+export function addUsage(total: TranslationUsage, usage: TranslationUsage): TranslationUsage {
+    total.inputTokens += usage.inputTokens;
+    total.outputTokens += usage.outputTokens;
+    total.characters += usage.characters;
+    total.cost += usage.cost;
+    return total;
+}
+
+/**
+ * The price for an endpoint, looked up as "provider/model", then the
+ * model, then the provider; configured prices before the defaults. Null
+ * when unknown, e.g. for a local model, which costs nothing.
+ */
+export function priceFor(
+    endpoint: TranslationEndpoint,
+    prices: Record<string, TranslationPrice> = {}
+): TranslationPrice | null {
+    const provider = endpoint.provider ?? "openai";
+    const keys = [`${provider}/${endpoint.model}`, endpoint.model, provider];
+    for (const table of [prices, DEFAULT_PRICES]) {
+        const key = keys.find((k) => k && table[k]);
+        if (key) return table[key];
+    }
+    return null;
+}
+
+export function priceUsage(usage: RequestUsage, price: TranslationPrice | null): TranslationUsage {
+    const cost = price
+        ? (usage.inputTokens * (price.input ?? 0) +
+            usage.outputTokens * (price.output ?? 0) +
+            usage.characters * (price.characters ?? 0)) / 1_000_000
+        : 0;
+    return { ...usage, cost };
+}
+
+/**
+ * Daily totals in data_dir. The file is re-read on every call, so the
+ * admin UI and articles processed side by side see the latest totals.
+ */
+export class UsageLedger {
+    private readonly filePath: string;
+
+    constructor(dataDir: string) {
+        this.filePath = join(dataDir, USAGE_FILE);
+    }
+
+    record(usage: TranslationUsage, now = new Date()): void {
+        const days = this.load();
+        const day = dayKey(now);
+        days[day] = addUsage(days[day] ?? emptyUsage(), usage);
+        this.save(days);
+    }
+
+    day(date = new Date()): TranslationUsage {
+        return this.load()[dayKey(date)] ?? emptyUsage();
+    }
+
+    month(date = new Date()): TranslationUsage {
+        const month = dayKey(date).slice(0, 7);
+        return Object.entries(this.load())
+            .filter(([day]) => day.startsWith(month))
+            .reduce((total, [, usage]) => addUsage(total, usage), emptyUsage());
+    }
+
+    private load(): Record<string, TranslationUsage> {
+        try {
+            return JSON.parse(readFileSync(this.filePath, "utf-8")) as Record<string, TranslationUsage>;
+        } catch {
+            return {};
+        }
+    }
+
+    private save(days: Record<string, TranslationUsage>): void {
+        const tmpPath = `${this.filePath}.tmp`;
+        try {
+            mkdirSync(dirname(this.filePath), { recursive: true });
+            writeFileSync(tmpPath, JSON.stringify(days, null, 2), "utf-8");
+            renameSync(tmpPath, this.filePath);
+        } catch (err) {
+            console.warn(`[translator] Could not store translation usage: ${(err as Error).message}`);
+        }
+    }
+}
+
+/**
+ * Thrown instead of sending a request when this month's budget is used up
+ * and no free endpoint or cached translation could answer.
+ */
+export class TranslationBudgetError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "TranslationBudgetError";
+    }
+}
+
+/** Whether this month's cost has reached `translation.monthly_budget`; never without one. */
+export function budgetReached(config: TranslationConfig, ledger: UsageLedger, now = new Date()): boolean {
+    const budget = config.monthly_budget ?? 0;
+    return budget > 0 && ledger.month(now).cost >= budget;
+}
+
+/** YYYY-MM-DD in local time, so days end at the user's midnight. */
+function dayKey(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, "0");
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
@@ -1,64 +1,189 @@
-import { franc } from "franc-min";
-import type { TranslationConfig } from "./types.js";
+import { franc } from "franc";
+import type { TranslationConfig, TranslationEndpoint, TranslationUsage } from "./types.js";
 import {
+    ARTICLE_SUMMARY_PROMPT_TEMPLATE,
+    CODE_SUMMARY_PROMPT_TEMPLATE,
+    CONTEXT_SUMMARY_PROMPT_TEMPLATE,
     DEFAULT_TEXT_PROMPT_TEMPLATE,
     DEFAULT_TITLE_PROMPT_TEMPLATE,
+    MARKER_INSTRUCTIONS,
+    contextInstructions,
+    glossaryInstructions,
     resolveTranslationPrompt,
+    type TranslationContext,
 } from "./translation-prompts.js";
+import { joinSpeech, splitSpeech, stripMarkers, type SpeechSegment } from "./speech.js";
+import { TranslationCache } from "./translation-cache.js";
+import { providerFor, type ProviderResponse, type TranslationProvider } from "./translation-providers.js";
+import { CircuitBreakers, DEFAULT_COOLDOWN_MINUTES } from "./circuit-breaker.js";
+import { findLanguage, isLanguage } from "./languages.js";
+import {
+    addUsage,
+    budgetReached,
+    priceFor,
+    priceUsage,
+    TranslationBudgetError,
+    type UsageLedger,
+} from "./translation-usage.js";
 
-/** ISO‑639‑3 codes for common target language names. */
-const LANG_NAME_TO_CODE: Record<string, string> = {
-    svenska: "swe",
-    swedish: "swe",
-    english: "eng",
-    engelska: "eng",
-    deutsch: "deu",
-    tyska: "deu",
-    french: "fra",
-    franska: "fra",
-    spanish: "spa",
-    spanska: "spa",
-    norwegian: "nor",
-    norska: "nor",
-    danish: "dan",
-    danska: "dan",
-};
+/** Shared state for the requests made for one article. */
+export interface TranslateOptions {
+    cache?: TranslationCache;     // reuse earlier translations
+    breakers?: CircuitBreakers;   // skip endpoints that keep failing
+    producedBy?: Set<string>;     // filled with "provider/model" of every endpoint that answered
+    usage?: TranslationUsage;     // tokens, characters and cost of every request are added to it
+    ledger?: UsageLedger;         // daily totals, for the admin UI and the monthly budget
+}
 
 const MAX_CHARS_PER_CHUNK = 12_000; // ~4 000 tokens
 
+/** The running summary is updated after about this much translated text. */
+const SUMMARY_INTERVAL_CHARS = 4_000;
+
+/** Longer articles are cut to this length before they are summarized. */
+const MAX_SUMMARY_INPUT_CHARS = 100_000; // ~25 000 tokens
+
+/** The previous paragraph sent as context is cut to this length. */
+const MAX_CONTEXT_PARAGRAPH_CHARS = 1_000;
+
+/** Shorter paragraphs are too short to detect; they go with their neighbours. */
+const MIN_DETECT_CHARS = 40;
+
+/** Pauses and chapter starts inside a chunk are sent as "⟦1⟧", "⟦2⟧", … */
+const MARKER_PLACEHOLDER = /\s*⟦(\d+)⟧\s*/g;
+
 /**
- * Detect language using franc-min. Returns ISO‑639‑3 code.
+ * A run of paragraphs, and whether it needs translating. The markers are
+ * those its placeholders stand for, in order.
+ */
+interface TextRun {
+    text: string;
+    translate: boolean;
+    markers?: SpeechSegment[];
+}
+
+/**
+ * Detect language using franc. Returns ISO‑639‑3 code, "und" when unsure.
  */
 export function detectLanguage(text: string): string {
     return franc(text);
 }
 
 /**
- * Translate text via an OpenAI-compatible chat completions API.
- * Skips translation if the text is already in the target language.
+ * The language an article is written in, for the episode: an ISO 639-1
+ * code, or the ISO 639-3 code for languages that aren't listed. Null when
+ * it can't be told.
+ */
+export function detectSourceLanguage(text: string): string | null {
+    const iso3 = detectLanguage(stripMarkers(text));
+    if (iso3 === "und") return null;
+    return findLanguage(iso3)?.code ?? iso3;
+}
+
+/**
+ * Translate text via the configured provider (an OpenAI-compatible chat
+ * completions API by default).
+ * With skip_if_same, paragraphs already in the target language are kept.
+ * Pause and chapter markers are sent as numbered placeholders, so the text
+ * around them goes out in one request, and are put back in place.
+ * Each request after the first carries a running summary of the article
+ * and the previous paragraph with its translation, and glossary terms
+ * found in the text. With a cache, chunks translated before are not sent
+ * again.
  */
 export async function translateText(
     text: string,
-    config: TranslationConfig
+    config: TranslationConfig,
+    options: TranslateOptions = {}
 ): Promise<string> {
-    if (config.skip_if_same) {
-        const detected = detectLanguage(text);
-        const targetCode =
-            LANG_NAME_TO_CODE[config.target_language.toLowerCase()] ?? "";
-        if (detected === targetCode) {
-            return text;
+    const prompt = resolveTranslationPrompt(
+        config.text_prompt,
+        config.target_language,
+        DEFAULT_TEXT_PROMPT_TEMPLATE
+    );
+    const pieces = splitSpeech(text).flatMap((segment): Array<TextRun | SpeechSegment> => {
+        if (typeof segment !== "string") return [segment];
+        const runs = config.skip_if_same
+            ? splitByLanguage(segment, config.target_language)
+            : [{ text: segment, translate: true }];
+        return runs.flatMap((run) => run.translate
+            ? splitIntoChunks(run.text, MAX_CHARS_PER_CHUNK).map((chunk) => ({ text: chunk, translate: true }))
+            : [run]);
+    });
+    const chunks = mergeRuns(pieces, MAX_CHARS_PER_CHUNK);
+    const summarize = canSummarize(config);
+    const useContext = config.context ?? true;
+    const context: TranslationContext = { summary: "", previous: null };
+    let unsummarized = "";
+    const translated: SpeechSegment[] = [];
+
+    for (const [i, piece] of chunks.entries()) {
+        if (!isTextRun(piece)) {
+            translated.push(piece);
+            continue;
+        }
+
+        // Paragraphs already in the target language are kept as they are
+        let result = piece.text;
+        if (piece.translate) {
+            const systemPrompt = prompt +
+                (piece.markers ? MARKER_INSTRUCTIONS : "") +
+                glossaryInstructions(config.glossary, piece.text) +
+                (useContext ? contextInstructions(context) : "");
+            result = await translateChunk(piece, config, systemPrompt, options, context.previous?.source);
+        }
+        translated.push(result);
+
+        if (!useContext) continue;
+        const source = piece.text.replace(MARKER_PLACEHOLDER, "\n\n");
+        context.previous = { source: lastParagraph(source), translation: lastParagraph(stripMarkers(result)) };
+        unsummarized += `${source}\n\n`;
+        const more = chunks.slice(i + 1).some((p) => isTextRun(p) && p.translate);
+        if (more && summarize && unsummarized.length >= SUMMARY_INTERVAL_CHARS) {
+            context.summary = await updateSummary(context.summary, unsummarized, config, options);
+            unsummarized = "";
         }
     }
 
-    const chunks = splitIntoChunks(text, MAX_CHARS_PER_CHUNK);
-    const translated: string[] = [];
+    return joinSpeech(translated);
+}
 
-    for (const chunk of chunks) {
-        const result = await callChatCompletions(chunk, config);
-        translated.push(result);
+/**
+ * Translate one chunk and put its markers back. A reply that lost,
+ * repeated or reordered a placeholder is dropped, and the text between
+ * the markers is then translated part by part.
+ */
+async function translateChunk(
+    chunk: TextRun,
+    config: TranslationConfig,
+    systemPrompt: string,
+    options: TranslateOptions,
+    context?: string
+): Promise<string> {
+    const result = await requestTranslation(chunk.text, config, systemPrompt, options, { context });
+    if (!chunk.markers) return result;
+
+    const restored = restoreMarkers(result, chunk.markers);
+    if (restored !== null) return restored;
+
+    console.warn("[translator] Reply lost the pause and chapter placeholders, translating the parts separately");
+    const parts = chunk.text.split(MARKER_PLACEHOLDER).filter((_, i) => i % 2 === 0);
+    const translated: SpeechSegment[] = [];
+    for (const [i, part] of parts.entries()) {
+        translated.push(await requestTranslation(part, config, systemPrompt, options, { context }));
+        if (i < chunk.markers.length) translated.push(chunk.markers[i]);
     }
+    return joinSpeech(translated);
+}
 
-    return translated.join("\n\n");
+/** Put markers back for their placeholders; null unless each appears once, in order. */
+function restoreMarkers(text: string, markers: SpeechSegment[]): string | null {
+    const found = [...text.matchAll(MARKER_PLACEHOLDER)].map((match) => Number(match[1]));
+    if (found.length !== markers.length || found.some((n, i) => n !== i + 1)) return null;
+    return text
+        .replace(MARKER_PLACEHOLDER, (_, n: string) => `\n\n${joinSpeech([markers[Number(n) - 1]])}\n\n`)
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
 }
 
 /**
@@ -66,73 +191,214 @@ export async function translateText(
  */
 export async function translateTitle(
     title: string,
-    config: TranslationConfig
+    config: TranslationConfig,
+    options: TranslateOptions = {}
 ): Promise<string> {
-    if (config.skip_if_same) {
-        const detected = detectLanguage(title);
-        const targetCode =
-            LANG_NAME_TO_CODE[config.target_language.toLowerCase()] ?? "";
-        if (detected === targetCode) {
-            return title;
+    if (config.skip_if_same && isLanguage(detectLanguage(title), config.target_language)) {
+        return title;
+    }
+    return requestTranslation(
+        title,
+        config,
+        resolveTranslationPrompt(config.title_prompt, config.target_language, DEFAULT_TITLE_PROMPT_TEMPLATE) +
+            glossaryInstructions(config.glossary, title),
+        options
+    );
+}
+
+/**
+ * Describe code blocks in a sentence or two, in the target language, for
+ * content.code "summarize". Returns the summaries by code text; a block
+ * that fails is left out and read as skipped instead.
+ */
+export async function summarizeCode(
+    codeBlocks: string[],
+    config: TranslationConfig,
+    options: TranslateOptions = {}
+): Promise<Map<string, string>> {
+    const summaries = new Map<string, string>();
+    if (!canSummarize(config)) return summaries;
+
+    const prompt = resolveTranslationPrompt(undefined, config.target_language, CODE_SUMMARY_PROMPT_TEMPLATE);
+
+    for (const code of new Set(codeBlocks)) {
+        try {
+            summaries.set(code, await requestTranslation(code, config, prompt, options, { promptsOnly: true }));
+        } catch (err) {
+            // Reading the block as skipped would make a different episode
+            if (err instanceof TranslationBudgetError) throw err;
+            console.error(`[translator] Code summary failed: ${(err as Error).message}`);
         }
     }
-    return callChatCompletions(title, config, true);
+
+    return summaries;
 }
 
-async function callChatCompletions(
+/**
+ * A spoken summary of an article, of about `words` words, written in the
+ * target language, for the summary episode modes.
+ */
+export async function summarizeArticle(
     text: string,
+    words: number,
     config: TranslationConfig,
-    isTitle = false
+    options: TranslateOptions = {}
 ): Promise<string> {
-    const systemPrompt = resolveTranslationPrompt(
-        isTitle ? config.title_prompt : config.text_prompt,
-        config.target_language,
-        isTitle ? DEFAULT_TITLE_PROMPT_TEMPLATE : DEFAULT_TEXT_PROMPT_TEMPLATE
-    );
+    const article = stripMarkers(text).slice(0, MAX_SUMMARY_INPUT_CHARS);
+    const prompt = resolveTranslationPrompt(undefined, config.target_language, ARTICLE_SUMMARY_PROMPT_TEMPLATE)
+        .replace(/\{\{\s*words\s*\}\}/g, String(words)) +
+        glossaryInstructions(config.glossary, article);
+    return requestTranslation(article, config, prompt, options, { promptsOnly: true });
+}
 
-    const url = `${config.api_base.replace(/\/$/, "")}/chat/completions`;
+/**
+ * Whether any endpoint follows prompts, so it can write summaries as well
+ * as translate. Machine translation APIs only translate.
+ */
+export function canSummarize(config: TranslationConfig): boolean {
+    return endpointsOf(config).some((e) => providerFor(e).followsPrompts);
+}
 
-    let lastError: Error | null = null;
+/**
+ * Fold newly translated text into the running summary sent along with
+ * later chunks. On failure the old summary is kept; it is only context.
+ */
+async function updateSummary(
+    summary: string,
+    newText: string,
+    config: TranslationConfig,
+    options: TranslateOptions
+): Promise<string> {
+    const prompt = resolveTranslationPrompt(undefined, config.target_language, CONTEXT_SUMMARY_PROMPT_TEMPLATE);
+    const input = summary
+        ? `Summary so far:\n${summary}\n\nNew text:\n${newText.trim()}`
+        : `New text:\n${newText.trim()}`;
+    try {
+        return await requestTranslation(input, config, prompt, options, { promptsOnly: true });
+    } catch (err) {
+        console.error(`[translator] Context summary failed: ${(err as Error).message}`);
+        return summary;
+    }
+}
+
+/** The last paragraph of a chunk, shortened to its end if very long. */
+function lastParagraph(text: string): string {
+    const paragraphs = text.trim().split(/\n{2,}/);
+    const last = paragraphs[paragraphs.length - 1];
+    return last.length > MAX_CONTEXT_PARAGRAPH_CHARS
+        ? `…${last.slice(-MAX_CONTEXT_PARAGRAPH_CHARS)}`
+        : last;
+}
+
+/**
+ * The endpoints to try in order: the primary one, then the fallbacks.
+ * Fallbacks bring their own credentials; nothing is taken from the primary.
+ */
+export function endpointsOf(config: TranslationConfig): TranslationConfig[] {
+    return [
+        config,
+        ...(config.fallbacks ?? []).map((fallback) => ({
+            ...config,
+            provider: fallback.provider ?? "openai",
+            api_base: fallback.api_base,
+            api_key: fallback.api_key ?? "",
+            model: fallback.model,
+            cooldown_minutes: fallback.cooldown_minutes,
+            fallbacks: [],
+        })),
+    ];
+}
+
+/** How an endpoint is named in episode metadata, e.g. "openai/gpt-4o-mini". */
+export function endpointLabel(endpoint: TranslationEndpoint): string {
+    return `${endpoint.provider ?? "openai"}/${endpoint.model}`;
+}
+
+/**
+ * Send one request, trying the endpoints in order and skipping those whose
+ * circuit breaker is open. Each endpoint gets its retries before the next
+ * one is tried. Results are cached per endpoint. Once the monthly budget
+ * is reached, only cached results and endpoints without a price are used.
+ */
+async function requestTranslation(
+    text: string,
+    config: TranslationConfig,
+    systemPrompt: string,
+    options: TranslateOptions,
+    request: { context?: string; promptsOnly?: boolean } = {}
+): Promise<string> {
+    const errors: string[] = [];
+    let overBudget = false;
+
+    for (const endpoint of endpointsOf(config)) {
+        const provider = providerFor(endpoint);
+        if (request.promptsOnly && !provider.followsPrompts) continue;
+
+        const label = endpointLabel(endpoint);
+        const key = TranslationCache.key(text, systemPrompt, label, config.target_language);
+        const cached = options.cache?.get(key);
+        if (cached != null) {
+            options.producedBy?.add(label);
+            return cached;
+        }
+
+        const breakerId = `${label}@${endpoint.api_base}`;
+        if (options.breakers?.isOpen(breakerId)) {
+            errors.push(`${label}: cooling down`);
+            continue;
+        }
+
+        const price = priceFor(endpoint, config.prices);
+        if (price && options.ledger && budgetReached(config, options.ledger)) {
+            errors.push(`${label}: monthly budget reached`);
+            overBudget = true;
+            continue;
+        }
 
-    for (let attempt = 0; attempt < 3; attempt++) {
         try {
-            const response = await fetch(url, {
-                method: "POST",
-                headers: {
-                    "Content-Type": "application/json",
-                    Authorization: `Bearer ${config.api_key}`,
-                },
-                body: JSON.stringify({
-                    model: config.model,
-                    messages: [
-                        { role: "system", content: systemPrompt },
-                        { role: "user", content: text },
-                    ],
-                    temperature: 0.3,
-                }),
-                signal: AbortSignal.timeout(120_000), // 120s timeout
-            });
-
-            if (!response.ok) {
-                const body = await response.text();
-                console.error(`[translator] API error (${response.status}):`, body);
-                throw new Error(
-                    `Translation API error (${response.status})`
-                );
-            }
+            const response = await sendWithRetries(provider, endpoint, systemPrompt, text, request.context ?? "");
+            const result = response.text;
+            options.breakers?.recordSuccess(breakerId);
+            recordUsage(priceUsage(response.usage, price), options);
+            options.cache?.set(key, result);
+            options.producedBy?.add(label);
+            return result;
+        } catch (err) {
+            options.breakers?.recordFailure(breakerId, endpoint.cooldown_minutes ?? DEFAULT_COOLDOWN_MINUTES);
+            errors.push(`${label}: ${(err as Error).message}`);
+        }
+    }
 
-            const data = (await response.json()) as {
-                choices: Array<{ message: { content: string } }>;
-            };
+    if (overBudget) {
+        throw new TranslationBudgetError(
+            `Monthly translation budget of ${config.monthly_budget} reached (${errors.join("; ")})`
+        );
+    }
+    throw new Error(`Translation failed on every endpoint (${errors.join("; ") || "none usable"})`);
+}
 
-            return data.choices[0].message.content.trim();
+async function sendWithRetries(
+    provider: TranslationProvider,
+    endpoint: TranslationConfig,
+    system: string,
+    text: string,
+    context: string
+): Promise<ProviderResponse> {
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+        try {
+            const response = await provider.send({ system, text, context }, endpoint);
+            return { ...response, text: response.text.trim() };
         } catch (err) {
             lastError = err as Error;
             const cause = (err as any)?.cause;
-            console.error(`[translator] Attempt ${attempt + 1} failed: ${(err as Error).message}${cause ? ` (cause: ${cause.code ?? cause.message})` : ""}`);
-            // Exponential backoff: 1s, 2s, 4s
-            const delay = 1000 * Math.pow(2, attempt);
-            await new Promise((r) => setTimeout(r, delay));
+            console.error(`[translator] ${endpointLabel(endpoint)} attempt ${attempt + 1} failed: ${(err as Error).message}${cause ? ` (cause: ${cause.code ?? cause.message})` : ""}`);
+            // Exponential backoff: 1s, 2s; the next endpoint need not wait
+            if (attempt < 2) {
+                const delay = 1000 * Math.pow(2, attempt);
+                await new Promise((r) => setTimeout(r, delay));
+            }
         }
     }
 
@@ -141,6 +407,85 @@ async function callChatCompletions(
     );
 }
 
+function recordUsage(usage: TranslationUsage, options: TranslateOptions): void {
+    if (options.usage) addUsage(options.usage, usage);
+    options.ledger?.record(usage);
+}
+
+/**
+ * Split a segment into runs of paragraphs that are and aren't in the
+ * target language. Paragraphs too short to tell go with the paragraph
+ * before them (or after, at the start); a segment of only short ones is
+ * judged as a whole. Undetermined text is translated.
+ */
+function splitByLanguage(segment: string, targetLanguage: string): TextRun[] {
+    const paragraphs = segment.split(/\n{2,}/);
+    const decisions = paragraphs.map((paragraph) =>
+        paragraph.trim().length >= MIN_DETECT_CHARS
+            ? !isLanguage(detectLanguage(paragraph), targetLanguage)
+            : null
+    );
+
+    const firstKnown = decisions.find((d) => d !== null);
+    let current = firstKnown ?? !isLanguage(detectLanguage(segment), targetLanguage);
+    const runs: TextRun[] = [];
+    paragraphs.forEach((paragraph, i) => {
+        current = decisions[i] ?? current;
+        const last = runs[runs.length - 1];
+        if (last && last.translate === current) {
+            last.text += `\n\n${paragraph}`;
+        } else {
+            runs.push({ text: paragraph, translate: current });
+        }
+    });
+    return runs;
+}
+
+/**
+ * Join the runs to translate, with the pauses and chapter starts between
+ * them, into chunks of up to `maxChars`. Each marker inside a chunk is
+ * replaced by a numbered placeholder paragraph; markers before or after a
+ * chunk, and runs kept as they are, stay outside.
+ */
+function mergeRuns(pieces: Array<TextRun | SpeechSegment>, maxChars: number): Array<TextRun | SpeechSegment> {
+    const merged: Array<TextRun | SpeechSegment> = [];
+    let chunk: TextRun | null = null;
+    let between: SpeechSegment[] = [];
+
+    for (const piece of pieces) {
+        if (!isTextRun(piece)) {
+            if (chunk) between.push(piece);
+            else merged.push(piece);
+            continue;
+        }
+
+        if (chunk && piece.translate && chunk.text.length + piece.text.length <= maxChars) {
+            const markers: SpeechSegment[] = chunk.markers ?? [];
+            for (const marker of between) {
+                markers.push(marker);
+                chunk.text += `\n\n⟦${markers.length}⟧`;
+            }
+            chunk.text += `\n\n${piece.text}`;
+            chunk.markers = markers.length > 0 ? markers : undefined;
+            between = [];
+            continue;
+        }
+
+        if (chunk) merged.push(chunk, ...between);
+        chunk = null;
+        between = [];
+        if (piece.translate) chunk = { ...piece };
+        else merged.push(piece);
+    }
+    if (chunk) merged.push(chunk, ...between);
+
+    return merged;
+}
+
+function isTextRun(piece: TextRun | SpeechSegment): piece is TextRun {
+    return typeof piece === "object" && "translate" in piece;
+}
+
 /**
  * Split text into chunks at sentence boundaries.
  */
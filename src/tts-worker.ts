@@ -2,14 +2,27 @@
  * TTS Worker — runs in a child process to avoid blocking the main event loop.
  * Usage: node tts-worker.js <text> <outputPath> <voice> <rate> <pitch>
  * Receives text via stdin to avoid argv length limits.
+ * Pause markers in the text are rendered as silent MP3 frames; chapter
+ * markers are timed from the audio before them.
  */
 import { EdgeTTS } from "@andresaya/edge-tts";
 import { readFile, writeFile, unlink } from "node:fs/promises";
 import { mkdirSync } from "node:fs";
 import { dirname } from "node:path";
+import { chapterTitle, speechToSsml, splitSpeech } from "./speech.js";
+import { mp3DurationMs } from "./mp3.js";
+import type { Chapter } from "./types.js";
 
 const MAX_CHARS_PER_CHUNK = 5000;
 
+/**
+ * One silent frame in edge-tts' output format (MPEG-2 Layer III, 24 kHz,
+ * 48 kbit/s, mono): a header followed by all-zero side info and data.
+ * 576 samples at 24 kHz, so each frame lasts 24 ms.
+ */
+const SILENT_FRAME = Buffer.concat([Buffer.from([0xff, 0xf3, 0x64, 0xc0]), Buffer.alloc(140)]);
+const SILENT_FRAME_MS = 24;
+
 async function main() {
     // Read arguments from stdin (JSON)
     const chunks: Buffer[] = [];
@@ -21,29 +34,55 @@ async function main() {
 
     mkdirSync(dirname(outputPath), { recursive: true });
 
-    const textChunks = splitTextForTTS(text, MAX_CHARS_PER_CHUNK);
+    const segments = splitSpeech(text);
+    const chapters: Chapter[] = [];
 
-    if (textChunks.length === 1) {
-        await synthesizeChunk(textChunks[0], outputPath, voice, rate, pitch);
+    if (segments.length === 1 && typeof segments[0] === "string" &&
+        segments[0].length <= MAX_CHARS_PER_CHUNK) {
+        await synthesizeChunk(segments[0], outputPath, voice, rate, pitch);
     } else {
-        console.error(`[tts] Splitting into ${textChunks.length} chunks for TTS`);
-        const chunkFiles: string[] = [];
+        const buffers: Buffer[] = [];
+        let part = 0;
+        let elapsedMs = 0;
+
+        for (const [i, segment] of segments.entries()) {
+            if (typeof segment === "number") {
+                const pause = silence(segment);
+                buffers.push(pause);
+                elapsedMs += mp3DurationMs(pause);
+                continue;
+            }
+            if (typeof segment === "object") {
+                const next = segments.slice(i + 1).find((s): s is string => typeof s === "string");
+                const title = segment.chapter ?? (next ? chapterTitle(next) : "");
+                // A chapter that starts where the previous one does replaces it
+                if (chapters.at(-1)?.start === elapsedMs / 1000) chapters.pop();
+                chapters.push({ title, start: elapsedMs / 1000 });
+                continue;
+            }
 
-        for (let i = 0; i < textChunks.length; i++) {
-            const chunkPath = outputPath.replace(/\.mp3$/, `.part${i}.mp3`);
-            await synthesizeChunk(textChunks[i], chunkPath, voice, rate, pitch);
-            chunkFiles.push(chunkPath);
+            for (const chunk of splitTextForTTS(segment, MAX_CHARS_PER_CHUNK)) {
+                const chunkPath = outputPath.replace(/\.mp3$/, `.part${part++}.mp3`);
+                await synthesizeChunk(chunk, chunkPath, voice, rate, pitch);
+                const audio = await readFile(chunkPath);
+                buffers.push(audio);
+                elapsedMs += mp3DurationMs(audio);
+                await unlink(chunkPath).catch(() => { });
+            }
         }
 
-        const buffers = await Promise.all(chunkFiles.map((f) => readFile(f)));
+        const pauses = segments.filter((s) => typeof s === "number").length;
+        console.error(`[tts] Synthesized ${part} chunk(s), ${pauses} pause(s) and ${chapters.length} chapter(s)`);
         await writeFile(outputPath, Buffer.concat(buffers));
-        await Promise.all(chunkFiles.map((f) => unlink(f).catch(() => { })));
     }
 
-    // Output file size for duration estimation
-    const { stat } = await import("node:fs/promises");
-    const fileInfo = await stat(outputPath);
-    process.stdout.write(JSON.stringify({ size: fileInfo.size }));
+    // The parent falls back to the size if no frames could be read
+    const audio = await readFile(outputPath);
+    process.stdout.write(JSON.stringify({
+        size: audio.length,
+        durationMs: mp3DurationMs(audio),
+        chapters,
+    }));
 }
 
 async function synthesizeChunk(
@@ -54,11 +93,23 @@ async function synthesizeChunk(
     pitch: string
 ): Promise<void> {
     const tts = new EdgeTTS();
+    // The client escapes the text into its own SSML through escapeXML;
+    // escaping it our way instead lets lexicon phonemes through.
+    const client = tts as unknown as { escapeXML?: (text: string) => string };
+    if (typeof client.escapeXML !== "function") {
+        throw new Error("This edge-tts version no longer builds its SSML through escapeXML");
+    }
+    client.escapeXML = speechToSsml;
     await tts.synthesize(text, voice, { rate, pitch });
     const basePath = outputPath.replace(/\.mp3$/, "");
     await tts.toFile(basePath);
 }
 
+function silence(ms: number): Buffer {
+    const frames = Math.max(1, Math.round(ms / SILENT_FRAME_MS));
+    return Buffer.concat(Array.from({ length: frames }, () => SILENT_FRAME));
+}
+
 function splitTextForTTS(text: string, maxChars: number): string[] {
     if (text.length <= maxChars) return [text];
 
@@ -2,25 +2,60 @@ import { spawn } from "node:child_process";
 import { dirname, join } from "node:path";
 import { mkdirSync } from "node:fs";
 import { fileURLToPath } from "node:url";
-import type { TtsConfig } from "./types.js";
+import type { Chapter, TtsConfig } from "./types.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
+/** edge-tts output is 48 kbit/s; used when the frames cannot be read. */
+const BYTES_PER_SECOND = 6000;
+
+/** What synthesis produced: the duration in seconds and when chapters start. */
+export interface SynthesisResult {
+    duration: number;
+    chapters: Chapter[];
+}
+
+/** Turns text into an mp3 file. */
+export interface TtsEngine {
+    synthesize(text: string, outputPath: string, config: TtsConfig): Promise<SynthesisResult>;
+}
+
+const edgeTtsEngine: TtsEngine = { synthesize: synthesizeWithEdgeTts };
+let engine: TtsEngine = edgeTtsEngine;
+
+/**
+ * Replace the TTS engine (e.g. with a fake in tests). Pass null to go back
+ * to edge-tts.
+ */
+export function setTtsEngine(replacement: TtsEngine | null): void {
+    engine = replacement ?? edgeTtsEngine;
+}
+
+/**
+ * Synthesize text to an mp3 file with the current TTS engine.
+ */
+export async function synthesize(
+    text: string,
+    outputPath: string,
+    config: TtsConfig
+): Promise<SynthesisResult> {
+    return engine.synthesize(text, outputPath, config);
+}
+
 /**
  * Synthesize text to an mp3 file using edge-tts in a child process.
  * This prevents TTS from blocking the main event loop (Express).
- * Returns the duration in seconds.
  */
-export async function synthesize(
+async function synthesizeWithEdgeTts(
     text: string,
     outputPath: string,
     config: TtsConfig
-): Promise<number> {
+): Promise<SynthesisResult> {
     mkdirSync(dirname(outputPath), { recursive: true });
 
     const workerPath = join(__dirname, "tts-worker.js");
 
-    return new Promise<number>((resolve, reject) => {
+    return new Promise<SynthesisResult>((resolve, reject) => {
         const child = spawn("node", [workerPath], {
             stdio: ["pipe", "pipe", "inherit"],
         });
@@ -43,8 +78,8 @@ export async function synthesize(
 
             try {
                 const result = JSON.parse(stdout);
-                const estimatedDuration = Math.round(result.size / 16000);
-                resolve(estimatedDuration);
+                const durationMs = result.durationMs || result.size / BYTES_PER_SECOND * 1000;
+                resolve({ duration: Math.round(durationMs / 1000), chapters: result.chapters ?? [] });
             } catch {
                 reject(new Error(`TTS worker returned invalid output: ${stdout}`));
             }
@@ -64,7 +99,7 @@ export async function synthesize(
 }
 
 /**
- * Generate a safe filename from a title and bookmark ID.
+ * Generate a safe filename from a title and a (namespaced) bookmark ID.
  */
 export function generateFilename(bookmarkId: string, title: string): string {
     const safe = title
@@ -75,5 +110,7 @@ export function generateFilename(bookmarkId: string, title: string): string {
         .replace(/^-+|-+$/g, "")
         .slice(0, 60);
 
-    return `${bookmarkId}-${safe}.mp3`;
+    const safeId = bookmarkId.replace(/[^a-zA-Z0-9_-]+/g, "-");
+
+    return `${safeId}-${safe}.mp3`;
 }
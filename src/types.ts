@@ -4,21 +4,87 @@ export interface InstapaperConfig {
     consumer_key: string;
     consumer_secret: string;
     username: string;
-    password: string;
+    password?: string; // only needed until Instapaper is connected from the admin UI
+    api_base?: string; // defaults to https://www.instapaper.com (override for testing)
+    incremental_sync?: boolean; // only fetch bookmark changes since the last run
+    regenerate_on_change?: boolean; // re-create episodes whose article text changed
+    remove_missing?: boolean; // delete episodes whose bookmark was deleted
+    remove_missing_after_days?: number; // grace period before deleting
+    post_process?: PostProcessConfig;
+}
+
+/** Write-back actions applied to a bookmark after the pipeline handles it. */
+export interface PostProcessConfig {
+    archive: boolean;
+    move_to_folder: string;       // folder name or ID, empty = don't move
+    add_tag: string;              // e.g. "podded", empty = none
+    failure_tag: string;          // added when processing fails, empty = none
 }
 
 export interface FilterConfig {
     tags: string[];
+    folders?: string[];       // folder names or IDs
+    exclude_tags?: string[];  // skip articles carrying any of these tags
+    allow_domains?: string[]; // only these domains (and subdomains), empty = all
+    deny_domains?: string[];  // never these domains (and subdomains)
+    min_words?: number;       // 0 = no minimum, counted after parsing
+    max_words?: number;       // 0 = no maximum, counted after parsing
+    max_age_days?: number;    // 0 = no limit, based on when the article was saved
+}
+
+export interface SourcesConfig {
+    rss?: RssSourceConfig;
 }
 
-export interface TranslationConfig {
+export interface RssSourceConfig {
+    feeds: string[];    // RSS or Atom feed URLs
+    max_items: number;  // newest items considered per feed and run
+}
+
+/** The API `translation.api_base` points at. */
+export type TranslationProviderName =
+    "openai" | "anthropic" | "ollama" | "deepl" | "deepl_document" | "libretranslate";
+
+/** One translation API and model; the primary one or a fallback. */
+export interface TranslationEndpoint {
+    provider?: TranslationProviderName; // default "openai": any OpenAI-compatible API
     api_base: string;
     api_key: string;
     model: string;
+    cooldown_minutes?: number; // skipped this long after failing repeatedly, default 15
+}
+
+export interface TranslationConfig extends TranslationEndpoint {
+    fallbacks?: TranslationEndpoint[]; // tried in order when the primary endpoint fails
     target_language: string;
     skip_if_same: boolean;
     title_prompt: string;
     text_prompt: string;
+    context?: boolean;         // send a summary of earlier text and the previous paragraph along
+    glossary?: GlossaryEntry[];
+    prices?: Record<string, TranslationPrice>; // by "provider/model", model or provider
+    monthly_budget?: number;   // paid requests pause once this month's cost reaches it; 0 = none
+}
+
+/** Price per million tokens, or characters for machine translation APIs. */
+export interface TranslationPrice {
+    input?: number;
+    output?: number;
+    characters?: number;
+}
+
+/** Tokens and characters sent and received, and what they cost. */
+export interface TranslationUsage {
+    inputTokens: number;
+    outputTokens: number;
+    characters: number; // text sent for translation
+    cost: number;       // in the currency of the price table
+}
+
+/** A term translated the same way in every article. */
+export interface GlossaryEntry {
+    term: string;
+    translation?: string; // empty = keep the term untranslated
 }
 
 export interface TtsConfig {
@@ -27,6 +93,88 @@ export interface TtsConfig {
     pitch: string;
 }
 
+/**
+ * How document structure is read aloud. Templates use {text}, {count}
+ * (list length) and {caption} (table caption); pauses are in milliseconds.
+ * Unset cues default to the target language's (see speech.ts).
+ */
+export interface SpeechConfig {
+    heading: string;          // e.g. "Section: {text}"
+    heading_pause_ms: number; // silence before each heading
+    list_intro: string;       // e.g. "A list of {count} items:", empty = none
+    ordered_item: string;     // e.g. "{n}. {text}"
+    unordered_item: string;
+    quote_start: string;      // e.g. "Quote:"
+    quote_end: string;        // e.g. "End quote."
+    table_intro: string;      // e.g. "Table: {caption}"
+    table_skipped: string;    // read instead of a skipped table, empty = nothing
+    caption: string;          // figure captions, e.g. "Image caption: {text}"
+    image: string;            // image alt text, e.g. "Image: {text}"
+    code_skipped: string;     // read instead of a skipped code block, {language} and {lines}
+    code_summary: string;     // e.g. "Code sample: {text}"
+    summary_intro: string;    // read before a summary that precedes the full text, e.g. "In short:"
+    block_pause_ms: number;   // silence around lists, quotes, tables and code
+}
+
+/** The full text, a spoken summary only, or a summary read before the full text. */
+export type EpisodeMode = "full" | "summary" | "summary_intro";
+
+/**
+ * How much of an article is read (all of it or a summary), and how code
+ * blocks, tables, image alt text and figure captions are read.
+ */
+export interface ContentPolicies {
+    mode: EpisodeMode;
+    summary_words: number; // length of summaries in the summary modes
+    code: "skip" | "summarize" | "verbatim";
+    tables: "read" | "skip";
+    images: "skip" | "alt";
+    captions: "read" | "skip";
+}
+
+/** Policies for all articles, with overrides for articles carrying a tag. */
+export interface ContentConfig extends ContentPolicies {
+    by_tag?: Record<string, Partial<ContentPolicies>>;
+}
+
+/** Clutter removed from article HTML before it is read aloud. */
+export interface CleanupConfig {
+    builtin: boolean;     // newsletter prompts, share text, credits, footnotes, URLs
+    rules: CleanupRule[];
+}
+
+/** User-defined cleanup; patterns are case-insensitive regular expressions. */
+export interface CleanupRule {
+    domains?: string[];          // only for these domains (and subdomains), empty = all
+    remove_selectors?: string[]; // CSS selectors of elements to remove
+    drop_paragraphs?: string[];  // drop paragraphs matching any of these
+    remove_text?: string[];      // delete matching text inside paragraphs
+}
+
+/** Rewriting of the TTS text so it is read the way a person would. */
+export interface NormalizationConfig {
+    enabled: boolean; // numbers, dates, units, currency, abbreviations; URLs and emoji dropped
+    lexicon: LexiconEntry[];
+}
+
+/** A word the voice mispronounces and what to say instead. */
+export interface LexiconEntry {
+    word: string;         // whole word or phrase; all caps ("US") only matches all caps
+    replacement?: string; // respelling, e.g. "Nvidia" → "Envidia"
+    phoneme?: string;     // IPA, e.g. "ˈɛnvɪdiə"; sent to the voice as SSML <phoneme>, over the replacement
+}
+
+/**
+ * Text read before and after each episode and the episode description in
+ * the feed. Placeholders: {{title}}, {{source}}, {{author}}, {{date}} and
+ * {{word_count}}. Empty = the default for the target language.
+ */
+export interface EpisodeTemplatesConfig {
+    intro?: string;            // e.g. "An article from {{source}}. {{title}}."
+    outro?: string;            // read after the article; no default
+    feed_description?: string; // e.g. "Article from {{source}}"
+}
+
 export interface ScheduleConfig {
     cron: string;
 }
@@ -53,8 +201,14 @@ export interface AdminConfig {
 export interface AppConfig {
     instapaper: InstapaperConfig;
     filters: FilterConfig;
+    sources?: SourcesConfig;
     translation: TranslationConfig;
     tts: TtsConfig;
+    speech?: Partial<SpeechConfig>;
+    content?: ContentConfig;
+    cleanup?: CleanupConfig;
+    templates?: EpisodeTemplatesConfig;
+    normalization?: NormalizationConfig;
     schedule: ScheduleConfig;
     server: ServerConfig;
     feed: FeedConfig;
@@ -64,29 +218,128 @@ export interface AppConfig {
 
 // ── Article types ──
 
+/** An article offered by an ArticleSource, before its HTML is fetched. */
+export interface SourceArticle {
+    id: string;    // namespaced per source, e.g. "instapaper:123"
+    title: string;
+    url: string;
+    tags?: string[];
+    savedAt?: string | null; // ISO 8601, when the article was saved/published
+    author?: string | null;
+    hash?: string;           // source-provided hash that changes with the content
+    mode?: EpisodeMode;      // chosen for this article, over the tag and global ones
+}
+
+/**
+ * A place articles come from (Instapaper, RSS feeds, …).
+ * Sources list candidate articles, fetch their HTML on demand and may
+ * react to the outcome, e.g. by archiving the article upstream.
+ */
+export interface ArticleSource {
+    readonly name: string; // id namespace
+    readonly skipFilters?: boolean; // true for sources the user picks articles from by hand
+    listArticles(): Promise<SourceArticle[]>;
+    /** Set by listArticles when part of the source could not be listed, e.g. one of several feeds. */
+    readonly listedInPart?: boolean;
+    fetchHtml(article: SourceArticle): Promise<string>;
+    /** Re-create episodes whose article hash and text changed since processing. */
+    readonly regenerateOnChange?: boolean;
+    /**
+     * Every article id in the source, ignoring the filters; null when the
+     * listing was cut short and missing articles can't be told apart.
+     */
+    listAllIds?(): Promise<string[] | null>;
+    /** Days after which an episode whose article is gone from `listAllIds` is deleted. */
+    readonly removeMissingAfterDays?: number;
+    onProcessed?(article: SourceArticle): Promise<void>;
+    onFailed?(article: SourceArticle, error: unknown): Promise<void>;
+}
+
+/** Structural unit of an article, kept so it can be read aloud with cues. */
+export type ArticleBlock =
+    | { type: "heading"; level: number; text: string }
+    | { type: "paragraph"; text: string }
+    | { type: "list"; ordered: boolean; items: string[] }
+    | { type: "quote"; blocks: ArticleBlock[] }
+    | { type: "table"; caption: string; headers: string[]; rows: string[][] }
+    | { type: "caption"; text: string }
+    | { type: "code"; text: string; language: string | null; summary?: string }
+    | { type: "image"; alt: string };
+
 export interface ParsedArticle {
     bookmarkId: string;
     title: string;
     source: string;
-    body: string;
+    blocks: ArticleBlock[];
+    body: string; // blocks rendered for TTS, with spoken cues and pause markers
+    wordCount: number;
     introText: string;
-    fullText: string; // intro + body combined for TTS
+    outroText: string; // empty unless an outro template is configured
+    fullText: string;  // intro + body + outro combined for TTS
+    templateValues: TemplateValues; // for re-rendering the intro after translation
+}
+
+/** Values for the {{placeholders}} in episode templates. */
+export interface TemplateValues {
+    title: string;
+    source: string;
+    author: string;
+    date: string; // already formatted for the target language
+    word_count: string;
 }
 
 // ── State types ──
 
+/** A chapter of an episode: an article heading or, in multi-article episodes, an article. */
+export interface Chapter {
+    title: string;
+    start: number; // seconds from the start of the episode
+}
+
 export interface ProcessedBookmark {
-    bookmarkId: string;
+    bookmarkId: string; // namespaced source id, e.g. "instapaper:123"
+    guid?: string;      // feed GUID, if different from bookmarkId
     title: string;
     source: string;
     filename: string;
     duration: number; // seconds
     pubDate: string;  // ISO 8601
+    author?: string;
+    wordCount?: number;
+    chapters?: Chapter[];
+    translatedBy?: string[]; // "provider/model" of the endpoints that translated it
+    sourceLanguage?: string; // detected language of the article, ISO 639-1 where listed
+    translationUsage?: TranslationUsage;
+    mode?: EpisodeMode; // set when the episode is a summary or starts with one
+    contentHash?: string; // SourceArticle.hash when the episode was made
+    textHash?: string;    // sha1 of the parsed text the episode was made from
+    regeneratedAt?: string; // ISO 8601, last time the episode was re-created
+    missingSince?: string;  // ISO 8601, first run the article was no longer listed
 }
 
 export interface AppState {
     processedBookmarks: Record<string, ProcessedBookmark>;
     lastRun: string | null; // ISO 8601
+    filteredArticles?: Record<string, FilteredArticle>;
+}
+
+/** An article that matched a source but was kept out by config.filters. */
+export interface FilteredArticle {
+    id: string;
+    title: string;
+    url: string;
+    reason: string;
+    wordCount?: number; // known once the text was fetched and parsed
+    filteredAt: string; // ISO 8601
+}
+
+/**
+ * Local copy of an Instapaper bookmark list, used for incremental sync.
+ * Kept in bookmark-lists.json, keyed by "tag:x", "folder:y" or "all".
+ */
+export interface SyncedBookmarkList {
+    bookmarks: InstapaperBookmark[];
+    syncedAt: string; // ISO 8601
 }
 
 // ── Instapaper API types ──
@@ -98,6 +351,13 @@ export interface InstapaperBookmark {
     description: string;
     hash: string;
     type: string;
+    time?: number; // unix seconds, when the bookmark was saved
+    tags?: InstapaperTag[];
+}
+
+export interface InstapaperTag {
+    id: number;
+    name: string;
 }
 
 export interface InstapaperFolder {
@@ -1,13 +1,50 @@
+import { createHash } from "node:crypto";
 import { join } from "node:path";
-import { mkdirSync } from "node:fs";
-import type { AppConfig } from "./types.js";
-import { InstapaperClient } from "./instapaper.js";
-import { parseArticle } from "./parser.js";
-import { translateText, translateTitle } from "./translator.js";
-import { synthesize, generateFilename } from "./tts.js";
+import { existsSync, mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from "node:fs";
+import type {
+    AppConfig,
+    ArticleSource,
+    FilteredArticle,
+    ProcessedBookmark,
+    SourceArticle,
+} from "./types.js";
+import { InstapaperSource, INSTAPAPER_NAMESPACE } from "./instapaper-source.js";
+import {
+    InstapaperAuthError,
+    InstapaperBookmarkError,
+    InstapaperRateLimitError,
+} from "./instapaper.js";
+import { RssSource } from "./rss-source.js";
+import { SubmittedSource } from "./submitted-source.js";
+import { InboxSource } from "./inbox-source.js";
+import { codeBlocksText, parseArticle, type ParseOptions } from "./parser.js";
+import { episodeTemplates, renderTemplate } from "./episode-templates.js";
+import { checkArticle, checkWordCount } from "./filters.js";
+import {
+    canSummarize,
+    detectSourceLanguage,
+    summarizeArticle,
+    summarizeCode,
+    translateText,
+    translateTitle,
+} from "./translator.js";
+import { TranslationCache } from "./translation-cache.js";
+import { CircuitBreakers } from "./circuit-breaker.js";
+import { addUsage, emptyUsage, TranslationBudgetError, UsageLedger } from "./translation-usage.js";
+import { normalizeForSpeech } from "./normalizer.js";
+import { chapterMarker, contentPolicies, nameChapters, pauseMarker, speechCues } from "./speech.js";
+import { withChapters } from "./mp3.js";
+import { synthesize, generateFilename, type SynthesisResult } from "./tts.js";
 import { StateManager } from "./state.js";
 
 const MAX_CONCURRENCY = 2;
+const DAY_MS = 24 * 3600 * 1000;
+
+interface PendingArticle {
+    article: SourceArticle;
+    source: ArticleSource;
+    previous: ProcessedBookmark | null; // set when regenerating an episode
+}
 
 /**
  * Run the full pipeline: fetch → parse → translate → TTS → update state.
@@ -16,130 +53,428 @@ export async function runPipeline(
     config: AppConfig,
     state: StateManager
 ): Promise<void> {
-    const client = new InstapaperClient(config.instapaper);
+    // Episodes from before sources were namespaced all came from Instapaper
+    state.namespaceLegacyIds(INSTAPAPER_NAMESPACE);
+
+    const pending: PendingArticle[] = [];
+    const filtered: FilteredArticle[] = [];
+    const failedSources: string[] = [];
+    const partlyListedSources: string[] = [];
+    const listedIds = new Set<string>();
 
-    console.log("[worker] Fetching bookmarks from Instapaper...");
+    for (const source of createSources(config, state)) {
+        let articles: SourceArticle[];
+        try {
+            articles = await source.listArticles();
+        } catch (err) {
+            // Without valid credentials nothing else will work either
+            if (err instanceof InstapaperAuthError) throw err;
+            console.error(`[worker] Failed to list articles from ${source.name}:`, err);
+            failedSources.push(source.name);
+            continue;
+        }
+        if (source.listedInPart) {
+            partlyListedSources.push(source.name);
+        }
+        for (const article of articles) {
+            listedIds.add(article.id);
+        }
 
-    // Fetch bookmarks, filtered by tag if configured
-    let bookmarks;
+        if (source.removeMissingAfterDays !== undefined && source.listAllIds) {
+            try {
+                const ids = await source.listAllIds();
+                if (ids) {
+                    removeMissingEpisodes(source.name, ids, source.removeMissingAfterDays, config, state);
+                } else {
+                    console.warn(`[worker] ${source.name} listing was cut short, not removing missing episodes`);
+                }
+            } catch (err) {
+                console.error(`[worker] Failed to list all articles from ${source.name}:`, err);
+            }
+        }
 
-    if (config.filters.tags.length > 0) {
-        console.log(`[worker] Filtering for tags: ${JSON.stringify(config.filters.tags)}`);
+        // Filter out already-processed articles
+        const newArticles = articles.filter((a) => !state.isProcessed(a.id));
+        let filteredCount = 0;
 
-        const taggedBookmarks = [];
-        for (const tag of config.filters.tags) {
-            const tagBookmarks = await client.getBookmarks({ tag });
-            console.log(`[worker] Tag "${tag}": ${tagBookmarks.length} bookmark(s)`);
-            taggedBookmarks.push(...tagBookmarks);
+        // A changed hash only means the text may have changed; processArticle
+        // compares the parsed text before re-creating anything
+        const changed = source.regenerateOnChange
+            ? articles.filter((a) => {
+                const previous = state.getProcessed(a.id);
+                return previous !== null && a.hash !== undefined && previous.contentHash !== a.hash;
+            })
+            : [];
+        for (const article of changed) {
+            pending.push({ article, source, previous: state.getProcessed(article.id) });
         }
 
-        // Deduplicate by bookmark_id
-        const seen = new Set<number>();
-        bookmarks = taggedBookmarks.filter((b) => {
-            if (seen.has(b.bookmark_id)) return false;
-            seen.add(b.bookmark_id);
-            return true;
-        });
-    } else {
-        bookmarks = await client.getBookmarks();
+        for (const article of newArticles) {
+            const reason = source.skipFilters ? null : prefilter(article, config, state);
+            if (reason) {
+                console.log(`[worker] Filtered out "${article.title}" (${article.id}): ${reason}`);
+                filtered.push({
+                    id: article.id,
+                    title: article.title,
+                    url: article.url,
+                    reason,
+                    wordCount: state.getFiltered(article.id)?.wordCount,
+                    filteredAt: new Date().toISOString(),
+                });
+                filteredCount++;
+            } else {
+                pending.push({ article, source, previous: null });
+            }
+        }
+
+        console.log(
+            `[worker] ${source.name}: ${articles.length} article(s), ` +
+            `${newArticles.length - filteredCount} new, ${filteredCount} filtered` +
+            (changed.length > 0 ? `, ${changed.length} changed` : "")
+        );
     }
 
-    // Filter out already-processed bookmarks
-    const newBookmarks = bookmarks.filter(
-        (b) => !state.isProcessed(String(b.bookmark_id))
-    );
+    // Only articles that still match a source and are still filtered are
+    // kept; sources that couldn't be listed keep their previous records,
+    // and sources listed in part those of the articles they didn't list
+    const fromAny = (id: string, names: string[]) => names.some((name) => id.startsWith(`${name}:`));
+    for (const record of state.getFilteredArticles()) {
+        if (fromAny(record.id, failedSources) ||
+            (fromAny(record.id, partlyListedSources) && !listedIds.has(record.id))) {
+            filtered.push(record);
+        }
+    }
+    state.setFilteredArticles(filtered);
 
-    if (newBookmarks.length === 0) {
-        console.log("[worker] No new bookmarks to process");
+    if (pending.length === 0) {
+        console.log("[worker] No new articles to process");
         state.updateLastRun();
         return;
     }
 
-    console.log(`[worker] Found ${newBookmarks.length} new bookmark(s) to process`);
+    console.log(`[worker] Found ${pending.length} new article(s) to process`);
 
     const audioDir = join(config.data_dir, "audio");
     mkdirSync(audioDir, { recursive: true });
 
-    // Process with limited concurrency
-    const queue = [...newBookmarks];
-    const running: Promise<void>[] = [];
+    // Process with limited concurrency. An error that makes the rest of the
+    // run pointless stops scheduling; running tasks are allowed to finish.
+    const queue = [...pending];
+    const running = new Set<Promise<void>>();
+    let abortError: unknown = null;
 
-    while (queue.length > 0 || running.length > 0) {
-        while (running.length < MAX_CONCURRENCY && queue.length > 0) {
-            const bookmark = queue.shift()!;
-            const task = processBookmark(bookmark, client, config, state, audioDir);
-            running.push(task);
+    while ((queue.length > 0 && !abortError) || running.size > 0) {
+        while (running.size < MAX_CONCURRENCY && queue.length > 0 && !abortError) {
+            const { article, source, previous } = queue.shift()!;
+            const task: Promise<void> = processArticle(article, source, previous, config, state, audioDir)
+                .catch((err) => {
+                    abortError ??= err;
+                })
+                // Each task removes itself once settled
+                .finally(() => running.delete(task));
+            running.add(task);
         }
 
-        if (running.length > 0) {
+        if (running.size > 0) {
             await Promise.race(running);
-            // Remove completed promises
-            for (let i = running.length - 1; i >= 0; i--) {
-                // Check if promise is settled by racing with a resolved promise
-                const settled = await Promise.race([
-                    running[i].then(() => true).catch(() => true),
-                    Promise.resolve(false),
-                ]);
-                if (settled) {
-                    running.splice(i, 1);
-                }
-            }
         }
     }
 
+    if (abortError) {
+        console.error(`[worker] Run aborted, ${queue.length} article(s) left for the next run`);
+        throw abortError;
+    }
+
     state.updateLastRun();
     console.log("[worker] Pipeline run complete");
 }
 
-async function processBookmark(
-    bookmark: { bookmark_id: number; title: string; url: string },
-    client: InstapaperClient,
+/**
+ * Apply the filters that don't need the article text. If an earlier run
+ * already counted the article's words, the word count filter is applied
+ * too, so a too-short article isn't fetched again on every run.
+ */
+function prefilter(
+    article: SourceArticle,
+    config: AppConfig,
+    state: StateManager
+): string | null {
+    const reason = checkArticle(article, config.filters);
+    if (reason) return reason;
+
+    const wordCount = state.getFiltered(article.id)?.wordCount;
+    return wordCount === undefined ? null : checkWordCount(wordCount, config.filters);
+}
+
+/**
+ * Flag episodes from a source whose article is not among `ids`, the
+ * complete listing of the source, and delete them (audio included) once
+ * they have been missing for `graceDays`. An article that shows up again
+ * within the grace period is unflagged.
+ */
+export function removeMissingEpisodes(
+    namespace: string,
+    ids: string[],
+    graceDays: number,
+    config: AppConfig,
+    state: StateManager,
+    now = Date.now()
+): void {
+    const listed = new Set(ids);
+
+    for (const episode of state.getProcessedBookmarks()) {
+        const id = episode.bookmarkId;
+        if (!id.startsWith(`${namespace}:`)) continue;
+
+        if (listed.has(id)) {
+            if (episode.missingSince) {
+                state.updateProcessed(id, { missingSince: undefined });
+                console.log(`[worker] ${id} is listed again, keeping its episode`);
+            }
+            continue;
+        }
+
+        if (!episode.missingSince) {
+            state.updateProcessed(id, { missingSince: new Date(now).toISOString() });
+            console.log(`[worker] ${id} is no longer listed, removing its episode in ${graceDays} day(s)`);
+            continue;
+        }
+
+        if (now - new Date(episode.missingSince).getTime() < graceDays * DAY_MS) continue;
+
+        const audioPath = join(config.data_dir, "audio", episode.filename);
+        if (existsSync(audioPath)) {
+            try {
+                unlinkSync(audioPath);
+            } catch (err) {
+                console.error(`[worker] Failed to delete audio ${episode.filename}:`, err);
+            }
+        }
+        state.removeProcessed(id);
+        console.log(`[worker] Removed episode "${episode.title}" (${id}), missing since ${episode.missingSince}`);
+    }
+}
+
+/**
+ * Instantiate the configured article sources. Instapaper, the admin
+ * submission queue and the inbox directory are always on; the others are
+ * enabled by their config sections.
+ */
+function createSources(config: AppConfig, state: StateManager): ArticleSource[] {
+    const sources: ArticleSource[] = [
+        new SubmittedSource(config.data_dir),
+        new InboxSource(config.data_dir, state),
+        new InstapaperSource(config, state),
+    ];
+
+    if (config.sources?.rss && config.sources.rss.feeds.length > 0) {
+        sources.push(new RssSource(config.sources.rss));
+    }
+
+    return sources;
+}
+
+/**
+ * Process one article. Auth and rate-limit errors are rethrown to abort the
+ * run; a bookmark that no longer exists is skipped without being marked as
+ * failed; any other error is reported to the source, unless the article
+ * already has an episode, which stays in the feed.
+ *
+ * With `previous` set the article already has an episode: it is only
+ * re-created if the parsed text differs, keeping its GUID and pubDate.
+ */
+async function processArticle(
+    article: SourceArticle,
+    source: ArticleSource,
+    previous: ProcessedBookmark | null,
     config: AppConfig,
     state: StateManager,
     audioDir: string
 ): Promise<void> {
-    const id = String(bookmark.bookmark_id);
+    const id = article.id;
 
     try {
-        console.log(`[worker] Processing: "${bookmark.title}" (${id})`);
+        console.log(`[worker] Processing: "${article.title}" (${id})`);
 
         // 1. Fetch HTML text
-        const html = await client.getBookmarkText(id);
+        const html = await source.fetchHtml(article);
 
         // 2. Parse
-        const parsed = parseArticle(id, bookmark.title, bookmark.url, html);
+        const templates = episodeTemplates(config);
+        const cues = speechCues(config);
+        const content = contentPolicies(config.content, article.tags);
+        if (article.mode) content.mode = article.mode;
+        if (content.mode !== "full" && !(config.translation.api_key && canSummarize(config.translation))) {
+            console.warn(`[worker] No translation API that writes summaries, reading all of ${id}`);
+            content.mode = "full";
+        }
+        const parseOptions: ParseOptions = {
+            speech: cues,
+            content,
+            cleanup: config.cleanup,
+            templates,
+            author: article.author,
+            date: article.savedAt,
+        };
+        let parsed = parseArticle(id, article.title, article.url, html, parseOptions);
+        const textHash = createHash("sha1").update(parsed.fullText).digest("hex");
+
+        if (previous) {
+            // Episodes from before text hashing get a baseline instead
+            if (!previous.textHash || previous.textHash === textHash) {
+                state.updateProcessed(id, { contentHash: article.hash, textHash });
+                console.log(`[worker] Text unchanged for ${id}, keeping the episode`);
+                return;
+            }
+            console.log(`[worker] Text changed for ${id}, regenerating the episode`);
+        }
+
+        const wordCountReason = source.skipFilters || previous
+            ? null
+            : checkWordCount(parsed.wordCount, config.filters);
+        if (wordCountReason) {
+            console.log(`[worker] Filtered out "${article.title}" (${id}): ${wordCountReason}`);
+            state.addFiltered({
+                id,
+                title: article.title,
+                url: article.url,
+                reason: wordCountReason,
+                wordCount: parsed.wordCount,
+                filteredAt: new Date().toISOString(),
+            });
+            return;
+        }
 
         // 3. Translate if needed
         let translatedTitle = parsed.title;
         let textForTTS = parsed.fullText;
+        const producedBy = new Set<string>();
+        const usage = emptyUsage();
 
         if (config.translation.api_key) {
-            translatedTitle = await translateTitle(parsed.title, config.translation);
-            const translatedBody = await translateText(parsed.body, config.translation);
-            const source = parsed.source;
-            const intro = source
-                ? `En artikel från ${source}. ${translatedTitle}.`
-                : `${translatedTitle}.`;
-            textForTTS = `${intro}\n\n${translatedBody}`;
+            const translateOptions = {
+                // Reused when an earlier run failed after translating, or on regeneration
+                cache: new TranslationCache(config.data_dir),
+                breakers: new CircuitBreakers(config.data_dir),
+                producedBy,
+                usage,
+                ledger: new UsageLedger(config.data_dir),
+            };
+
+            // Summaries come after the text hash, which they would make unstable
+            const code = content.code === "summarize" && content.mode !== "summary"
+                ? codeBlocksText(parsed.blocks)
+                : [];
+            if (code.length > 0) {
+                const codeSummaries = await summarizeCode(code, config.translation, translateOptions);
+                parsed = parseArticle(id, article.title, article.url, html, { ...parseOptions, codeSummaries });
+            }
+
+            translatedTitle = await translateTitle(parsed.title, config.translation, translateOptions);
+            const summary = content.mode === "full"
+                ? ""
+                : await summarizeArticle(parsed.body, content.summary_words, config.translation, translateOptions);
+            // The summary is written in the target language, and so is the cue before it
+            const summaryIntro = content.mode === "summary_intro" ? cues.summary_intro : "";
+            const body = content.mode === "summary"
+                ? [summary]
+                : [
+                    ...(summary ? [summaryIntro, summary, pauseMarker(cues.block_pause_ms)] : []),
+                    await translateText(parsed.body, config.translation, translateOptions),
+                ];
+            const values = { ...parsed.templateValues, title: translatedTitle };
+            textForTTS = [
+                renderTemplate(templates.intro, values),
+                ...body,
+                renderTemplate(templates.outro, values),
+            ].filter(Boolean).join("\n\n");
         }
 
-        // 4. TTS → mp3
+        // The article is the first chapter; its headings carry untitled markers
+        textForTTS = nameChapters(`${chapterMarker(translatedTitle)}\n\n${textForTTS}`);
+        textForTTS = normalizeForSpeech(textForTTS, config.translation.target_language, config.normalization);
+
+        // 4. TTS → mp3. A regenerated episode is synthesized next to the old
+        // file, which stays in the feed until the new one is complete.
         const filename = generateFilename(id, translatedTitle);
         const outputPath = join(audioDir, filename);
-        const duration = await synthesize(textForTTS, outputPath, config.tts);
+        const synthesisPath = previous ? outputPath.replace(/\.mp3$/, ".new.mp3") : outputPath;
+        let synthesized: SynthesisResult;
+        try {
+            synthesized = await synthesize(textForTTS, synthesisPath, config.tts);
+            const { duration, chapters } = synthesized;
+            if (chapters.length > 1) {
+                writeFileSync(synthesisPath, withChapters(readFileSync(synthesisPath), chapters, duration * 1000));
+            }
+        } catch (err) {
+            // Don't leave a partial file behind
+            if (existsSync(synthesisPath)) unlinkSync(synthesisPath);
+            throw err;
+        }
+        const { duration, chapters } = synthesized;
+
+        if (previous) {
+            renameSync(synthesisPath, outputPath);
+            if (previous.filename !== filename) {
+                try {
+                    unlinkSync(join(audioDir, previous.filename));
+                } catch (err) {
+                    console.error(`[worker] Failed to delete old audio ${previous.filename}:`, err);
+                }
+            }
+        }
 
         // 5. Update state
+        const now = new Date().toISOString();
         state.addProcessed({
             bookmarkId: id,
+            guid: previous?.guid,
             title: translatedTitle,
             source: parsed.source,
+            author: parsed.templateValues.author || undefined,
+            wordCount: parsed.wordCount,
             filename,
             duration,
-            pubDate: new Date().toISOString(),
+            chapters: chapters.length > 1 ? chapters : undefined,
+            translatedBy: producedBy.size > 0 ? [...producedBy] : undefined,
+            sourceLanguage: detectSourceLanguage(parsed.body) ?? undefined,
+            mode: content.mode === "full" ? undefined : content.mode,
+            // A regenerated episode has cost its first translation too
+            translationUsage: producedBy.size > 0
+                ? addUsage({ ...(previous?.translationUsage ?? emptyUsage()) }, usage)
+                : previous?.translationUsage,
+            pubDate: previous?.pubDate ?? now,
+            contentHash: article.hash,
+            textHash,
+            regeneratedAt: previous ? now : undefined,
         });
 
-        console.log(`[worker] ✓ Completed: "${translatedTitle}" (${duration}s)`);
+        console.log(`[worker] ✓ ${previous ? "Regenerated" : "Completed"}: "${translatedTitle}" (${duration}s)`);
     } catch (err) {
-        console.error(`[worker] ✗ Failed to process bookmark ${id}:`, err);
+        if (err instanceof InstapaperAuthError || err instanceof InstapaperRateLimitError) {
+            console.error(`[worker] ✗ Aborting at ${id}: ${(err as Error).message}`);
+            throw err;
+        }
+        if (err instanceof InstapaperBookmarkError) {
+            console.warn(`[worker] Skipping ${id}, bookmark is gone: ${err.message}`);
+            return;
+        }
+        if (err instanceof TranslationBudgetError) {
+            // Not a failure: the article is picked up again once there is budget
+            console.warn(`[worker] Postponing ${id}: ${err.message}`);
+            return;
+        }
+        if (previous) {
+            console.error(`[worker] ✗ Failed to regenerate ${id}, keeping the old episode:`, err);
+            return;
+        }
+        console.error(`[worker] ✗ Failed to process ${id}:`, err);
+        await source.onFailed?.(article, err);
+        return;
+    }
+
+    // A regeneration was already written back when it was first processed
+    if (!previous) {
+        await source.onProcessed?.(article);
     }
 }
@@ -0,0 +1,47 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { CircuitBreakers } from "../src/circuit-breaker.js";
+
+describe("CircuitBreakers", () => {
+    let tempDir: string;
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        if (tempDir) {
+            rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    function createBreakers(): CircuitBreakers {
+        vi.spyOn(console, "warn").mockImplementation(() => {});
+        tempDir = mkdtempSync(join(tmpdir(), "instapod-test-"));
+        return new CircuitBreakers(tempDir);
+    }
+
+    it("opens after repeated failures until the cooldown has passed", () => {
+        const breakers = createBreakers();
+        const now = new Date("2026-01-01T12:00:00Z");
+
+        breakers.recordFailure("openai/gpt", 10, now);
+        expect(breakers.isOpen("openai/gpt", now)).toBe(false);
+
+        breakers.recordFailure("openai/gpt", 10, now);
+        expect(breakers.isOpen("openai/gpt", now)).toBe(true);
+        expect(new CircuitBreakers(tempDir).isOpen("openai/gpt", now)).toBe(true);
+        expect(breakers.isOpen("openai/gpt", new Date("2026-01-01T12:10:01Z"))).toBe(false);
+        expect(breakers.isOpen("ollama/llama", now)).toBe(false);
+    });
+
+    it("closes again after a success", () => {
+        const breakers = createBreakers();
+        const now = new Date("2026-01-01T12:00:00Z");
+
+        breakers.recordFailure("openai/gpt", 10, now);
+        breakers.recordSuccess("openai/gpt");
+        breakers.recordFailure("openai/gpt", 10, now);
+
+        expect(breakers.isOpen("openai/gpt", now)).toBe(false);
+    });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from "vitest";
+import { cleanupPlanFor } from "../src/cleanup.js";
+import { parseBlocks } from "../src/parser.js";
+
+const CLUTTERED = `
+    <p>The council voted on Tuesday.[1] Details at https://example.com/vote.</p>
+    <div class="newsletter-signup"><p>Get the morning briefing</p></div>
+    <p>Sign up for our newsletter to get stories like this.</p>
+    <p>Read more: Why councils vote</p>
+    <figure><figcaption>The council chamber (Photo: Jane Doe/Agency)</figcaption></figure>
+    <p>Critics disagreed<sup>2</sup>.</p>
+    <ul><li>Share on Twitter</li><li>Budget passed</li></ul>
+`;
+
+function texts(html: string, url = "https://news.example.com/a", config?: Parameters<typeof cleanupPlanFor>[1]) {
+    return parseBlocks(html, cleanupPlanFor(url, config)).map((b) =>
+        b.type === "list" ? b.items.join(" | ") : "text" in b ? b.text : b.type
+    );
+}
+
+describe("cleanup", () => {
+    it("removes built-in clutter", () => {
+        expect(texts(CLUTTERED)).toEqual([
+            "The council voted on Tuesday. Details at",
+            "The council chamber",
+            "Critics disagreed.",
+            "Budget passed",
+        ]);
+    });
+
+    it("keeps everything with built-in rules disabled", () => {
+        expect(texts(CLUTTERED, undefined, { builtin: false, rules: [] })).toHaveLength(7);
+    });
+
+    it("does not drop long paragraphs that mention a newsletter", () => {
+        const long = `<p>Read more about how the ${"very ".repeat(40)}long newsletter era began.</p>`;
+        expect(texts(long)).toHaveLength(1);
+    });
+
+    it("applies user rules only to matching domains", () => {
+        const html = `<p>Story.</p><div class="promo">Buy now</div><p>Support our journalism today (AP)</p>`;
+        const config = {
+            builtin: true,
+            rules: [{
+                domains: ["example.com"],
+                remove_selectors: [".promo"],
+                drop_paragraphs: ["^support our journalism"],
+                remove_text: ["\\(AP\\)"],
+            }],
+        };
+
+        expect(texts(html, "https://news.example.com/x", config)).toEqual(["Story."]);
+        expect(texts(html, "https://other.org/x", config)).toEqual([
+            "Story.",
+            "Buy now",
+            "Support our journalism today (AP)",
+        ]);
+    });
+
+    it("ignores invalid selectors and patterns", () => {
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+        const config = { builtin: false, rules: [{ remove_selectors: ["[["], remove_text: ["("] }] };
+        expect(texts("<p>Fine.</p>", "", config)).toEqual(["Fine."]);
+        expect(warn).toHaveBeenCalledTimes(2);
+        warn.mockRestore();
+    });
+});
@@ -55,6 +55,22 @@ server:
         expect(config.translation.text_prompt).toContain("{{target_language}}");
     });
 
+    it("does not require the Instapaper password", () => {
+        const path = writeConfig(`
+instapaper:
+  consumer_key: "ck"
+  consumer_secret: "cs"
+  username: "user"
+translation:
+  api_key: "sk-test"
+server:
+  base_url: "https://pod.example.com"
+`);
+
+        const config = loadConfig(path);
+        expect(config.instapaper.password).toBeUndefined();
+    });
+
     it("throws on missing required fields", () => {
         const path = writeConfig(`
 instapaper:
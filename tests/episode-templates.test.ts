@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import {
+    defaultTemplatesFor,
+    episodeTemplates,
+    formatTemplateDate,
+    renderTemplate,
+} from "../src/episode-templates.js";
+import type { AppConfig, TemplateValues } from "../src/types.js";
+
+const values: TemplateValues = {
+    title: "My Article",
+    source: "example.com",
+    author: "Jane Doe",
+    date: "18 oktober 2026",
+    word_count: "1200",
+};
+
+describe("episode templates", () => {
+    it("fills placeholders", () => {
+        expect(renderTemplate("{{title}} by {{ author }} ({{word_count}} words, {{date}}).", values))
+            .toBe("My Article by Jane Doe (1200 words, 18 oktober 2026).");
+    });
+
+    it("leaves out sentences whose placeholder is empty", () => {
+        const template = "En artikel från {{source}}. {{title}}. Skriven av {{author}}.";
+        expect(renderTemplate(template, { ...values, author: "" }))
+            .toBe("En artikel från example.com. My Article.");
+        expect(renderTemplate(template, { ...values, source: "", author: "" })).toBe("My Article.");
+    });
+
+    it("does not double the punctuation after a title", () => {
+        expect(renderTemplate("{{title}}.", { ...values, title: "Why now?" })).toBe("Why now?");
+    });
+
+    it("keeps unknown placeholders", () => {
+        expect(renderTemplate("{{title}} {{nope}}", values)).toBe("My Article {{nope}}");
+    });
+
+    it("picks defaults by target language and falls back to English", () => {
+        expect(defaultTemplatesFor("Deutsch").intro).toBe("Ein Artikel von {{source}}. {{title}}.");
+        expect(defaultTemplatesFor("es-MX").locale).toBe("es-ES");
+        expect(defaultTemplatesFor("norska").locale).toBe("nb-NO");
+        expect(defaultTemplatesFor("sv").locale).toBe("sv-SE");
+        expect(defaultTemplatesFor("klingon").intro).toBe("An article from {{source}}. {{title}}.");
+    });
+
+    it("uses configured templates over the defaults", () => {
+        const config = {
+            translation: { target_language: "svenska" },
+            templates: { intro: "{{title}}.", outro: "Slut.", feed_description: "" },
+        } as AppConfig;
+
+        expect(episodeTemplates(config)).toEqual({
+            locale: "sv-SE",
+            intro: "{{title}}.",
+            outro: "Slut.",
+            feed_description: "Artikel från {{source}}",
+        });
+    });
+
+    it("formats dates in the target language when it has no default templates", () => {
+        const templates = episodeTemplates({ translation: { target_language: "suomi" } } as AppConfig);
+
+        expect(templates.intro).toBe("An article from {{source}}. {{title}}.");
+        expect(templates.locale).toBe("fi-FI");
+        expect(episodeTemplates({ translation: { target_language: "klingon" } } as AppConfig).locale).toBe("en-US");
+    });
+
+    it("formats dates for the locale", () => {
+        expect(formatTemplateDate("2026-10-18T12:00:00Z", "sv-SE")).toBe("18 oktober 2026");
+        expect(formatTemplateDate("not a date", "en-US")).toBe("");
+    });
+});
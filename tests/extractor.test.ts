@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { extractArticle } from "../src/extractor.js";
+
+const PARAGRAPH =
+    "This is a long paragraph of meaningful article text, with commas, clauses and detail. ".repeat(8);
+
+describe("extractArticle", () => {
+    it("keeps the main content and drops page chrome", () => {
+        const result = extractArticle(`<html><head><title>Page title</title></head><body>
+            <nav><a href="/">Home</a> <a href="/about">About</a></nav>
+            <article><p>${PARAGRAPH}</p><p>${PARAGRAPH}</p></article>
+            <footer>Copyright Example Inc.</footer>
+        </body></html>`);
+
+        expect(result).not.toBeNull();
+        expect(result!.title).toBe("Page title");
+        expect(result!.html).toContain("meaningful article text");
+        expect(result!.html).not.toContain("Copyright Example");
+        expect(result!.html).not.toContain("About");
+    });
+
+    it("returns null for pages without text", () => {
+        expect(extractArticle("<html><body></body></html>")).toBeNull();
+    });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { generateFeed } from "../src/feed.js";
+import { generateChapters, generateFeed } from "../src/feed.js";
 import type { AppConfig, ProcessedBookmark } from "../src/types.js";
 
 const mockConfig: AppConfig = {
@@ -67,6 +67,39 @@ describe("generateFeed", () => {
         expect(xml).toContain("<language>sv</language>");
     });
 
+    it("describes episodes with the language default or a configured template", () => {
+        expect(generateFeed(mockConfig, mockEpisodes)).toContain(
+            "<description>Artikel från example.com</description>"
+        );
+
+        const config = {
+            ...mockConfig,
+            translation: { ...mockConfig.translation, target_language: "english" },
+            templates: { feed_description: "{{source}} · {{date}}" },
+        };
+        expect(generateFeed(config, mockEpisodes)).toContain(
+            "<description>example.com · January 15, 2026</description>"
+        );
+    });
+
+    it("links chapters for episodes that have them", () => {
+        const episode = {
+            ...mockEpisodes[0],
+            chapters: [{ title: "First Article", start: 0 }, { title: "Details", start: 42.5 }],
+        };
+        const xml = generateFeed(mockConfig, [episode, mockEpisodes[1]]);
+
+        expect(xml).toContain('xmlns:podcast="https://podcastindex.org/namespace/1.0"');
+        expect(xml).toContain(
+            '<podcast:chapters url="https://pod.example.com/chapters/1001-first-article.json" type="application/json+chapters" />'
+        );
+        expect(xml.match(/podcast:chapters url/g)).toHaveLength(1);
+        expect(JSON.parse(generateChapters(episode))).toEqual({
+            version: "1.2.0",
+            chapters: [{ startTime: 0, title: "First Article" }, { startTime: 42.5, title: "Details" }],
+        });
+    });
+
     it("includes episode items with enclosures", () => {
         const xml = generateFeed(mockConfig, mockEpisodes);
 
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { checkArticle, checkWordCount } from "../src/filters.js";
+import type { FilterConfig, SourceArticle } from "../src/types.js";
+
+const NO_FILTERS: FilterConfig = { tags: [] };
+
+function article(overrides: Partial<SourceArticle> = {}): SourceArticle {
+    return {
+        id: "instapaper:1",
+        title: "Article",
+        url: "https://www.example.com/post",
+        ...overrides,
+    };
+}
+
+describe("checkArticle", () => {
+    it("passes articles when no filters are set", () => {
+        expect(checkArticle(article(), NO_FILTERS)).toBeNull();
+    });
+
+    it("rejects articles with an excluded tag", () => {
+        const reason = checkArticle(article({ tags: ["pod", "Paywalled"] }), {
+            ...NO_FILTERS,
+            exclude_tags: ["paywalled"],
+        });
+
+        expect(reason).toBe('Has excluded tag "Paywalled"');
+    });
+
+    it("matches denied domains including subdomains", () => {
+        const filters = { ...NO_FILTERS, deny_domains: ["example.com"] };
+
+        expect(checkArticle(article({ url: "https://blog.example.com/x" }), filters))
+            .toContain("denied");
+        expect(checkArticle(article({ url: "https://notexample.com/x" }), filters))
+            .toBeNull();
+    });
+
+    it("rejects domains outside the allow list", () => {
+        const filters = { ...NO_FILTERS, allow_domains: ["nytimes.com"] };
+
+        expect(checkArticle(article(), filters)).toBe(
+            "Domain example.com is not in the allow list"
+        );
+        expect(checkArticle(article({ url: "https://www.nytimes.com/a" }), filters))
+            .toBeNull();
+    });
+
+    it("rejects articles older than max_age_days", () => {
+        const now = new Date("2026-03-01T00:00:00Z").getTime();
+        const filters = { ...NO_FILTERS, max_age_days: 30 };
+
+        expect(checkArticle(article({ savedAt: "2026-01-01T00:00:00Z" }), filters, now))
+            .toBe("Saved 59 days ago (max 30)");
+        expect(checkArticle(article({ savedAt: "2026-02-20T00:00:00Z" }), filters, now))
+            .toBeNull();
+        expect(checkArticle(article({ savedAt: null }), filters, now)).toBeNull();
+    });
+});
+
+describe("checkWordCount", () => {
+    it("applies min and max word counts", () => {
+        const filters = { ...NO_FILTERS, min_words: 100, max_words: 5000 };
+
+        expect(checkWordCount(50, filters)).toBe("Too short: 50 words (min 100)");
+        expect(checkWordCount(6000, filters)).toBe("Too long: 6000 words (max 5000)");
+        expect(checkWordCount(1000, filters)).toBeNull();
+    });
+
+    it("treats zero as no limit", () => {
+        expect(checkWordCount(1, { ...NO_FILTERS, min_words: 0, max_words: 0 })).toBeNull();
+    });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+    existsSync,
+    mkdirSync,
+    mkdtempSync,
+    readFileSync,
+    rmSync,
+    utimesSync,
+    writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { strToU8, zipSync } from "fflate";
+import { InboxSource, readInboxFile } from "../src/inbox-source.js";
+import { StateManager } from "../src/state.js";
+
+function buildEpub(): Buffer {
+    const zip = zipSync({
+        mimetype: strToU8("application/epub+zip"),
+        "META-INF/container.xml": strToU8(`<?xml version="1.0"?>
+<container xmlns="urn:oasis:names:tc:opendocument:xmlns:container" version="1.0">
+  <rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>`),
+        "OEBPS/content.opf": strToU8(`<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>My Book</dc:title></metadata>
+  <manifest>
+    <item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>
+    <item id="c1" href="text/ch1.xhtml" media-type="application/xhtml+xml"/>
+    <item id="c2" href="text/ch2.xhtml" media-type="application/xhtml+xml"/>
+  </manifest>
+  <spine><itemref idref="cover"/><itemref idref="c2"/><itemref idref="c1"/></spine>
+</package>`),
+        "OEBPS/cover.xhtml": strToU8(`<html><body><img src="cover.jpg"/></body></html>`),
+        "OEBPS/text/ch1.xhtml": strToU8(`<html><body><h1>Beginning</h1><p>First chapter.</p></body></html>`),
+        "OEBPS/text/ch2.xhtml": strToU8(`<html><body><h1>Prologue</h1><p>Before it all.</p></body></html>`),
+    });
+    return Buffer.from(zip);
+}
+
+describe("readInboxFile", () => {
+    it("converts Markdown and takes the title from the first heading", () => {
+        const [doc] = readInboxFile("notes.md", Buffer.from("# Release notes\n\nSome *text*."));
+
+        expect(doc.title).toBe("Release notes");
+        expect(doc.html).toContain("<em>text</em>");
+    });
+
+    it("wraps plain text paragraphs and uses the file name as title", () => {
+        const [doc] = readInboxFile("memo.txt", Buffer.from("One <b>\n\nTwo"));
+
+        expect(doc.title).toBe("memo");
+        expect(doc.html).toBe("<p>One &lt;b&gt;</p>\n<p>Two</p>");
+    });
+
+    it("splits EPUB files into chapters in spine order", () => {
+        const chapters = readInboxFile("book.epub", buildEpub());
+
+        expect(chapters.map((c) => c.title)).toEqual([
+            "My Book: Prologue",
+            "My Book: Beginning",
+        ]);
+        expect(chapters[1].html).toContain("First chapter.");
+    });
+});
+
+describe("InboxSource", () => {
+    let tempDir: string;
+
+    afterEach(() => {
+        if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    function dropFile(name: string, content: string | Buffer): void {
+        const inbox = join(tempDir, "inbox");
+        mkdirSync(inbox, { recursive: true });
+        const path = join(inbox, name);
+        writeFileSync(path, content);
+        const past = new Date(Date.now() - 60_000);
+        utimesSync(path, past, past);
+    }
+
+    it("moves processed files to done and failed ones to failed", async () => {
+        tempDir = mkdtempSync(join(tmpdir(), "instapod-inbox-test-"));
+        const source = new InboxSource(tempDir, new StateManager(tempDir));
+        dropFile("good.html", "<h1>Good</h1><p>Text</p>");
+        dropFile("bad.txt", "Will fail");
+        dropFile("image.png", "not an article");
+
+        const articles = await source.listArticles();
+        expect(articles.map((a) => a.title).sort()).toEqual(["Good", "bad"]);
+
+        const good = articles.find((a) => a.title === "Good")!;
+        const bad = articles.find((a) => a.title === "bad")!;
+        expect(await source.fetchHtml(good)).toContain("<p>Text</p>");
+
+        await source.onProcessed(good);
+        await source.onFailed(bad, new Error("TTS exploded"));
+
+        expect(existsSync(join(tempDir, "inbox", "done", "good.html"))).toBe(true);
+        expect(existsSync(join(tempDir, "inbox", "failed", "bad.txt"))).toBe(true);
+        expect(
+            readFileSync(join(tempDir, "inbox", "failed", "bad.txt.reason.txt"), "utf-8")
+        ).toContain("TTS exploded");
+        expect(existsSync(join(tempDir, "inbox", "failed", "image.png.reason.txt"))).toBe(true);
+    });
+
+    it("does not overwrite an earlier file of the same name", async () => {
+        tempDir = mkdtempSync(join(tmpdir(), "instapod-inbox-test-"));
+        const source = new InboxSource(tempDir, new StateManager(tempDir));
+        const failed = join(tempDir, "inbox", "failed");
+
+        dropFile("notes.png", "first");
+        await source.listArticles();
+        dropFile("notes.png", "second");
+        await source.listArticles();
+
+        expect(readFileSync(join(failed, "notes.png"), "utf-8")).toBe("first");
+        expect(readFileSync(join(failed, "notes-2.png"), "utf-8")).toBe("second");
+        expect(existsSync(join(failed, "notes.png.reason.txt"))).toBe(true);
+        expect(existsSync(join(failed, "notes-2.png.reason.txt"))).toBe(true);
+    });
+});
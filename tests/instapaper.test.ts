@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { InstapaperConfig } from "../src/types.js";
+import { FakeInstapaper } from "../src/fake-instapaper.js";
+import {
+    InstapaperAuthError,
+    InstapaperBookmarkError,
+    InstapaperClient,
+    InstapaperRateLimitError,
+} from "../src/instapaper.js";
+
+const CONFIG: InstapaperConfig = {
+    consumer_key: "key",
+    consumer_secret: "secret",
+    username: "reader@example.com",
+    password: "hunter2",
+};
+
+const TOKEN_RESPONSE = () =>
+    new Response("oauth_token=tok&oauth_token_secret=toksecret", { status: 200 });
+
+const ERROR_RESPONSE = (status: number, code: number, headers?: Record<string, string>) =>
+    new Response(
+        JSON.stringify([{ type: "error", error_code: code, message: "nope" }]),
+        { status, headers }
+    );
+
+/** Stub fetch: the xAuth call succeeds, text requests get the given responses in order. */
+function mockFetch(...responses: Array<() => Response>): ReturnType<typeof vi.fn> {
+    let call = 0;
+    const mock = vi.fn(async (url: string) => {
+        if (url.endsWith("/oauth/access_token")) return TOKEN_RESPONSE();
+        const next = responses[Math.min(call++, responses.length - 1)];
+        return next();
+    });
+    vi.stubGlobal("fetch", mock as unknown as typeof fetch);
+    return mock;
+}
+
+/** Run a client call to completion, skipping over backoff delays. */
+async function settle<T>(promise: Promise<T>): Promise<T> {
+    const result = promise.then(
+        (value) => ({ value }),
+        (error) => ({ error })
+    );
+    await vi.runAllTimersAsync();
+    const outcome = (await result) as { value?: T; error?: unknown };
+    if ("error" in outcome) throw outcome.error;
+    return outcome.value as T;
+}
+
+function textCalls(mock: ReturnType<typeof vi.fn>): number {
+    return mock.mock.calls.filter(([url]) => String(url).endsWith("/bookmarks/get_text")).length;
+}
+
+describe("InstapaperClient", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, "error").mockImplementation(() => {});
+        vi.spyOn(console, "warn").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it("retries server errors and returns the eventual response", async () => {
+        const mock = mockFetch(
+            () => new Response("unavailable", { status: 503 }),
+            () => new Response("<p>Text</p>", { status: 200 })
+        );
+        const client = new InstapaperClient(CONFIG);
+
+        await expect(settle(client.getBookmarkText(1))).resolves.toBe("<p>Text</p>");
+        expect(textCalls(mock)).toBe(2);
+    });
+
+    it("gives up on rate limits after the last attempt", async () => {
+        const mock = mockFetch(() => ERROR_RESPONSE(429, 1040, { "Retry-After": "2" }));
+        const client = new InstapaperClient(CONFIG);
+
+        const error = await settle(client.getBookmarkText(1)).catch((e) => e);
+        expect(error).toBeInstanceOf(InstapaperRateLimitError);
+        expect(error.retryAfterMs).toBe(2000);
+        expect(textCalls(mock)).toBe(4);
+    });
+
+    it("does not wait out a Retry-After longer than a minute", async () => {
+        const mock = mockFetch(() => ERROR_RESPONSE(429, 1040, { "Retry-After": "3600" }));
+        const client = new InstapaperClient(CONFIG);
+
+        await expect(settle(client.getBookmarkText(1))).rejects.toBeInstanceOf(InstapaperRateLimitError);
+        expect(textCalls(mock)).toBe(1);
+    });
+
+    it("throws a bookmark error for an invalid bookmark id without retrying", async () => {
+        const mock = mockFetch(() => ERROR_RESPONSE(400, 1241));
+        const client = new InstapaperClient(CONFIG);
+
+        const error = await settle(client.getBookmarkText(1)).catch((e) => e);
+        expect(error).toBeInstanceOf(InstapaperBookmarkError);
+        expect(error.code).toBe(1241);
+        expect(textCalls(mock)).toBe(1);
+    });
+
+    it("throws an auth error when the token is rejected", async () => {
+        mockFetch(() => new Response("", { status: 401 }));
+        const client = new InstapaperClient(CONFIG);
+
+        await expect(settle(client.getBookmarkText(1))).rejects.toBeInstanceOf(InstapaperAuthError);
+    });
+
+    it("throws an auth error when xAuth rejects the credentials", async () => {
+        vi.stubGlobal("fetch", vi.fn(async () => new Response("", { status: 401 })));
+        const client = new InstapaperClient(CONFIG);
+
+        await expect(settle(client.authenticate())).rejects.toBeInstanceOf(InstapaperAuthError);
+    });
+});
+
+describe("InstapaperClient.resolveFolderIds", () => {
+    let instapaper: FakeInstapaper;
+    let client: InstapaperClient;
+
+    beforeEach(async () => {
+        vi.spyOn(console, "warn").mockImplementation(() => {});
+        instapaper = new FakeInstapaper({
+            folders: [
+                { folder_id: 77, title: "Listened", slug: "listened" },
+                { folder_id: 88, title: "Long Reads", slug: "long-reads" },
+            ],
+        });
+        await instapaper.start();
+        client = new InstapaperClient({
+            ...CONFIG,
+            api_base: instapaper.url,
+            username: instapaper.username,
+            password: instapaper.password,
+        });
+    });
+
+    afterEach(async () => {
+        await instapaper.stop();
+        vi.restoreAllMocks();
+    });
+
+    it("resolves folder titles and slugs case-insensitively", async () => {
+        await expect(client.resolveFolderIds(["listened", "LONG-READS"])).resolves.toEqual(["77", "88"]);
+        await expect(client.resolveFolderIds(["Long Reads"])).resolves.toEqual(["88"]);
+        expect(instapaper.requestsTo("/folders/list")).toHaveLength(1);
+    });
+
+    it("passes folder ids and the built-in folders through without listing folders", async () => {
+        await expect(client.resolveFolderIds(["88", "Archive", "starred"])).resolves.toEqual([
+            "88",
+            "archive",
+            "starred",
+        ]);
+        expect(instapaper.requestsTo("/folders/list")).toHaveLength(0);
+    });
+
+    it("skips unknown folder names with a warning", async () => {
+        await expect(client.resolveFolderIds(["Nope", "Listened"])).resolves.toEqual(["77"]);
+        expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('"Nope" not found'));
+    });
+
+    it("returns each folder once", async () => {
+        await expect(client.resolveFolderIds(["Listened", "77", " listened "])).resolves.toEqual(["77"]);
+    });
+});
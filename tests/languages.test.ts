@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { findLanguage, isLanguage, languageName } from "../src/languages.js";
+
+describe("languages", () => {
+    it("finds languages by name in any listed language", () => {
+        expect(findLanguage("Finnish")?.code).toBe("fi");
+        expect(findLanguage("finska")?.code).toBe("fi");
+        expect(findLanguage("suomi")?.code).toBe("fi");
+        expect(findLanguage("italiano")?.code).toBe("it");
+        expect(findLanguage("norska")?.code).toBe("nb");
+    });
+
+    it("ignores case and accents", () => {
+        expect(findLanguage("  Français ")?.code).toBe("fr");
+        expect(findLanguage("francais")?.code).toBe("fr");
+    });
+
+    it("finds languages by ISO 639-1, ISO 639-3 and BCP 47 codes", () => {
+        expect(findLanguage("sv")?.code).toBe("sv");
+        expect(findLanguage("swe")?.code).toBe("sv");
+        expect(findLanguage("no")?.code).toBe("nb");
+        expect(findLanguage("pt-BR")?.code).toBe("pt");
+        expect(findLanguage("zh_Hant_TW")?.code).toBe("zh");
+    });
+
+    it("returns null for unknown languages", () => {
+        expect(findLanguage("klingon")).toBeNull();
+        expect(findLanguage("")).toBeNull();
+    });
+
+    it("matches detected ISO 639-3 codes to a target language", () => {
+        expect(isLanguage("swe", "svenska")).toBe(true);
+        expect(isLanguage("nob", "Norwegian")).toBe(true);
+        expect(isLanguage("dan", "svenska")).toBe(false);
+        expect(isLanguage("und", "svenska")).toBe(false);
+    });
+
+    it("names a language in another language", () => {
+        expect(languageName(findLanguage("fi")!, "sv")).toBe("finska");
+    });
+});
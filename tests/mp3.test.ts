@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { mp3DurationMs, withChapters } from "../src/mp3.js";
+
+/** A silent MPEG-2 Layer III frame (24 kHz, 48 kbit/s): 144 bytes, 24 ms. */
+const FRAME = Buffer.concat([Buffer.from([0xff, 0xf3, 0x64, 0xc0]), Buffer.alloc(140)]);
+
+function frames(count: number): Buffer {
+    return Buffer.concat(Array.from({ length: count }, () => FRAME));
+}
+
+describe("mp3DurationMs", () => {
+    it("adds up the frames", () => {
+        expect(mp3DurationMs(frames(125))).toBe(3000);
+    });
+
+    it("skips an ID3 tag and bytes that are not frames", () => {
+        const tagged = withChapters(frames(10), [{ title: "A", start: 0 }], 240);
+        expect(mp3DurationMs(Buffer.concat([tagged, Buffer.from("junk")]))).toBe(240);
+    });
+});
+
+describe("withChapters", () => {
+    it("writes an ID3v2.3 table of contents and chapter frames", () => {
+        const audio = frames(2);
+        const tagged = withChapters(audio, [
+            { title: "Intro", start: 0 },
+            { title: "Findings", start: 1.5 },
+        ], 3000);
+
+        expect(tagged.toString("latin1", 0, 4)).toBe("ID3\x03");
+        expect(tagged.subarray(tagged.length - audio.length).equals(audio)).toBe(true);
+
+        const tag = tagged.toString("latin1");
+        expect(tag).toContain("CTOC");
+        expect(tag).toContain("toc\0\x03\x02chp0\0chp1\0");
+
+        const second = tagged.indexOf("chp1\0", tagged.indexOf("CHAP") + 10);
+        const times = tagged.subarray(second + 5, second + 13);
+        expect(times.readUInt32BE(0)).toBe(1500);
+        expect(times.readUInt32BE(4)).toBe(3000);
+        expect(tagged.includes(Buffer.from("Findings", "utf16le"))).toBe(true);
+    });
+
+    it("replaces an existing tag", () => {
+        const once = withChapters(frames(1), [{ title: "A", start: 0 }], 24);
+        const twice = withChapters(once, [{ title: "B", start: 0 }], 24);
+        expect(twice.length).toBe(once.length);
+        expect(twice.includes(Buffer.from("A", "utf16le"))).toBe(false);
+    });
+});
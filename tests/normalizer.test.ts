@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { applyLexicon, normalizeForSpeech } from "../src/normalizer.js";
+
+const sv = (text: string) => normalizeForSpeech(text, "svenska");
+const en = (text: string) => normalizeForSpeech(text, "english");
+
+describe("normalizeForSpeech", () => {
+    it("spells out Swedish numbers, amounts, units and dates", () => {
+        expect(sv("Priset är 1 299 kr, 3,5 % mer än 2025-03-01.")).toBe(
+            "Priset är tusentvåhundranittionio kronor, tre komma fem procent mer än första mars tvåtusentjugofem."
+        );
+        expect(sv("Den vägde 1 kg och körde i 120 km/h år 1984.")).toBe(
+            "Den vägde ett kilo och körde i hundratjugo kilometer i timmen år nittonhundraåttiofyra."
+        );
+        expect(sv("Cirka 21 000 personer kom 3:e kl. 14.30.")).toBe(
+            "Cirka tjugoettusen personer kom tredje klockan fjorton trettio."
+        );
+    });
+
+    it("spells out English numbers, amounts, ordinals and years", () => {
+        expect(en("It costs $4.99, or 1,250 dollars in 1984 and 2026 on Oct. 5th.")).toBe(
+            "It costs four dollars and ninety-nine cents, or one thousand two hundred fifty dollars in nineteen eighty-four and twenty twenty-six on October fifth."
+        );
+        expect(en("At -5 °C, 15 mph and 100% done.")).toBe(
+            "At minus five degrees Celsius, fifteen miles per hour and one hundred percent done."
+        );
+    });
+
+    it("reads version numbers part by part", () => {
+        expect(en("Update to v2.3.1 or iOS 17.4.1.")).toBe(
+            "Update to version two point three point one or iOS seventeen point four point one."
+        );
+        expect(sv("Version 2.3 släpps.")).toBe("Version två punkt tre släpps.");
+    });
+
+    it("expands abbreviations and keeps the full stop at a sentence end", () => {
+        expect(sv("Äpplen, päron osv. Sedan t.ex. bananer.")).toBe(
+            "Äpplen, päron och så vidare. Sedan till exempel bananer."
+        );
+        expect(en("Ask Dr. Smith, i.e. the vet.")).toBe("Ask Doctor Smith, that is the vet.");
+    });
+
+    it("drops URLs and emoji in any language", () => {
+        expect(normalizeForSpeech("Läs mer på https://example.com/a 🎉👍🏽 nu.", "suomi")).toBe("Läs mer på nu.");
+    });
+
+    it("keeps pause markers", () => {
+        expect(sv("Intro 1.\n\n[pause 500ms]\n\nText 2.")).toBe("Intro ett.\n\n[pause 500ms]\n\nText två.");
+    });
+
+    it("does nothing when disabled", () => {
+        expect(normalizeForSpeech("5 kg", "svenska", { enabled: false, lexicon: [] })).toBe("5 kg");
+    });
+});
+
+describe("applyLexicon", () => {
+    it("replaces whole words, all-caps entries only in all caps", () => {
+        const lexicon = [
+            { word: "Nvidia", replacement: "Envidia" },
+            { word: "US", replacement: "U S" },
+        ];
+        expect(applyLexicon("NVIDIA and nvidia in the US, not us or USB.", lexicon))
+            .toBe("Envidia and Envidia in the U S, not us or USB.");
+    });
+
+    it("marks phoneme entries with their pronunciation, keeping the word as written", () => {
+        const lexicon = [{ word: "nvidia", replacement: "Envidia", phoneme: " ɛnˈvɪdiə " }];
+        expect(applyLexicon("Nvidia and NVIDIA.", lexicon)).toBe("⟪Nvidia|ɛnˈvɪdiə⟫ and ⟪NVIDIA|ɛnˈvɪdiə⟫.");
+    });
+});
@@ -1,5 +1,8 @@
 import { describe, it, expect } from "vitest";
-import { parseArticle } from "../src/parser.js";
+import { parseArticle, parseBlocks, type ParseOptions } from "../src/parser.js";
+import { defaultTemplatesFor } from "../src/episode-templates.js";
+
+const OPTIONS: ParseOptions = { templates: defaultTemplatesFor("svenska") };
 
 describe("parseArticle", () => {
     it("converts HTML to plain text", () => {
@@ -7,7 +10,8 @@ describe("parseArticle", () => {
             "123",
             "Test Title",
             "https://example.com/article",
-            "<p>Hello <strong>world</strong>. This is a test.</p>"
+            "<p>Hello <strong>world</strong>. This is a test.</p>",
+            OPTIONS
         );
 
         expect(result.body).toContain("Hello world");
@@ -19,7 +23,8 @@ describe("parseArticle", () => {
             "123",
             "My Article",
             "https://www.example.com/path",
-            "<p>Body text</p>"
+            "<p>Body text</p>",
+            OPTIONS
         );
 
         expect(result.introText).toBe("En artikel från example.com. My Article.");
@@ -27,14 +32,30 @@ describe("parseArticle", () => {
     });
 
     it("builds intro without source when empty", () => {
-        const result = parseArticle("123", "My Article", "", "<p>Body</p>");
+        const result = parseArticle("123", "My Article", "", "<p>Body</p>", OPTIONS);
 
         expect(result.introText).toBe("My Article.");
         expect(result.source).toBe("");
     });
 
+    it("renders configured intro and outro templates", () => {
+        const result = parseArticle("123", "My Article", "https://example.com/a", "<p>Body text</p>", {
+            templates: {
+                locale: "en-US",
+                intro: "{{title}}. By {{author}}.",
+                outro: "That was {{word_count}} words from {{source}}.",
+                feed_description: "",
+            },
+            author: "Jane Doe",
+        });
+
+        expect(result.fullText).toBe(
+            "My Article. By Jane Doe.\n\nBody text\n\nThat was 2 words from example.com."
+        );
+    });
+
     it("handles empty HTML", () => {
-        const result = parseArticle("123", "Title", "source", "");
+        const result = parseArticle("123", "Title", "source", "", OPTIONS);
 
         expect(result.body).toBe("");
         expect(result.fullText).toContain("Title");
@@ -45,7 +66,8 @@ describe("parseArticle", () => {
             "123",
             "T",
             "https://www.nytimes.com/article",
-            "<p>x</p>"
+            "<p>x</p>",
+            OPTIONS
         );
 
         expect(result.source).toBe("nytimes.com");
@@ -56,11 +78,97 @@ describe("parseArticle", () => {
             "123",
             "Title",
             "https://example.com",
-            "<p>Body here</p>"
+            "<p>Body here</p>",
+            OPTIONS
         );
 
         expect(result.fullText).toMatch(
             /^En artikel från example\.com\. Title\.\n\nBody here$/
         );
     });
+
+    it("counts words in the body", () => {
+        const result = parseArticle(
+            "123",
+            "Title",
+            "https://example.com",
+            "<p>One two three.</p><p>Four five</p>",
+            OPTIONS
+        );
+
+        expect(result.wordCount).toBe(5);
+    });
+
+    it("separates headings from the paragraphs around them", () => {
+        const result = parseArticle(
+            "123",
+            "Title",
+            "",
+            "<p>Intro</p><h2>Background</h2><p>Details</p>",
+            OPTIONS
+        );
+
+        expect(result.body).toBe("Intro\n\n[pause 1000ms]\n\n[chapter]\n\nBackground.\n\nDetails");
+    });
 });
+
+describe("parseBlocks", () => {
+    it("keeps lists, quotes, tables and captions", () => {
+        const blocks = parseBlocks(`
+            <div>
+              <h3>Steps</h3>
+              <ol><li>First <em>step</em></li><li>Second<ul><li>Nested</li></ul></li></ol>
+              <blockquote><p>To be or not to be.</p></blockquote>
+              <figure><img src="x.png" alt="x"><figcaption>A chart</figcaption></figure>
+              <table>
+                <caption>Prices</caption>
+                <tr><th>Item</th><th>Cost</th></tr>
+                <tr><td>Tea</td><td>2</td></tr>
+              </table>
+            </div>`);
+
+        expect(blocks).toEqual([
+            { type: "heading", level: 3, text: "Steps" },
+            { type: "list", ordered: true, items: ["First step", "Second", "Nested"] },
+            { type: "quote", blocks: [{ type: "paragraph", text: "To be or not to be." }] },
+            { type: "image", alt: "x" },
+            { type: "caption", text: "A chart" },
+            { type: "table", caption: "Prices", headers: ["Item", "Cost"], rows: [["Tea", "2"]] },
+        ]);
+    });
+
+    it("keeps code blocks as written, with their language", () => {
+        const html = `<p>Run:</p><pre><code class="language-python">
+def hello():
+    print("hi")   
+</code></pre><pre>ls -la</pre>`;
+
+        expect(parseBlocks(html)).toEqual([
+            { type: "paragraph", text: "Run:" },
+            { type: "code", text: 'def hello():\n    print("hi")', language: "python" },
+            { type: "code", text: "ls -la", language: null },
+        ]);
+    });
+
+    it("keeps images with alt text after the paragraph they are in", () => {
+        expect(parseBlocks(`<p>A <img src="a.png" alt=" A  cat "> and <img src="b.png"></p>`)).toEqual([
+            { type: "paragraph", text: "A and" },
+            { type: "image", alt: "A cat" },
+        ]);
+    });
+
+    it("turns loose inline text into paragraphs", () => {
+        expect(parseBlocks("Hello <b>there</b><div>Block</div>tail")).toEqual([
+            { type: "paragraph", text: "Hello there" },
+            { type: "paragraph", text: "Block" },
+            { type: "paragraph", text: "tail" },
+        ]);
+    });
+
+    it("skips scripts and styles", () => {
+        expect(parseBlocks("<p>Text</p><script>alert(1)</script><style>p{}</style>")).toEqual([
+            { type: "paragraph", text: "Text" },
+        ]);
+    });
+});
+
@@ -0,0 +1,366 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { AppConfig } from "../src/types.js";
+import { loadConfig } from "../src/config.js";
+import { StateManager } from "../src/state.js";
+import { runPipeline } from "../src/worker.js";
+import { generateFeed } from "../src/feed.js";
+import { setTtsEngine } from "../src/tts.js";
+import { FakeInstapaper } from "../src/fake-instapaper.js";
+import { FakeOpenAi } from "../src/fake-openai.js";
+import { FakeTtsEngine } from "../src/fake-tts.js";
+import { FakeServer, type FakeRequest, type FakeResponse } from "../src/fake-server.js";
+import { UsageLedger } from "../src/translation-usage.js";
+
+/** Serves RSS documents by path. */
+class FakeFeeds extends FakeServer {
+    readonly feeds = new Map<string, string>();
+
+    protected handle(request: FakeRequest): FakeResponse {
+        const feed = this.feeds.get(request.path);
+        return feed ? { status: 200, body: feed } : { status: 404, body: "Not found" };
+    }
+}
+
+function rss(...links: string[]): string {
+    const items = links.map((link) => `<item><title>${link}</title><link>${link}</link></item>`).join("");
+    return `<?xml version="1.0"?><rss version="2.0"><channel><title>Feed</title>${items}</channel></rss>`;
+}
+
+describe("runPipeline (end to end)", () => {
+    let tempDir: string;
+    let instapaper: FakeInstapaper;
+    let openAi: FakeOpenAi;
+    let tts: FakeTtsEngine;
+    let config: AppConfig;
+    let state: StateManager;
+
+    beforeEach(async () => {
+        tempDir = mkdtempSync(join(tmpdir(), "instapod-e2e-"));
+        vi.spyOn(console, "log").mockImplementation(() => {});
+
+        instapaper = new FakeInstapaper({
+            bookmarks: [
+                {
+                    bookmark_id: 1,
+                    title: "First article",
+                    url: "https://example.com/first",
+                    html: "<p>The first paragraph.</p><p>The second paragraph.</p>",
+                    tags: ["pod"],
+                },
+                {
+                    bookmark_id: 2,
+                    title: "Second article",
+                    url: "https://news.example.org/second",
+                    html: "<p>Another story.</p>",
+                    tags: ["pod"],
+                },
+                {
+                    bookmark_id: 4,
+                    title: "Long read",
+                    url: "https://example.com/long",
+                    html: "<p>Opening words.</p><h2>Background</h2><p>Some history.</p><h2>Findings</h2><p>Results.</p>",
+                    tags: ["long"],
+                },
+                {
+                    bookmark_id: 3,
+                    title: "Not tagged",
+                    url: "https://example.com/untagged",
+                    html: "<p>Should be ignored.</p>",
+                },
+            ],
+        });
+        openAi = new FakeOpenAi();
+        tts = new FakeTtsEngine();
+        await instapaper.start();
+        await openAi.start();
+        setTtsEngine(tts);
+
+        const configPath = join(tempDir, "config.yaml");
+        writeFileSync(configPath, `
+instapaper:
+  api_base: "${instapaper.url}"
+  consumer_key: "ck"
+  consumer_secret: "cs"
+  username: "${instapaper.username}"
+  password: "${instapaper.password}"
+filters:
+  tags: ["pod"]
+translation:
+  api_base: "${openAi.apiBase}"
+  api_key: "sk-test"
+  skip_if_same: false
+server:
+  base_url: "https://pod.example.com"
+data_dir: "${join(tempDir, "data")}"
+`, "utf-8");
+        config = loadConfig(configPath);
+        state = new StateManager(config.data_dir);
+    });
+
+    afterEach(async () => {
+        setTtsEngine(null);
+        await Promise.all([instapaper.stop(), openAi.stop()]);
+        rmSync(tempDir, { recursive: true, force: true });
+        vi.restoreAllMocks();
+    });
+
+    it("turns tagged bookmarks into translated episodes in the feed", async () => {
+        await runPipeline(config, state);
+
+        const episodes = state.getProcessedBookmarks();
+        expect(episodes.map((e) => e.bookmarkId).sort()).toEqual(["instapaper:1", "instapaper:2"]);
+        expect(episodes.map((e) => e.title).sort()).toEqual([
+            "[translated] First article",
+            "[translated] Second article",
+        ]);
+
+        const first = episodes.find((e) => e.bookmarkId === "instapaper:1")!;
+        const audio = readFileSync(join(config.data_dir, "audio", first.filename), "utf-8");
+        expect(audio).toContain("[translated] First article");
+        expect(audio).toContain("The second paragraph.");
+
+        expect(instapaper.requestsTo("/bookmarks/get_text")).toHaveLength(2);
+        expect(tts.calls).toHaveLength(2);
+
+        const feed = generateFeed(config, episodes);
+        expect(feed).toContain("<title>[translated] First article</title>");
+        expect(feed).toContain(`https://pod.example.com/audio/${encodeURIComponent(first.filename)}`);
+        expect(feed).toContain('<guid isPermaLink="false">instapaper:1</guid>');
+    });
+
+    it("turns article headings into chapters", async () => {
+        config.filters.tags = ["long"];
+        await runPipeline(config, state);
+
+        const [episode] = state.getProcessedBookmarks();
+        expect(episode.chapters?.map((c) => c.title)).toEqual([
+            "[translated] Long read",
+            "[translated] Background",
+            "[translated] Findings",
+        ]);
+        const starts = episode.chapters!.map((c) => c.start);
+        expect(starts[0]).toBe(0);
+        expect(starts[1]).toBeGreaterThan(starts[0]);
+        expect(starts[2]).toBeGreaterThan(starts[1]);
+
+        const audio = readFileSync(join(config.data_dir, "audio", episode.filename));
+        expect(audio.toString("latin1", 0, 3)).toBe("ID3");
+        expect(generateFeed(config, [episode])).toContain(
+            `<podcast:chapters url="https://pod.example.com/chapters/${encodeURIComponent(episode.filename.replace(".mp3", ".json"))}"`
+        );
+    });
+
+    it("reads a summary instead of the article for tags set to summary mode", async () => {
+        config.filters.tags = ["long"];
+        config.content = { ...config.content!, by_tag: { long: { mode: "summary", summary_words: 60 } } };
+        await runPipeline(config, state);
+
+        const [episode] = state.getProcessedBookmarks();
+        expect(episode.mode).toBe("summary");
+        expect(episode.chapters).toBeUndefined();
+
+        const prompts = openAi.requestsTo("/chat/completions")
+            .map((r) => JSON.parse(r.body).messages[0].content as string);
+        expect(prompts).toHaveLength(2); // title and summary
+        expect(prompts[1]).toContain("about 60 words");
+    });
+
+    it("reads a summary before the full text in summary_intro mode", async () => {
+        config.content = { ...config.content!, mode: "summary_intro" };
+        await runPipeline(config, state);
+
+        const first = state.getProcessedBookmarks().find((e) => e.bookmarkId === "instapaper:1")!;
+        expect(first.mode).toBe("summary_intro");
+        const audio = readFileSync(join(config.data_dir, "audio", first.filename), "utf-8");
+        expect(audio.indexOf("Kort sagt:")).toBeGreaterThan(-1);
+        expect(audio.indexOf("Kort sagt:")).toBeLessThan(audio.lastIndexOf("The second paragraph."));
+        const sent = openAi.requestsTo("/chat/completions").map((r) => r.body);
+        expect(sent.some((body) => body.includes("Kort sagt:") || body.includes("In short:"))).toBe(false);
+    });
+
+    it("keeps the old episode and does not tag a failed regeneration", async () => {
+        vi.spyOn(console, "error").mockImplementation(() => {});
+        config.instapaper.regenerate_on_change = true;
+        config.instapaper.post_process = { ...config.instapaper.post_process, failure_tag: "pod-failed" };
+        await runPipeline(config, state);
+        const before = state.getProcessed("instapaper:2")!;
+
+        instapaper.bookmarks.get(2)!.html = "<p>Another story, rewritten.</p>";
+        setTtsEngine({
+            synthesize: async (_text, outputPath) => {
+                writeFileSync(outputPath, "partial");
+                throw new Error("TTS down");
+            },
+        });
+        await runPipeline(config, state);
+
+        expect(state.getProcessed("instapaper:2")).toEqual(before);
+        expect(existsSync(join(config.data_dir, "audio", before.filename))).toBe(true);
+        expect(readdirSync(join(config.data_dir, "audio")).some((f) => f.endsWith(".new.mp3"))).toBe(false);
+        const tagged = instapaper.requestsTo("/bookmarks/add").filter((r) => r.body.includes("pod-failed"));
+        expect(tagged).toHaveLength(0);
+    });
+
+    it("merges tag and folder matches, resolving folders by name, id and the archive", async () => {
+        vi.spyOn(console, "warn").mockImplementation(() => {});
+        instapaper.folders.push(
+            { folder_id: 77, title: "Listened", slug: "listened" },
+            { folder_id: 88, title: "Long Reads", slug: "long-reads" }
+        );
+        instapaper.bookmarks.get(1)!.folder = "77"; // tagged "pod" as well
+        instapaper.bookmarks.get(4)!.folder = "88";
+        instapaper.bookmarks.get(3)!.folder = "archive";
+        config.filters.folders = ["Listened", "88", "archive", "Unknown"];
+        await runPipeline(config, state);
+
+        const ids = state.getProcessedBookmarks().map((e) => e.bookmarkId).sort();
+        expect(ids).toEqual(["instapaper:1", "instapaper:2", "instapaper:3", "instapaper:4"]);
+        expect(instapaper.requestsTo("/bookmarks/get_text")).toHaveLength(4);
+        expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('"Unknown" not found'));
+    });
+
+    it("tags processed bookmarks before archiving them and keeps the trigger tag", async () => {
+        config.instapaper.post_process = { ...config.instapaper.post_process, archive: true, add_tag: "podded" };
+        await runPipeline(config, state);
+
+        expect(instapaper.bookmarks.get(1)!.tags).toEqual(["pod", "podded"]);
+        expect(instapaper.bookmarks.get(1)!.folder).toBe("archive");
+        expect(instapaper.bookmarks.get(3)!.folder).toBeUndefined();
+
+        const paths = instapaper.requests.map((r) => r.path);
+        const tagWrite = paths.indexOf("/api/1.1/bookmarks/add");
+        expect(tagWrite).toBeGreaterThan(-1);
+        expect(tagWrite).toBeLessThan(paths.indexOf("/api/1/bookmarks/archive"));
+    });
+
+    it("moves processed bookmarks to a folder given by name instead of archiving", async () => {
+        instapaper.folders.push({ folder_id: 77, title: "Listened", slug: "listened" });
+        config.instapaper.post_process = { ...config.instapaper.post_process, archive: true, move_to_folder: "listened" };
+        await runPipeline(config, state);
+
+        expect(instapaper.bookmarks.get(1)!.folder).toBe("77");
+        expect(instapaper.bookmarks.get(2)!.folder).toBe("77");
+        expect(instapaper.requestsTo("/bookmarks/archive")).toHaveLength(0);
+        expect(instapaper.requestsTo("/bookmarks/add")).toHaveLength(0);
+    });
+
+    it("does not write back to Instapaper again when regenerating", async () => {
+        config.instapaper.regenerate_on_change = true;
+        config.instapaper.post_process = { ...config.instapaper.post_process, archive: true, add_tag: "podded" };
+        await runPipeline(config, state);
+        const writes = instapaper.requests.length;
+
+        const bookmark = instapaper.bookmarks.get(2)!;
+        bookmark.html = "<p>Another story, rewritten.</p>";
+        bookmark.folder = undefined;
+        await runPipeline(config, state);
+
+        expect(state.getProcessed("instapaper:2")?.regeneratedAt).toBeDefined();
+        const later = instapaper.requests.slice(writes).map((r) => r.path);
+        expect(later).not.toContain("/api/1/bookmarks/archive");
+        expect(later).not.toContain("/api/1.1/bookmarks/add");
+    });
+
+    it("flags episodes of deleted bookmarks but not of untagged or archived ones", async () => {
+        config.instapaper.remove_missing = true;
+        await runPipeline(config, state);
+
+        instapaper.bookmarks.get(1)!.tags = [];
+        instapaper.bookmarks.get(2)!.folder = "archive";
+        await runPipeline(config, state);
+        expect(state.getProcessed("instapaper:1")?.missingSince).toBeUndefined();
+        expect(state.getProcessed("instapaper:2")?.missingSince).toBeUndefined();
+
+        instapaper.removeBookmark(2);
+        await runPipeline(config, state);
+        expect(state.getProcessed("instapaper:1")?.missingSince).toBeUndefined();
+        expect(state.getProcessed("instapaper:2")?.missingSince).toBeDefined();
+    });
+
+    it("only postpones articles that need a paid translation once the budget is reached", async () => {
+        vi.spyOn(console, "warn").mockImplementation(() => {});
+        config.translation = { ...config.translation, skip_if_same: true, monthly_budget: 1 };
+        config.instapaper.post_process = { ...config.instapaper.post_process, failure_tag: "pod-failed" };
+        instapaper.addBookmark({
+            bookmark_id: 5,
+            title: "Vädret blir varmare och det märks i hela landet",
+            url: "https://example.se/vadret",
+            html: "<p>Det här är en artikel som redan är skriven på svenska och inte behöver översättas.</p>",
+            tags: ["pod"],
+        });
+        new UsageLedger(config.data_dir).record({ inputTokens: 0, outputTokens: 0, characters: 0, cost: 1 });
+        await runPipeline(config, state);
+
+        expect(state.getProcessedBookmarks().map((e) => e.bookmarkId)).toEqual(["instapaper:5"]);
+        expect(openAi.requestsTo("/chat/completions")).toHaveLength(0);
+        expect(instapaper.requestsTo("/bookmarks/add")).toHaveLength(0);
+
+        config.translation.monthly_budget = 0;
+        await runPipeline(config, state);
+        expect(state.getProcessedBookmarks()).toHaveLength(3);
+    });
+
+    it("keeps the filtered records of feeds that fail", async () => {
+        vi.spyOn(console, "error").mockImplementation(() => {});
+        const feeds = new FakeFeeds();
+        feeds.feeds.set("/a.xml", rss("https://blocked.example/one"));
+        feeds.feeds.set("/b.xml", rss("https://blocked.example/two"));
+        await feeds.start();
+        try {
+            config.filters = { ...config.filters, tags: ["none"], deny_domains: ["blocked.example"] };
+            config.sources = { rss: { feeds: [`${feeds.url}/a.xml`, `${feeds.url}/b.xml`], max_items: 5 } };
+            const filteredUrls = () => state.getFilteredArticles().map((r) => r.url).sort();
+
+            await runPipeline(config, state);
+            expect(filteredUrls()).toEqual(["https://blocked.example/one", "https://blocked.example/two"]);
+
+            feeds.failNext("/b.xml", { status: 500, body: "down" });
+            await runPipeline(config, state);
+            expect(filteredUrls()).toEqual(["https://blocked.example/one", "https://blocked.example/two"]);
+
+            feeds.failNext("/a.xml", { status: 500, body: "down" });
+            feeds.failNext("/b.xml", { status: 500, body: "down" });
+            await runPipeline(config, state);
+            expect(filteredUrls()).toEqual(["https://blocked.example/one", "https://blocked.example/two"]);
+
+            feeds.feeds.set("/b.xml", rss());
+            await runPipeline(config, state);
+            expect(filteredUrls()).toEqual(["https://blocked.example/one"]);
+        } finally {
+            await feeds.stop();
+        }
+    });
+
+    it("does not process the same bookmarks twice", async () => {
+        await runPipeline(config, state);
+        await runPipeline(config, state);
+
+        expect(tts.calls).toHaveLength(2);
+        expect(instapaper.requestsTo("/bookmarks/get_text")).toHaveLength(2);
+    });
+
+    it("skips a bookmark that disappears before its text is fetched", async () => {
+        vi.spyOn(console, "warn").mockImplementation(() => {});
+        vi.spyOn(console, "error").mockImplementation(() => {});
+        instapaper.failNext("/api/1/bookmarks/get_text", {
+            status: 400,
+            body: JSON.stringify([{ type: "error", error_code: 1241, message: "Invalid bookmark" }]),
+        });
+
+        await runPipeline(config, state);
+
+        expect(state.getProcessedBookmarks()).toHaveLength(1);
+        expect(existsSync(join(config.data_dir, "state.json"))).toBe(true);
+    });
+
+    it("aborts the run when Instapaper rejects the credentials", async () => {
+        vi.spyOn(console, "error").mockImplementation(() => {});
+        config.instapaper.password = "wrong";
+
+        await expect(runPipeline(config, state)).rejects.toThrow(/authentication failed/);
+        expect(tts.calls).toHaveLength(0);
+    });
+});
@@ -0,0 +1,112 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { parseFeed, RssSource } from "../src/rss-source.js";
+
+const RSS = `<?xml version="1.0"?>
+<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>Example Blog</title>
+    <link>https://blog.example.com</link>
+    <item>
+      <title>Older post</title>
+      <link>https://blog.example.com/older</link>
+      <guid>older-guid</guid>
+      <pubDate>Mon, 05 Jan 2026 10:00:00 GMT</pubDate>
+      <description>&lt;p&gt;Summary only&lt;/p&gt;</description>
+    </item>
+    <item>
+      <title>Newer post</title>
+      <link>https://blog.example.com/newer</link>
+      <pubDate>Tue, 06 Jan 2026 10:00:00 GMT</pubDate>
+      <description>Short summary</description>
+      <content:encoded><![CDATA[<p>Full <strong>content</strong></p>]]></content:encoded>
+    </item>
+  </channel>
+</rss>`;
+
+const ATOM = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Atom Blog</title>
+  <entry>
+    <title type="html">Atom entry</title>
+    <link rel="self" href="https://atom.example.com/entry.atom"/>
+    <link rel="alternate" href="https://atom.example.com/entry"/>
+    <id>urn:uuid:1234</id>
+    <updated>2026-01-10T08:00:00Z</updated>
+    <content type="html">&lt;p&gt;Atom body&lt;/p&gt;</content>
+  </entry>
+</feed>`;
+
+describe("parseFeed", () => {
+    it("parses RSS 2.0 items newest first", () => {
+        const items = parseFeed(RSS);
+
+        expect(items.map((i) => i.title)).toEqual(["Newer post", "Older post"]);
+        expect(items[1].guid).toBe("older-guid");
+        expect(items[1].published).toBe("2026-01-05T10:00:00.000Z");
+    });
+
+    it("prefers full content over the summary", () => {
+        const [newer, older] = parseFeed(RSS);
+
+        expect(newer.html).toBe("<p>Full <strong>content</strong></p>");
+        expect(older.html).toBe("<p>Summary only</p>");
+    });
+
+    it("falls back to the link as guid", () => {
+        const [newer] = parseFeed(RSS);
+
+        expect(newer.guid).toBe("https://blog.example.com/newer");
+    });
+
+    it("parses Atom entries", () => {
+        const [entry] = parseFeed(ATOM);
+
+        expect(entry.title).toBe("Atom entry");
+        expect(entry.link).toBe("https://atom.example.com/entry");
+        expect(entry.guid).toBe("urn:uuid:1234");
+        expect(entry.html).toBe("<p>Atom body</p>");
+    });
+
+    it("rejects documents that are not feeds", () => {
+        expect(() => parseFeed("<html><body>nope</body></html>")).toThrow(
+            "Unrecognized feed format"
+        );
+    });
+});
+
+describe("RssSource", () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    function mockFeeds(feeds: Record<string, string | null>): void {
+        vi.spyOn(console, "log").mockImplementation(() => {});
+        vi.spyOn(console, "error").mockImplementation(() => {});
+        vi.stubGlobal("fetch", vi.fn().mockImplementation(async (url: string) => {
+            const body = feeds[url];
+            return body == null
+                ? new Response("unavailable", { status: 503 })
+                : new Response(body, { status: 200 });
+        }) as unknown as typeof fetch);
+    }
+
+    it("skips a failing feed and says the listing is partial", async () => {
+        mockFeeds({ "https://blog.example.com/rss": RSS, "https://atom.example.com/feed": null });
+        const source = new RssSource({
+            feeds: ["https://blog.example.com/rss", "https://atom.example.com/feed"],
+            max_items: 5,
+        });
+
+        const articles = await source.listArticles();
+        expect(articles.map((a) => a.title)).toEqual(["Newer post", "Older post"]);
+        expect(source.listedInPart).toBe(true);
+    });
+
+    it("fails when every feed fails", async () => {
+        mockFeeds({ "https://blog.example.com/rss": null });
+        const source = new RssSource({ feeds: ["https://blog.example.com/rss"], max_items: 5 });
+
+        await expect(source.listArticles()).rejects.toThrow(/Every feed failed/);
+    });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect } from "vitest";
+import type { AppConfig, ArticleBlock } from "../src/types.js";
+import {
+    DEFAULT_CONTENT,
+    DEFAULT_SPEECH,
+    contentPolicies,
+    defaultSpeechFor,
+    joinSpeech,
+    chapterTitle,
+    nameChapters,
+    phonemeMarker,
+    renderSpeech,
+    speechCues,
+    speechToSsml,
+    splitSpeech,
+    stripMarkers,
+} from "../src/speech.js";
+
+const BLOCKS: ArticleBlock[] = [
+    { type: "paragraph", text: "Opening." },
+    { type: "heading", level: 2, text: "Findings" },
+    { type: "list", ordered: true, items: ["Fast", "Cheap"] },
+    { type: "quote", blocks: [{ type: "paragraph", text: "It works." }] },
+    { type: "table", caption: "", headers: ["Name", "Age"], rows: [["Ada", "36"]] },
+    { type: "caption", text: "A photo" },
+];
+
+describe("renderSpeech", () => {
+    it("reads structure aloud with the default cues", () => {
+        expect(renderSpeech(BLOCKS)).toBe([
+            "Opening.",
+            "[pause 1000ms]",
+            "[chapter]",
+            "Findings.",
+            "[pause 500ms]",
+            "1. Fast.\n2. Cheap.",
+            "[pause 500ms]",
+            "Quote:",
+            "It works.",
+            "End quote.",
+            "[pause 500ms]",
+            "Table.\nName: Ada, Age: 36.",
+            "[pause 500ms]",
+            "Image caption: A photo.",
+        ].join("\n\n"));
+    });
+
+    it("uses configured cues and pauses", () => {
+        const text = renderSpeech(BLOCKS.slice(0, 3), {
+            ...DEFAULT_SPEECH,
+            heading: "Section: {text}",
+            heading_pause_ms: 0,
+            block_pause_ms: 0,
+            list_intro: "A list of {count} items:",
+            ordered_item: "Item {n}: {text}",
+        });
+
+        expect(text).toBe(
+            "Opening.\n\n[chapter]\n\nSection: Findings.\n\nA list of 2 items:\nItem 1: Fast.\nItem 2: Cheap."
+        );
+    });
+
+    it("does not start with a pause", () => {
+        expect(renderSpeech([{ type: "heading", level: 1, text: "Title" }])).toBe("[chapter]\n\nTitle.");
+    });
+
+    it("only starts chapters at the top three heading levels", () => {
+        expect(renderSpeech([{ type: "heading", level: 4, text: "Minor" }])).toBe("Minor.");
+    });
+});
+
+describe("speech cues", () => {
+    it("picks defaults by target language and falls back to English", () => {
+        expect(defaultSpeechFor("svenska").quote_start).toBe("Citat:");
+        expect(defaultSpeechFor("de").table_intro).toBe("Tabelle: {caption}");
+        expect(defaultSpeechFor("klingon")).toEqual(DEFAULT_SPEECH);
+    });
+
+    it("uses configured cues over the defaults and keeps empty ones", () => {
+        const config = {
+            translation: { target_language: "svenska" },
+            speech: { heading: "Avsnitt: {text}", table_skipped: "" },
+        } as AppConfig;
+
+        const cues = speechCues(config);
+        expect(cues.heading).toBe("Avsnitt: {text}");
+        expect(cues.table_skipped).toBe("");
+        expect(cues.quote_end).toBe("Slut på citatet.");
+    });
+});
+
+describe("content policies", () => {
+    const CONTENT: ArticleBlock[] = [
+        { type: "code", text: "let x = 1;\nx++;", language: "js", summary: "It counts." },
+        { type: "table", caption: "", headers: [], rows: [["Ada", "36"]] },
+        { type: "image", alt: "A cat" },
+        { type: "caption", text: "Our cat" },
+    ];
+
+    it("skips code and reads tables and captions by default", () => {
+        expect(renderSpeech(CONTENT)).toBe([
+            "A code sample is skipped.",
+            "[pause 500ms]",
+            "Table.\nAda, 36.",
+            "[pause 500ms]",
+            "Image caption: Our cat.",
+        ].join("\n\n"));
+    });
+
+    it("reads code, alt text and notices as configured", () => {
+        const cues = { ...DEFAULT_SPEECH, block_pause_ms: 0, code_skipped: "{lines} lines of {language}" };
+        const render = (policies: Partial<typeof DEFAULT_CONTENT>) =>
+            renderSpeech(CONTENT, cues, { ...DEFAULT_CONTENT, ...policies });
+
+        expect(render({ code: "verbatim", tables: "skip", images: "alt", captions: "skip" })).toBe(
+            "let x = 1;\nx++;\n\nA table is skipped.\n\nImage: A cat."
+        );
+        expect(render({ code: "summarize", tables: "skip" })).toMatch(/^Code sample: It counts\./);
+        expect(render({ code: "skip", tables: "skip" })).toMatch(/^2 lines of js\./);
+        expect(renderSpeech(CONTENT.slice(0, 2), { ...cues, code_skipped: "", table_skipped: "" }, {
+            ...DEFAULT_CONTENT,
+            tables: "skip",
+        })).toBe("");
+    });
+
+    it("applies tag overrides over the global policies", () => {
+        const config = {
+            ...DEFAULT_CONTENT,
+            images: "alt" as const,
+            by_tag: { Programming: { code: "verbatim" as const }, data: { tables: "skip" as const } },
+        };
+
+        expect(contentPolicies(config, ["programming"])).toEqual({
+            mode: "full",
+            summary_words: 150,
+            code: "verbatim",
+            tables: "read",
+            images: "alt",
+            captions: "read",
+        });
+        expect(contentPolicies(config, [])).toEqual({ ...DEFAULT_CONTENT, images: "alt" });
+        expect(contentPolicies(undefined, ["data"])).toEqual(DEFAULT_CONTENT);
+    });
+});
+
+describe("splitSpeech", () => {
+    it("separates text segments and pauses", () => {
+        expect(splitSpeech("One\n\nTwo\n\n[pause 800ms]\n\nThree")).toEqual([
+            "One\n\nTwo",
+            800,
+            "Three",
+        ]);
+        expect(stripMarkers("One\n\n[pause 800ms]\n\n[chapter]\n\nTwo")).toBe("One\n\nTwo");
+    });
+
+    it("caps very long pauses", () => {
+        expect(splitSpeech("[pause 999999ms]")).toEqual([10_000]);
+    });
+
+    it("separates chapter starts and puts markers back", () => {
+        const text = "[chapter My Article]\n\nIntro.\n\n[pause 1000ms]\n\n[chapter]\n\nFindings.";
+        expect(splitSpeech(text)).toEqual([
+            { chapter: "My Article" },
+            "Intro.",
+            1000,
+            { chapter: null },
+            "Findings.",
+        ]);
+        expect(joinSpeech(splitSpeech(text))).toBe(text);
+    });
+
+    it("names untitled chapters after the heading that follows", () => {
+        expect(nameChapters("[chapter]\n\n[pause 500ms]\n\nSection: Findings.\nMore.")).toBe(
+            "[chapter Section: Findings]\n\n[pause 500ms]\n\nSection: Findings.\nMore."
+        );
+    });
+});
+
+describe("speechToSsml", () => {
+    it("escapes text and sends phoneme markers as <phoneme>", () => {
+        const text = `Tom & Jerry <3 ${phonemeMarker("Nvidia", "ɛnˈvɪdiə")}.`;
+        expect(speechToSsml(text)).toBe(
+            'Tom &amp; Jerry &lt;3 <phoneme alphabet="ipa" ph="ɛnˈvɪdiə">Nvidia</phoneme>.'
+        );
+    });
+
+    it("keeps marker characters out of the word and the transcription", () => {
+        expect(phonemeMarker(" a|b ", "x⟫y")).toBe("⟪ab|xy⟫");
+        expect(speechToSsml(phonemeMarker("AT&T", "eɪ\"tiː"))).toBe(
+            '<phoneme alphabet="ipa" ph="eɪ&quot;tiː">AT&amp;T</phoneme>'
+        );
+    });
+
+    it("titles chapters with the word, not the marker", () => {
+        expect(chapterTitle(`About ${phonemeMarker("Nvidia", "ɛnˈvɪdiə")}.\nMore.`)).toBe("About Nvidia");
+    });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, afterEach } from "vitest";
-import { mkdtempSync, rmSync } from "node:fs";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 import { StateManager } from "../src/state.js";
@@ -93,4 +93,101 @@ describe("StateManager", () => {
         state.updateLastRun();
         expect(state.getLastRun()).not.toBeNull();
     });
+
+    it("persists synced bookmark lists", () => {
+        const state = createManager();
+        expect(state.getBookmarkList("tag:pod")).toBeNull();
+
+        state.setBookmarkList("tag:pod", [
+            {
+                bookmark_id: 42,
+                title: "Synced",
+                url: "https://example.com",
+                description: "",
+                hash: "abc",
+                type: "bookmark",
+            },
+        ]);
+
+        const reloaded = new StateManager(tempDir);
+        const list = reloaded.getBookmarkList("tag:pod");
+        expect(list?.bookmarks.map((b) => b.bookmark_id)).toEqual([42]);
+        expect(list?.syncedAt).toBeTruthy();
+        expect(existsSync(join(tempDir, "bookmark-lists.json"))).toBe(true);
+        expect(existsSync(join(tempDir, "state.json"))).toBe(false);
+    });
+
+    it("does not overwrite changes made by another instance", () => {
+        const worker = createManager();
+        const admin = new StateManager(tempDir);
+        const episode = {
+            bookmarkId: "instapaper:1",
+            title: "Test",
+            source: "example.com",
+            filename: "instapaper-1-test.mp3",
+            duration: 60,
+            pubDate: "2026-01-15T10:00:00Z",
+        };
+
+        worker.getProcessedBookmarks();
+        admin.addProcessed(episode);
+        worker.addFiltered({
+            id: "rss:2",
+            title: "Short",
+            url: "https://example.com/2",
+            reason: "too short",
+            filteredAt: "2026-01-15T10:00:00Z",
+        });
+        admin.updateProcessed("instapaper:1", { title: "Renamed" });
+        worker.setFilteredArticles([]);
+
+        const reloaded = new StateManager(tempDir);
+        expect(reloaded.getProcessed("instapaper:1")?.title).toBe("Renamed");
+        expect(reloaded.getFilteredArticles()).toEqual([]);
+    });
+
+    it("namespaces legacy ids and keeps them as feed GUIDs", () => {
+        const state = createManager();
+
+        state.addProcessed({
+            bookmarkId: "123",
+            title: "Legacy",
+            source: "example.com",
+            filename: "123-legacy.mp3",
+            duration: 60,
+            pubDate: "2026-01-15T10:00:00Z",
+        });
+
+        state.namespaceLegacyIds("instapaper");
+
+        expect(state.isProcessed("123")).toBe(false);
+        expect(state.isProcessed("instapaper:123")).toBe(true);
+        const [episode] = state.getProcessedBookmarks();
+        expect(episode.bookmarkId).toBe("instapaper:123");
+        expect(episode.guid).toBe("123");
+    });
+
+    it("updates a processed bookmark in place", () => {
+        const state = createManager();
+
+        state.addProcessed({
+            bookmarkId: "instapaper:123",
+            title: "Test",
+            source: "example.com",
+            filename: "instapaper-123-test.mp3",
+            duration: 60,
+            pubDate: "2026-01-15T10:00:00Z",
+        });
+
+        state.updateProcessed("instapaper:123", { contentHash: "abc", textHash: "def" });
+        state.updateProcessed("instapaper:456", { contentHash: "abc" });
+
+        const reloaded = new StateManager(tempDir);
+        expect(reloaded.getProcessed("instapaper:123")).toMatchObject({
+            title: "Test",
+            contentHash: "abc",
+            textHash: "def",
+        });
+        expect(reloaded.getProcessed("instapaper:456")).toBeNull();
+    });
 });
@@ -0,0 +1,65 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { existsSync, mkdtempSync, readFileSync, readdirSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+    MAX_ATTEMPTS,
+    SubmittedSource,
+    listQueuedArticles,
+    queueArticle,
+} from "../src/submitted-source.js";
+
+describe("SubmittedSource", () => {
+    let tempDir: string;
+
+    afterEach(() => {
+        if (tempDir) {
+            rmSync(tempDir, { recursive: true, force: true });
+        }
+        vi.restoreAllMocks();
+    });
+
+    function queueOne(): SubmittedSource {
+        tempDir = mkdtempSync(join(tmpdir(), "instapod-queue-"));
+        queueArticle(tempDir, {
+            id: "web:abc",
+            title: "Submitted",
+            url: "https://example.com/page",
+            html: "<p>Text.</p>",
+        });
+        return new SubmittedSource(tempDir);
+    }
+
+    it("removes a processed submission from the queue", async () => {
+        const source = queueOne();
+        const [article] = await source.listArticles();
+
+        await source.onProcessed(article);
+        expect(listQueuedArticles(tempDir)).toEqual([]);
+    });
+
+    it("retries a failed submission, then moves it to failed with the error", async () => {
+        vi.spyOn(console, "warn").mockImplementation(() => {});
+        vi.spyOn(console, "log").mockImplementation(() => {});
+        const source = queueOne();
+
+        for (let attempt = 1; attempt < MAX_ATTEMPTS; attempt++) {
+            const [article] = await source.listArticles();
+            await source.onFailed(article, new Error("TTS down"));
+            expect(listQueuedArticles(tempDir)[0]).toMatchObject({ attempts: attempt, lastError: "TTS down" });
+        }
+
+        const [article] = await source.listArticles();
+        await source.onFailed(article, new Error("Still down"));
+
+        expect(listQueuedArticles(tempDir)).toEqual([]);
+        const failedDir = join(tempDir, "queue", "failed");
+        expect(existsSync(failedDir)).toBe(true);
+        const [file] = readdirSync(failedDir);
+        expect(JSON.parse(readFileSync(join(failedDir, file), "utf-8"))).toMatchObject({
+            id: "web:abc",
+            attempts: MAX_ATTEMPTS,
+            lastError: "Still down",
+        });
+    });
+});
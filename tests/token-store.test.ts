@@ -0,0 +1,74 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+    clearToken,
+    getTokenInfo,
+    loadToken,
+    saveToken,
+} from "../src/token-store.js";
+
+describe("token store", () => {
+    let tempDir: string;
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        vi.restoreAllMocks();
+        if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    function createDir(): string {
+        tempDir = mkdtempSync(join(tmpdir(), "instapod-token-test-"));
+        return tempDir;
+    }
+
+    it("round-trips a token and keeps it encrypted on disk", () => {
+        const dir = createDir();
+        saveToken(dir, "me@example.com", {
+            token: "oauth-token",
+            tokenSecret: "oauth-secret",
+        });
+
+        const raw = readFileSync(join(dir, "instapaper-token.json"), "utf-8");
+        expect(raw).not.toContain("oauth-token");
+        expect(raw).not.toContain("oauth-secret");
+
+        expect(loadToken(dir)).toEqual({
+            token: "oauth-token",
+            tokenSecret: "oauth-secret",
+        });
+        expect(getTokenInfo(dir)?.username).toBe("me@example.com");
+    });
+
+    it("creates a random owner-only key file without INSTAPOD_TOKEN_KEY", () => {
+        vi.stubEnv("INSTAPOD_TOKEN_KEY", "");
+        const dir = createDir();
+        saveToken(dir, "me", { token: "t", tokenSecret: "s" });
+
+        const keyFile = join(dir, "instapaper-token.key");
+        expect(Buffer.from(readFileSync(keyFile, "utf-8"), "base64")).toHaveLength(32);
+        expect(statSync(keyFile).mode & 0o777).toBe(0o600);
+    });
+
+    it("returns null when the key does not match", () => {
+        vi.spyOn(console, "warn").mockImplementation(() => {});
+        const dir = createDir();
+        vi.stubEnv("INSTAPOD_TOKEN_KEY", "one key");
+        saveToken(dir, "me", { token: "t", tokenSecret: "s" });
+
+        vi.stubEnv("INSTAPOD_TOKEN_KEY", "another key");
+        expect(loadToken(dir)).toBeNull();
+        vi.stubEnv("INSTAPOD_TOKEN_KEY", "");
+        expect(loadToken(dir)).toBeNull();
+    });
+
+    it("clears the stored token", () => {
+        const dir = createDir();
+        saveToken(dir, "me", { token: "t", tokenSecret: "s" });
+
+        expect(clearToken(dir)).toBe(true);
+        expect(loadToken(dir)).toBeNull();
+        expect(getTokenInfo(dir)).toBeNull();
+    });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { TranslationCache } from "../src/translation-cache.js";
+
+describe("TranslationCache", () => {
+    let tempDir: string;
+
+    afterEach(() => {
+        if (tempDir) {
+            rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    function createCache(): TranslationCache {
+        tempDir = mkdtempSync(join(tmpdir(), "instapod-test-"));
+        return new TranslationCache(tempDir);
+    }
+
+    it("stores translations by text, prompt, model and language", () => {
+        const cache = createCache();
+        const key = TranslationCache.key("Hello", "Translate", "gpt-4o-mini", "svenska");
+
+        expect(cache.get(key)).toBeNull();
+        cache.set(key, "Hej");
+
+        expect(cache.get(key)).toBe("Hej");
+        expect(new TranslationCache(tempDir).get(key)).toBe("Hej");
+        expect(TranslationCache.key("Hello", "Translate", "gpt-4o", "svenska")).not.toBe(key);
+        expect(TranslationCache.key("Hello", "Translate", "gpt-4o-mini", "norska")).not.toBe(key);
+    });
+
+    it("reports its size and purges all entries", () => {
+        const cache = createCache();
+        expect(cache.stats()).toEqual({ entries: 0, bytes: 0 });
+
+        cache.set(TranslationCache.key("a", "p", "m", "sv"), "ett");
+        cache.set(TranslationCache.key("b", "p", "m", "sv"), "två");
+
+        expect(cache.stats()).toEqual({ entries: 2, bytes: 7 });
+        expect(cache.purge()).toBe(2);
+        expect(cache.stats()).toEqual({ entries: 0, bytes: 0 });
+    });
+});
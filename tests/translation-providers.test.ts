@@ -0,0 +1,191 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { TranslationConfig } from "../src/types.js";
+import { languageCode, providerFor } from "../src/translation-providers.js";
+import { summarizeCode, translateText } from "../src/translator.js";
+
+const BASE_CONFIG: TranslationConfig = {
+    api_base: "https://api.example.com/v1/",
+    api_key: "key-123",
+    model: "some-model",
+    target_language: "svenska",
+    skip_if_same: false,
+    title_prompt: "",
+    text_prompt: "",
+};
+
+function mockFetch(response: unknown): ReturnType<typeof vi.fn> {
+    const mock = vi.fn().mockResolvedValue({ ok: true, json: async () => response });
+    vi.stubGlobal("fetch", mock as unknown as typeof fetch);
+    return mock;
+}
+
+function sent(fetchMock: ReturnType<typeof vi.fn>): {
+    url: string;
+    headers: Record<string, string>;
+    body: Record<string, unknown>;
+} {
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    return {
+        url,
+        headers: init.headers as Record<string, string>,
+        body: JSON.parse(String(init.body)) as Record<string, unknown>,
+    };
+}
+
+const REQUEST = { system: "Translate to svenska.", text: "Hello", context: "Earlier." };
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe("translation providers", () => {
+    it("defaults to OpenAI-compatible chat completions", async () => {
+        const fetchMock = mockFetch({
+            choices: [{ message: { content: "Hej" } }],
+            usage: { prompt_tokens: 20, completion_tokens: 3 },
+        });
+
+        expect(await providerFor(BASE_CONFIG).send(REQUEST, BASE_CONFIG)).toEqual({
+            text: "Hej",
+            usage: { inputTokens: 20, outputTokens: 3, characters: 5 },
+        });
+
+        const { url, headers, body } = sent(fetchMock);
+        expect(url).toBe("https://api.example.com/v1/chat/completions");
+        expect(headers.Authorization).toBe("Bearer key-123");
+        expect((body.messages as unknown[])[0]).toEqual({ role: "system", content: "Translate to svenska." });
+    });
+
+    it("speaks the Anthropic Messages API", async () => {
+        const config = { ...BASE_CONFIG, provider: "anthropic" as const };
+        const fetchMock = mockFetch({
+            content: [{ type: "text", text: "Hej" }],
+            usage: { input_tokens: 18, output_tokens: 4 },
+        });
+
+        const response = await providerFor(config).send(REQUEST, config);
+        expect(response.text).toBe("Hej");
+        expect(response.usage).toMatchObject({ inputTokens: 18, outputTokens: 4 });
+
+        const { url, headers, body } = sent(fetchMock);
+        expect(url).toBe("https://api.example.com/v1/messages");
+        expect(headers["x-api-key"]).toBe("key-123");
+        expect(headers["anthropic-version"]).toBeTruthy();
+        expect(body).toMatchObject({ system: "Translate to svenska.", messages: [{ role: "user", content: "Hello" }] });
+        expect(body.max_tokens).toBeGreaterThan(0);
+    });
+
+    it("speaks Ollama's native chat API", async () => {
+        const config = { ...BASE_CONFIG, provider: "ollama" as const, api_base: "http://localhost:11434", api_key: "" };
+        const fetchMock = mockFetch({ message: { role: "assistant", content: "Hej" } });
+
+        const response = await providerFor(config).send(REQUEST, config);
+        expect(response.text).toBe("Hej");
+        // No counts in the response: estimated from the text
+        expect(response.usage).toMatchObject({ inputTokens: 7, outputTokens: 1 });
+
+        const { url, headers, body } = sent(fetchMock);
+        expect(url).toBe("http://localhost:11434/api/chat");
+        expect(headers.Authorization).toBeUndefined();
+        expect(body.stream).toBe(false);
+    });
+
+    it("sends DeepL the text, target language and context", async () => {
+        const config = { ...BASE_CONFIG, provider: "deepl" as const, api_base: "https://api-free.deepl.com" };
+        const fetchMock = mockFetch({
+            translations: [{ detected_source_language: "EN", text: "Hej", billed_characters: 5 }],
+        });
+
+        expect(await providerFor(config).send(REQUEST, config)).toEqual({
+            text: "Hej",
+            usage: { inputTokens: 0, outputTokens: 0, characters: 5 },
+        });
+
+        const { url, headers, body } = sent(fetchMock);
+        expect(url).toBe("https://api-free.deepl.com/v2/translate");
+        expect(headers.Authorization).toBe("DeepL-Auth-Key key-123");
+        expect(body).toMatchObject({ text: ["Hello"], target_lang: "SV", context: "Earlier." });
+    });
+
+    it("uploads, polls and downloads a DeepL document", async () => {
+        vi.useFakeTimers();
+        const config = { ...BASE_CONFIG, provider: "deepl_document" as const, api_base: "https://api.deepl.com" };
+        const statuses = [
+            { document_id: "doc-1", status: "queued" },
+            { document_id: "doc-1", status: "translating", seconds_remaining: 2 },
+            { document_id: "doc-1", status: "done", billed_characters: 50000 },
+        ];
+        const fetchMock = vi.fn().mockImplementation(async (url: string) => {
+            if (url.endsWith("/v2/document")) {
+                return { ok: true, json: async () => ({ document_id: "doc-1", document_key: "secret" }) };
+            }
+            if (url.endsWith("/result")) return { ok: true, text: async () => "\uFEFFHej" };
+            return { ok: true, json: async () => statuses.shift() };
+        });
+        vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+
+        const response = providerFor(config).send(REQUEST, config);
+        await vi.runAllTimersAsync();
+        expect(await response).toEqual({
+            text: "Hej",
+            usage: { inputTokens: 0, outputTokens: 0, characters: 50000 },
+        });
+        vi.useRealTimers();
+
+        const calls = fetchMock.mock.calls as Array<[string, RequestInit]>;
+        expect(calls.map(([url]) => url)).toEqual([
+            "https://api.deepl.com/v2/document",
+            "https://api.deepl.com/v2/document/doc-1",
+            "https://api.deepl.com/v2/document/doc-1",
+            "https://api.deepl.com/v2/document/doc-1",
+            "https://api.deepl.com/v2/document/doc-1/result",
+        ]);
+        const upload = calls[0][1].body as FormData;
+        expect(upload.get("target_lang")).toBe("SV");
+        expect(await (upload.get("file") as File).text()).toBe("Hello");
+        expect((calls[0][1].headers as Record<string, string>).Authorization).toBe("DeepL-Auth-Key key-123");
+        expect(JSON.parse(String(calls[4][1].body))).toEqual({ document_key: "secret" });
+    });
+
+    it("fails when DeepL cannot translate the document", async () => {
+        const config = { ...BASE_CONFIG, provider: "deepl_document" as const };
+        vi.stubGlobal("fetch", vi.fn().mockImplementation(async (url: string) => ({
+            ok: true,
+            json: async () => url.endsWith("/v2/document")
+                ? { document_id: "doc-1", document_key: "secret" }
+                : { document_id: "doc-1", status: "error", error_message: "Source and target language are equal" },
+        })) as unknown as typeof fetch);
+
+        await expect(providerFor(config).send(REQUEST, config)).rejects.toThrow(/Source and target language are equal/);
+    });
+
+    it("sends LibreTranslate the text and target language", async () => {
+        const config = { ...BASE_CONFIG, provider: "libretranslate" as const, api_base: "http://localhost:5000" };
+        const fetchMock = mockFetch({ translatedText: "Hej" });
+
+        expect((await providerFor(config).send(REQUEST, config)).text).toBe("Hej");
+
+        const { url, body } = sent(fetchMock);
+        expect(url).toBe("http://localhost:5000/translate");
+        expect(body).toEqual({ q: "Hello", source: "auto", target: "sv", format: "text", api_key: "key-123" });
+    });
+
+    it("does not ask machine translation APIs for summaries", async () => {
+        const config = { ...BASE_CONFIG, provider: "deepl" as const };
+        const fetchMock = mockFetch({ translations: [{ text: "Översatt." }] });
+
+        expect((await summarizeCode(["x = 1"], config)).size).toBe(0);
+        await translateText(`${"A sentence. ".repeat(1100)}\n\nMore.`, config);
+
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("maps target language names to ISO 639-1 codes", () => {
+        expect(languageCode("Svenska")).toBe("sv");
+        expect(languageCode("norwegian")).toBe("nb");
+        expect(languageCode("fi")).toBe("fi");
+        expect(languageCode("suomi")).toBe("fi");
+        expect(languageCode("pt-BR")).toBe("pt");
+    });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { TranslationConfig } from "../src/types.js";
+import { budgetReached, priceFor, priceUsage, UsageLedger } from "../src/translation-usage.js";
+
+const CONFIG = {
+    api_base: "https://api.example.com/v1",
+    api_key: "key",
+    model: "gpt-4o-mini",
+    target_language: "svenska",
+    skip_if_same: false,
+    title_prompt: "",
+    text_prompt: "",
+} as TranslationConfig;
+
+describe("translation usage", () => {
+    let tempDir: string;
+
+    afterEach(() => {
+        if (tempDir) {
+            rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    it("looks prices up by provider/model, model and provider, configured ones first", () => {
+        const prices = { "anthropic/claude-x": { input: 1, output: 5 }, "gpt-4o-mini": { input: 9, output: 9 } };
+
+        expect(priceFor({ ...CONFIG, provider: "anthropic", model: "claude-x" }, prices)).toEqual({ input: 1, output: 5 });
+        expect(priceFor(CONFIG, prices)).toEqual({ input: 9, output: 9 });
+        expect(priceFor(CONFIG)).toEqual({ input: 0.15, output: 0.6 });
+        expect(priceFor({ ...CONFIG, provider: "deepl", model: "" })).toEqual({ characters: 25 });
+        expect(priceFor({ ...CONFIG, provider: "ollama", model: "llama3.1" })).toBeNull();
+    });
+
+    it("prices tokens and characters per million", () => {
+        const usage = { inputTokens: 2_000_000, outputTokens: 500_000, characters: 0 };
+        expect(priceUsage(usage, { input: 0.15, output: 0.6 }).cost).toBeCloseTo(0.6);
+        expect(priceUsage({ inputTokens: 0, outputTokens: 0, characters: 40_000 }, { characters: 25 }).cost)
+            .toBeCloseTo(1);
+        expect(priceUsage(usage, null).cost).toBe(0);
+    });
+
+    it("adds up usage per day and month and pauses at the budget", () => {
+        tempDir = mkdtempSync(join(tmpdir(), "instapod-test-"));
+        const ledger = new UsageLedger(tempDir);
+        const usage = { inputTokens: 100, outputTokens: 50, characters: 400, cost: 3 };
+
+        ledger.record(usage, new Date(2026, 9, 1, 12));
+        ledger.record(usage, new Date(2026, 9, 18, 9));
+        ledger.record(usage, new Date(2026, 9, 18, 21));
+        ledger.record(usage, new Date(2026, 8, 30, 12));
+
+        const now = new Date(2026, 9, 18, 22);
+        expect(ledger.day(now)).toEqual({ inputTokens: 200, outputTokens: 100, characters: 800, cost: 6 });
+        expect(ledger.month(now).cost).toBe(9);
+
+        expect(budgetReached(CONFIG, ledger, now)).toBe(false);
+        expect(budgetReached({ ...CONFIG, monthly_budget: 10 }, ledger, now)).toBe(false);
+        expect(budgetReached({ ...CONFIG, monthly_budget: 9 }, ledger, now)).toBe(true);
+        expect(budgetReached({ ...CONFIG, monthly_budget: 9 }, ledger, new Date(2026, 10, 1))).toBe(false);
+    });
+});
@@ -1,10 +1,19 @@
-import { afterEach, describe, expect, it, vi } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
 import type { TranslationConfig } from "../src/types.js";
 import {
     detectLanguage,
+    detectSourceLanguage,
+    summarizeArticle,
+    summarizeCode,
     translateText,
     translateTitle,
 } from "../src/translator.js";
+import { TranslationCache } from "../src/translation-cache.js";
+import { CircuitBreakers } from "../src/circuit-breaker.js";
+import { TranslationBudgetError, UsageLedger } from "../src/translation-usage.js";
 import {
     DEFAULT_TEXT_PROMPT_TEMPLATE,
     DEFAULT_TITLE_PROMPT_TEMPLATE,
@@ -32,6 +41,22 @@ function mockSuccessfulFetch(responseText = "translated"): ReturnType<typeof vi.
     return mock;
 }
 
+/** Answer every request with its text, prefixed, like a translator that keeps markers. */
+function mockEchoFetch(prefix = "översatt: "): ReturnType<typeof vi.fn> {
+    const mock = vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+        const body = JSON.parse(String(init.body)) as { messages: Array<{ content: string }> };
+        return {
+            ok: true,
+            json: async () => ({
+                choices: [{ message: { content: prefix + body.messages[body.messages.length - 1].content } }],
+            }),
+        };
+    });
+
+    vi.stubGlobal("fetch", mock as unknown as typeof fetch);
+    return mock;
+}
+
 function getSystemPrompt(fetchMock: ReturnType<typeof vi.fn>): string {
     const init = fetchMock.mock.calls[0]?.[1] as RequestInit;
     const body = JSON.parse(String(init.body)) as {
@@ -61,6 +86,15 @@ describe("detectLanguage", () => {
     });
 });
 
+describe("detectSourceLanguage", () => {
+    it("returns the ISO 639-1 code, without markers", () => {
+        expect(detectSourceLanguage(
+            "Tämä on pitkä suomenkielinen teksti, joka pitäisi tunnistaa oikein.\n\n[pause 500ms]\n\nToinen kappale on myös suomea."
+        )).toBe("fi");
+        expect(detectSourceLanguage("")).toBeNull();
+    });
+});
+
 describe("translateText", () => {
     it("skips translation when text is already in target language", async () => {
         // We just need to verify detectLanguage returns "swe" for Swedish text
@@ -71,6 +105,31 @@ describe("translateText", () => {
         expect(detected).toBe("swe");
     });
 
+    it("translates only the paragraphs not in the target language", async () => {
+        const fetchMock = mockSuccessfulFetch("översatt");
+        const swedish = "Det här stycket är redan skrivet på svenska och ska lämnas precis som det är.";
+        const english = "This paragraph is written in English and has to be translated into Swedish.";
+
+        const result = await translateText(
+            `${swedish}\n\nKort.\n\n${english}\n\nShort.`,
+            { ...BASE_CONFIG, skip_if_same: true }
+        );
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        const init = fetchMock.mock.calls[0][1] as RequestInit;
+        expect(JSON.parse(String(init.body)).messages[1].content).toBe(`${english}\n\nShort.`);
+        expect(result).toBe(`${swedish}\n\nKort.\n\növersatt`);
+    });
+
+    it("makes no request for an article already in the target language", async () => {
+        const fetchMock = mockSuccessfulFetch();
+        const text = "Det här är en svensk text som inte behöver översättas till svenska.";
+
+        expect(await translateText(text, { ...BASE_CONFIG, skip_if_same: true, target_language: "sv-SE" }))
+            .toBe(text);
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
     it("uses configured text prompt and replaces {{target_language}}", async () => {
         const fetchMock = mockSuccessfulFetch("översatt text");
 
@@ -101,6 +160,207 @@ describe("translateText", () => {
         expect(fetchMock).toHaveBeenCalledTimes(1);
         expect(getSystemPrompt(fetchMock)).toBe(expectedDefault);
     });
+
+    it("sends the text around markers in one request, with placeholders", async () => {
+        const fetchMock = mockEchoFetch();
+
+        const result = await translateText(
+            "First part.\n\n[pause 1000ms]\n\n[chapter]\n\nSecond part.\n\n[pause 500ms]",
+            BASE_CONFIG
+        );
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        const init = fetchMock.mock.calls[0][1] as RequestInit;
+        expect(JSON.parse(String(init.body)).messages[1].content).toBe("First part.\n\n⟦1⟧\n\n⟦2⟧\n\nSecond part.");
+        expect(getSystemPrompt(fetchMock)).toContain("Keep every marker unchanged");
+        expect(result).toBe("översatt: First part.\n\n[pause 1000ms]\n\n[chapter]\n\nSecond part.\n\n[pause 500ms]");
+    });
+
+    it("translates the parts separately when the reply loses a placeholder", async () => {
+        vi.spyOn(console, "warn").mockImplementation(() => {});
+        const fetchMock = mockSuccessfulFetch("översatt");
+
+        const result = await translateText("First part.\n\n[pause 1000ms]\n\nSecond part.", BASE_CONFIG);
+
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+        expect(result).toBe("översatt\n\n[pause 1000ms]\n\növersatt");
+    });
+
+    it("adds up the usage of every request sent", async () => {
+        const fetchMock = vi.fn().mockResolvedValue({
+            ok: true,
+            json: async () => ({
+                choices: [{ message: { content: "översatt" } }],
+                usage: { prompt_tokens: 1_000_000, completion_tokens: 100_000 },
+            }),
+        });
+        vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+        const usage = { inputTokens: 0, outputTokens: 0, characters: 0, cost: 0 };
+
+        await translateText("First part.", BASE_CONFIG, { usage });
+        await translateText("Second part.", BASE_CONFIG, { usage });
+
+        expect(usage).toMatchObject({ inputTokens: 2_000_000, outputTokens: 200_000, characters: 23 });
+        expect(usage.cost).toBeCloseTo(0.42);
+    });
+
+    it("reuses cached translations until the model changes", async () => {
+        const dir = mkdtempSync(join(tmpdir(), "instapod-test-"));
+        try {
+            const cache = new TranslationCache(dir);
+            const fetchMock = mockSuccessfulFetch("Hej");
+
+            expect(await translateText("Hello", BASE_CONFIG, { cache })).toBe("Hej");
+            expect(await translateText("Hello", BASE_CONFIG, { cache })).toBe("Hej");
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+
+            await translateText("Hello", { ...BASE_CONFIG, model: "gpt-4o" }, { cache });
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
+
+describe("translation context and glossary", () => {
+    function systemPrompts(fetchMock: ReturnType<typeof vi.fn>): string[] {
+        return fetchMock.mock.calls.map(([, init]) =>
+            JSON.parse(String((init as RequestInit).body)).messages[0].content as string
+        );
+    }
+
+    const long = "A sentence about Ada Lovelace. ".repeat(400).trim();
+
+    it("sends the previous paragraph and a running summary along", async () => {
+        const fetchMock = mockEchoFetch();
+
+        await translateText(`${long}\n\n[pause 500ms]\n\nFirst.\n\nSecond.\n\n[pause 500ms]\n\nThird.`, BASE_CONFIG);
+
+        const prompts = systemPrompts(fetchMock);
+        // First chunk of the long part, summary of it, the rest with its markers
+        expect(prompts).toHaveLength(3);
+        expect(prompts[0]).not.toContain("Context from earlier");
+        expect(prompts[1]).toContain("running summary");
+        expect(prompts[2]).toContain("Summary of the article so far:\növersatt: New text:");
+        expect(prompts[2]).toMatch(/The previous paragraph:\n…[^\n]*Lovelace\.\n\nIts translation:\n…/);
+    });
+
+    it("leaves the context out when disabled", async () => {
+        const fetchMock = mockEchoFetch();
+
+        await translateText(`${long}\n\nTwo.`, { ...BASE_CONFIG, context: false });
+
+        const prompts = systemPrompts(fetchMock);
+        expect(prompts).toHaveLength(2);
+        expect(prompts[1]).not.toContain("Context from earlier");
+    });
+
+    it("adds the glossary terms that occur in the text", async () => {
+        const fetchMock = mockSuccessfulFetch("översatt");
+        const glossary = [
+            { term: "machine learning", translation: "maskininlärning" },
+            { term: "Kubernetes" },
+            { term: "GPU", translation: "grafikprocessor" },
+        ];
+
+        await translateTitle("Machine learning on Kubernetes", { ...BASE_CONFIG, glossary });
+
+        const prompt = getSystemPrompt(fetchMock);
+        expect(prompt).toContain('- "machine learning" → "maskininlärning"');
+        expect(prompt).toContain('- "Kubernetes": keep untranslated');
+        expect(prompt).not.toContain("GPU");
+    });
+});
+
+describe("translation fallbacks", () => {
+    const FALLBACK_CONFIG: TranslationConfig = {
+        ...BASE_CONFIG,
+        api_base: "https://primary.example/v1",
+        fallbacks: [{ provider: "ollama", api_base: "http://backup:11434", api_key: "", model: "llama3.1" }],
+    };
+
+    function mockPrimaryDown(): ReturnType<typeof vi.fn> {
+        const mock = vi.fn().mockImplementation(async (url: string) =>
+            url.startsWith("https://primary.example")
+                ? { ok: false, status: 503, text: async () => "down" }
+                : { ok: true, json: async () => ({ message: { content: "Hej" } }) }
+        );
+        vi.stubGlobal("fetch", mock as unknown as typeof fetch);
+        return mock;
+    }
+
+    it("falls back to the next endpoint and records which one answered", async () => {
+        vi.useFakeTimers();
+        vi.spyOn(console, "error").mockImplementation(() => {});
+        const fetchMock = mockPrimaryDown();
+        const producedBy = new Set<string>();
+
+        const result = translateTitle("Hello", FALLBACK_CONFIG, { producedBy });
+        await vi.runAllTimersAsync();
+
+        expect(await result).toBe("Hej");
+        expect(fetchMock).toHaveBeenCalledTimes(4); // three attempts, then the fallback
+        expect([...producedBy]).toEqual(["ollama/llama3.1"]);
+        vi.useRealTimers();
+    });
+
+    it("skips endpoints whose breaker is open", async () => {
+        const dir = mkdtempSync(join(tmpdir(), "instapod-test-"));
+        try {
+            vi.spyOn(console, "warn").mockImplementation(() => {});
+            const breakers = new CircuitBreakers(dir);
+            const primary = "openai/gpt-4o-mini@https://primary.example/v1";
+            breakers.recordFailure(primary);
+            breakers.recordFailure(primary);
+            const fetchMock = mockPrimaryDown();
+
+            expect(await translateTitle("Hello", FALLBACK_CONFIG, { breakers })).toBe("Hej");
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
+
+describe("monthly translation budget", () => {
+    let dir: string;
+    let ledger: UsageLedger;
+    const SPENT_CONFIG: TranslationConfig = { ...BASE_CONFIG, monthly_budget: 5 };
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), "instapod-test-"));
+        ledger = new UsageLedger(dir);
+        ledger.record({ inputTokens: 0, outputTokens: 0, characters: 0, cost: 5 });
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("sends no paid request once the budget is reached", async () => {
+        const fetchMock = mockSuccessfulFetch("Hej");
+
+        await expect(translateTitle("Hello", SPENT_CONFIG, { ledger })).rejects.toThrow(TranslationBudgetError);
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("still answers from the cache and from endpoints without a price", async () => {
+        const cache = new TranslationCache(dir);
+        mockSuccessfulFetch("Hej");
+        expect(await translateTitle("Hello", BASE_CONFIG, { cache })).toBe("Hej");
+
+        const fetchMock = vi.fn().mockResolvedValue({ ok: true, json: async () => ({ message: { content: "Tjena" } }) });
+        vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+        const withFallback: TranslationConfig = {
+            ...SPENT_CONFIG,
+            fallbacks: [{ provider: "ollama", api_base: "http://local:11434", api_key: "", model: "llama3.1" }],
+        };
+
+        expect(await translateTitle("Hello", SPENT_CONFIG, { cache, ledger })).toBe("Hej");
+        expect(await translateTitle("Hi there", withFallback, { cache, ledger })).toBe("Tjena");
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(String(fetchMock.mock.calls[0][0])).toContain("http://local:11434");
+    });
 });
 
 describe("translateTitle", () => {
@@ -135,3 +395,36 @@ describe("translateTitle", () => {
         expect(getSystemPrompt(fetchMock)).toBe(expectedDefault);
     });
 });
+
+describe("summarizeCode", () => {
+    it("describes each distinct code block in the target language", async () => {
+        const fetchMock = mockSuccessfulFetch("Skriver ut en hälsning.");
+
+        const summaries = await summarizeCode(["print('hi')", "print('hi')"], BASE_CONFIG);
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(getSystemPrompt(fetchMock)).toContain("in svenska");
+        expect(summaries.get("print('hi')")).toBe("Skriver ut en hälsning.");
+    });
+});
+
+describe("summarizeArticle", () => {
+    it("asks for a summary of the given length in the target language, without markers", async () => {
+        const fetchMock = mockSuccessfulFetch("En kort sammanfattning.");
+
+        const summary = await summarizeArticle("First part.\n\n[pause 1000ms]\n\nSecond part.", 120, BASE_CONFIG);
+
+        expect(summary).toBe("En kort sammanfattning.");
+        expect(getSystemPrompt(fetchMock)).toContain("in svenska in about 120 words");
+        const init = fetchMock.mock.calls[0][1] as RequestInit;
+        expect(JSON.parse(String(init.body)).messages[1].content).toBe("First part.\n\nSecond part.");
+    });
+
+    it("is not asked of machine translation APIs", async () => {
+        const fetchMock = mockSuccessfulFetch();
+
+        await expect(summarizeArticle("Text.", 100, { ...BASE_CONFIG, provider: "deepl" }))
+            .rejects.toThrow("none usable");
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+});
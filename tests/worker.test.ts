@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { AppConfig } from "../src/types.js";
+import { StateManager } from "../src/state.js";
+import { removeMissingEpisodes } from "../src/worker.js";
+
+const DAY_MS = 24 * 3600 * 1000;
+const NOW = new Date("2026-03-01T12:00:00Z").getTime();
+
+describe("removeMissingEpisodes", () => {
+    let tempDir: string;
+    let state: StateManager;
+    let config: AppConfig;
+
+    beforeEach(() => {
+        tempDir = mkdtempSync(join(tmpdir(), "instapod-test-"));
+        mkdirSync(join(tempDir, "audio"));
+        state = new StateManager(tempDir);
+        config = { data_dir: tempDir } as AppConfig;
+        vi.spyOn(console, "log").mockImplementation(() => {});
+
+        for (const id of ["instapaper:1", "instapaper:2", "rss:3"]) {
+            const filename = `${id.replace(":", "-")}.mp3`;
+            writeFileSync(join(tempDir, "audio", filename), "mp3");
+            state.addProcessed({
+                bookmarkId: id,
+                title: id,
+                source: "example.com",
+                filename,
+                duration: 60,
+                pubDate: "2026-02-01T10:00:00Z",
+            });
+        }
+    });
+
+    afterEach(() => {
+        rmSync(tempDir, { recursive: true, force: true });
+        vi.restoreAllMocks();
+    });
+
+    const listed = ["instapaper:1"];
+
+    it("flags episodes whose article is no longer listed", () => {
+        removeMissingEpisodes("instapaper", listed, 7, config, state, NOW);
+
+        expect(state.getProcessed("instapaper:1")?.missingSince).toBeUndefined();
+        expect(state.getProcessed("instapaper:2")?.missingSince).toBe(new Date(NOW).toISOString());
+        expect(state.getProcessed("rss:3")?.missingSince).toBeUndefined();
+    });
+
+    it("removes the episode and its audio after the grace period", () => {
+        removeMissingEpisodes("instapaper", listed, 7, config, state, NOW);
+        removeMissingEpisodes("instapaper", listed, 7, config, state, NOW + 6 * DAY_MS);
+        expect(state.isProcessed("instapaper:2")).toBe(true);
+
+        removeMissingEpisodes("instapaper", listed, 7, config, state, NOW + 7 * DAY_MS);
+        expect(state.isProcessed("instapaper:2")).toBe(false);
+        expect(existsSync(join(tempDir, "audio", "instapaper-2.mp3"))).toBe(false);
+        expect(state.isProcessed("rss:3")).toBe(true);
+    });
+
+    it("unflags an episode whose article is listed again", () => {
+        removeMissingEpisodes("instapaper", listed, 7, config, state, NOW);
+        removeMissingEpisodes(
+            "instapaper",
+            [...listed, "instapaper:2"],
+            7,
+            config,
+            state,
+            NOW + DAY_MS
+        );
+
+        expect(state.getProcessed("instapaper:2")?.missingSince).toBeUndefined();
+    });
+});